@@ -0,0 +1,406 @@
+import { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect } from 'expo-router';
+import { ArrowLeft, Plus, Search, Pin, PinOff, Archive, ArchiveRestore } from 'lucide-react-native';
+import { createSession } from '@/services/chat';
+import {
+  archiveSession,
+  getPhaseLabel,
+  listSessions,
+  restoreSession,
+  searchSessions,
+  setSessionPinned,
+  type SessionListItem,
+  type SessionSearchResult,
+} from '@/services/chat-history';
+
+const SEARCH_DELAY_MS = 300;
+
+/** Splits a search snippet on the `<b>` tags Postgres marks matches with. */
+function snippetParts(snippet: string): { text: string; match: boolean }[] {
+  return snippet
+    .split(/(<b>.*?<\/b>)/g)
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith('<b>') ? { text: part.slice(3, -4), match: true } : { text: part, match: false }
+    );
+}
+
+export default function ChatHistoryScreen() {
+  const [sessions, setSessions] = useState<(SessionListItem | SessionSearchResult)[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setError(null);
+      const results = query.trim()
+        ? (await searchSessions(query, showArchived)).filter((session) => !!session.archived_at === showArchived)
+        : await listSessions(showArchived);
+      setSessions(results);
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+      setError('Failed to load conversations. Please try again.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [query, showArchived]);
+
+  // Reloads on focus as well, since titles are written in the background
+  // after a conversation's first turn. Typing waits for a pause.
+  useFocusEffect(
+    useCallback(() => {
+      const timer = setTimeout(loadSessions, query ? SEARCH_DELAY_MS : 0);
+      return () => clearTimeout(timer);
+    }, [loadSessions, query])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadSessions();
+  };
+
+  const openSession = async (session: SessionListItem) => {
+    if (session.archived_at) {
+      await restoreSession(session.id);
+    }
+    router.push({ pathname: '/(tabs)/chat', params: { sessionId: session.id } });
+  };
+
+  const startNewConversation = async () => {
+    const session = await createSession('health_coach');
+    if (!session) {
+      setError('Unable to start a conversation. Please try again.');
+      return;
+    }
+    router.push({ pathname: '/(tabs)/chat', params: { sessionId: session.id } });
+  };
+
+  const togglePinned = async (session: SessionListItem) => {
+    if (await setSessionPinned(session.id, !session.pinned)) {
+      await loadSessions();
+    }
+  };
+
+  const toggleArchived = async (session: SessionListItem) => {
+    const done = session.archived_at ? await restoreSession(session.id) : await archiveSession(session.id);
+    if (done) {
+      setSessions((prev) => prev.filter((item) => item.id !== session.id));
+    }
+  };
+
+  const renderSession = (session: SessionListItem | SessionSearchResult) => {
+    const snippet = 'snippet' in session ? session.snippet : null;
+
+    return (
+      <TouchableOpacity
+        key={session.id}
+        style={styles.card}
+        activeOpacity={0.7}
+        onPress={() => openSession(session)}
+      >
+        <View style={styles.cardHeader}>
+          <View style={styles.cardTitleRow}>
+            {session.pinned && <Pin size={14} color="#4A7C2E" />}
+            <Text style={styles.cardTitle} numberOfLines={1}>
+              {session.title}
+            </Text>
+          </View>
+          <View style={styles.cardActions}>
+            {!session.archived_at && (
+              <TouchableOpacity
+                onPress={() => togglePinned(session)}
+                style={styles.actionButton}
+                accessibilityLabel={session.pinned ? 'Unpin conversation' : 'Pin conversation'}
+              >
+                {session.pinned ? <PinOff size={18} color="#5A6C4A" /> : <Pin size={18} color="#5A6C4A" />}
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              onPress={() => toggleArchived(session)}
+              style={styles.actionButton}
+              accessibilityLabel={session.archived_at ? 'Restore conversation' : 'Archive conversation'}
+            >
+              {session.archived_at ? (
+                <ArchiveRestore size={18} color="#5A6C4A" />
+              ) : (
+                <Archive size={18} color="#5A6C4A" />
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {snippet && (
+          <Text style={styles.snippet} numberOfLines={2}>
+            {snippetParts(snippet).map((part, index) => (
+              <Text key={index} style={part.match ? styles.snippetMatch : undefined}>
+                {part.text}
+              </Text>
+            ))}
+          </Text>
+        )}
+
+        <Text style={styles.cardMeta}>
+          {getPhaseLabel(session.phase)} · {new Date(session.updated_at).toLocaleDateString()}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ArrowLeft size={24} color="#2D3E1F" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Conversations</Text>
+        <TouchableOpacity
+          onPress={startNewConversation}
+          style={styles.headerButton}
+          accessibilityLabel="New conversation"
+        >
+          <Plus size={24} color="#4A7C2E" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.searchContainer}>
+        <Search size={18} color="#999" />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search conversations"
+          placeholderTextColor="#999"
+          returnKeyType="search"
+          autoCorrect={false}
+        />
+      </View>
+
+      <View style={styles.filterRow}>
+        <TouchableOpacity
+          style={[styles.filterChip, !showArchived && styles.filterChipActive]}
+          onPress={() => setShowArchived(false)}
+        >
+          <Text style={[styles.filterText, !showArchived && styles.filterTextActive]}>Active</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.filterChip, showArchived && styles.filterChipActive]}
+          onPress={() => setShowArchived(true)}
+        >
+          <Text style={[styles.filterText, showArchived && styles.filterTextActive]}>Archived</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#4A7C2E" />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.list}
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#4A7C2E" />}
+        >
+          {error && (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+
+          {sessions.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyTitle}>
+                {query.trim()
+                  ? 'No matching conversations'
+                  : showArchived
+                  ? 'No archived conversations'
+                  : 'No conversations yet'}
+              </Text>
+              {!query.trim() && !showArchived && (
+                <Text style={styles.emptyText}>Tap + to start one with your nature guide</Text>
+              )}
+            </View>
+          ) : (
+            sessions.map(renderSession)
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F8F3',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2D3E1F',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: 16,
+    paddingHorizontal: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#2D3E1F',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  filterChipActive: {
+    backgroundColor: '#4A7C2E',
+    borderColor: '#4A7C2E',
+  },
+  filterText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#5A6C4A',
+  },
+  filterTextActive: {
+    color: '#FFFFFF',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  cardTitleRow: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  cardTitle: {
+    flexShrink: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3E1F',
+  },
+  cardActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 8,
+  },
+  actionButton: {
+    padding: 6,
+  },
+  snippet: {
+    fontSize: 14,
+    color: '#5A6C4A',
+    lineHeight: 20,
+    marginTop: 6,
+  },
+  snippetMatch: {
+    fontWeight: '700',
+    color: '#2D3E1F',
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
+  errorContainer: {
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#FEE',
+    borderWidth: 1,
+    borderColor: '#FCC',
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#C00',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2D3E1F',
+    marginBottom: 6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#5A6C4A',
+    textAlign: 'center',
+  },
+});
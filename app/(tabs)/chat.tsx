@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { Fragment, useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -12,23 +12,58 @@ import {
   Keyboard,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import * as Location from 'expo-location';
 import { supabase } from '@/services/supabase';
 import { getCurrentWeather, type WeatherData } from '@/services/weather';
-import { getExcursionPlan } from '@/services/ai';
+import { getSafeExcursionPlan } from '@/services/excursion-safety';
+import { getUserProfile } from '@/services/user-profile';
+import { planningStateFromMetadata } from '@/services/planning-slots';
 import { searchNatureSpotsNearby } from '@/services/nature-spots';
 import { LoadingScreen } from '@/components/loading-screen';
-import { Send, Leaf, ArrowLeft } from 'lucide-react-native';
-import { sendMessage as sendChatMessage, getOrCreateSession, getSession, type ConversationPhase } from '@/services/chat';
-import type { ChatMessage } from '@/types/ai';
+import { QueuedMessageStatus } from '@/components/queued-message-status';
+import { Send, Leaf, ArrowLeft, History } from 'lucide-react-native';
+import {
+  getLatestMessage,
+  getOrCreateSession,
+  getSession,
+  getSessionMessages,
+  type ChatSession,
+  type ConversationPhase,
+  type StoredMessage,
+} from '@/services/chat';
+import { localMessageId, mergeStoredMessage, subscribeToSession, syncCursor } from '@/services/chat-realtime';
+import {
+  deliverQueuedMessage,
+  getQueuedMessages,
+  queueMessage,
+  retryQueuedMessage,
+  subscribeToOutbox,
+  type OutboxMessage,
+  type OutboxStatus,
+} from '@/services/chat-outbox';
 
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  /** Set while the message is in the outbox; its id is then the outbox `clientId`. */
+  status?: OutboxStatus;
 }
 
+const queuedToMessage = (queued: OutboxMessage): Message => ({
+  id: queued.clientId,
+  role: 'user',
+  content: queued.content,
+  status: queued.status,
+});
+
+const storedToMessage = (stored: StoredMessage): Message => ({
+  id: localMessageId(stored),
+  role: stored.role as Message['role'],
+  content: stored.content,
+});
+
 const getFirstTimeGreeting = (name?: string) => {
   const greeting = name ? `Hi ${name}!` : "Hi!";
   return `${greeting} I'm your nature wellness guide. I can help you plan a personalized outdoor experience based on how you're feeling today. What kind of nature experience are you looking for? You can tell me things like how much time you have, what activities interest you, or what you'd like to get out of your time outdoors.\n\nOr tap the Create icon below to build your excursion with more options.`;
@@ -42,64 +77,155 @@ const getReturningGreeting = (name?: string) => {
 const CREATE_TAB_HINT = "\n\nOr tap the Create icon below to build your excursion with more options.";
 
 export default function ChatScreen() {
+  // Set when a conversation is resumed from the history list, or when a
+  // finished excursion hands its session to the post-excursion coach.
+  const { sessionId: paramSessionId } = useLocalSearchParams<{ sessionId?: string }>();
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState('');
   const [sending, setSending] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
   const [weather, setWeather] = useState<WeatherData | null>(null);
   const [location, setLocation] = useState<Location.LocationObject | null>(null);
   const [creatingExcursion, setCreatingExcursion] = useState(false);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [sessionPhase, setSessionPhase] = useState<ConversationPhase>('initial_chat');
+  // History is only kept for signed-in users.
+  const [signedIn, setSignedIn] = useState(false);
+  // Where live sync catches up from; set with the session.
+  const [syncFrom, setSyncFrom] = useState<string | null>(null);
   const scrollViewRef = useRef<ScrollView>(null);
   const inputRef = useRef<TextInput>(null);
 
   useEffect(() => {
-    initializeChat();
     loadLocationAndWeather();
   }, []);
 
+  useEffect(() => {
+    initializeChat();
+  }, [paramSessionId]);
+
+  // Keeps queued bubbles in step with the outbox, and shows replies that
+  // arrive when a queued message is retried in the background.
+  useEffect(() => {
+    if (!sessionId) return;
+
+    return subscribeToOutbox((event) => {
+      if (event.type === 'changed') {
+        const statuses = new Map(event.messages.map((queued) => [queued.clientId, queued.status]));
+        setMessages(prev => prev.map(msg => (msg.status ? { ...msg, status: statuses.get(msg.id) } : msg)));
+        return;
+      }
+      if (event.message.sessionId !== sessionId) return;
+
+      const reply: Message = { id: `${event.message.clientId}:reply`, role: 'assistant', content: event.result.reply };
+      setMessages(prev => {
+        if (prev.some(msg => msg.id === reply.id)) return prev;
+        const index = prev.findIndex(msg => msg.id === event.message.clientId);
+        return index === -1 ? [...prev, reply] : [...prev.slice(0, index + 1), reply, ...prev.slice(index + 1)];
+      });
+      scrollToBottom();
+      refreshSessionPhase(sessionId);
+    });
+  }, [sessionId]);
+
+  // Shows messages and phase changes from this session's other devices.
+  useEffect(() => {
+    if (!sessionId || !syncFrom) return;
+
+    return subscribeToSession(sessionId, syncFrom, {
+      onMessage: (stored) => {
+        if (stored.role === 'system') return;
+        setMessages(prev => mergeStoredMessage(prev, stored, storedToMessage));
+        scrollToBottom();
+      },
+      onSessionChange: (session) => setSessionPhase(session.phase),
+    });
+  }, [sessionId, syncFrom]);
+
+  const refreshSessionPhase = async (id: string) => {
+    const updatedSession = await getSession(id);
+    if (updatedSession) {
+      setSessionPhase(updatedSession.phase);
+    }
+  };
+
   const initializeChat = async () => {
     try {
-      const session = await getOrCreateSession('health_coach');
+      const { data: { user } } = await supabase.auth.getUser();
+      setSignedIn(!!user);
+
+      const session = (paramSessionId ? await getSession(paramSessionId) : null)
+        ?? await getOrCreateSession('health_coach');
       if (session) {
+        // Read before the opening messages, so nothing stored while they load
+        // is missed; the greeting doesn't load the history at all.
+        const latest = await getLatestMessage(session.id);
         setSessionId(session.id);
         setSessionPhase(session.phase);
+        setSyncFrom(syncCursor(latest));
       }
 
-      const { data: { user } } = await supabase.auth.getUser();
-      let greeting = getFirstTimeGreeting();
-
-      if (user) {
-        const { data: profile } = await supabase
-          .from('user_profiles')
-          .select('chat_session_count, full_name')
-          .eq('user_id', user.id)
-          .maybeSingle();
-
-        const currentCount = profile?.chat_session_count || 0;
-        const userName = profile?.full_name;
-
-        if (currentCount === 0) {
-          greeting = getFirstTimeGreeting(userName);
-        } else if (currentCount < 4) {
-          greeting = getReturningGreeting(userName) + CREATE_TAB_HINT;
-        } else {
-          greeting = getReturningGreeting(userName);
-        }
-
-        await supabase
-          .from('user_profiles')
-          .update({ chat_session_count: currentCount + 1 })
-          .eq('user_id', user.id);
-      }
-
-      setMessages([{ id: '0', role: 'assistant', content: greeting }]);
+      const opening = await loadOpeningMessages(session);
+      // Messages from an earlier visit that haven't reached the server yet,
+      // or are stored but still waiting on their reply.
+      const queued = session ? await getQueuedMessages(session.id) : [];
+      const queuedIds = new Set(queued.map((message) => message.clientId));
+      setMessages([...opening.filter((msg) => !queuedIds.has(msg.id)), ...queued.map(queuedToMessage)]);
     } catch (error) {
       console.error('Error initializing chat session:', error);
       setMessages([{ id: '0', role: 'assistant', content: getFirstTimeGreeting() }]);
     }
   };
 
+  const loadOpeningMessages = async (session: ChatSession | null): Promise<Message[]> => {
+    // The coach already opened the follow-up with how the excursion went.
+    if (paramSessionId && session?.phase === 'post_excursion_followup') {
+      const stored = await getSessionMessages(session.id);
+      const opener = [...stored].reverse().find((msg) => msg.role === 'assistant');
+      if (opener) {
+        return [storedToMessage(opener)];
+      }
+    }
+
+    // A resumed conversation picks up where it left off, in its own phase.
+    if (paramSessionId && session) {
+      const stored = await getSessionMessages(session.id);
+      const turns = stored.filter((msg) => msg.role !== 'system');
+      if (turns.length > 0) {
+        return turns.map(storedToMessage);
+      }
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    let greeting = getFirstTimeGreeting();
+
+    if (user) {
+      const { data: profile } = await supabase
+        .from('user_profiles')
+        .select('chat_session_count, full_name')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      const currentCount = profile?.chat_session_count || 0;
+      const userName = profile?.full_name;
+
+      if (currentCount === 0) {
+        greeting = getFirstTimeGreeting(userName);
+      } else if (currentCount < 4) {
+        greeting = getReturningGreeting(userName) + CREATE_TAB_HINT;
+      } else {
+        greeting = getReturningGreeting(userName);
+      }
+
+      await supabase
+        .from('user_profiles')
+        .update({ chat_session_count: currentCount + 1 })
+        .eq('user_id', user.id);
+    }
+
+    return [{ id: '0', role: 'assistant', content: greeting }];
+  };
+
   const loadLocationAndWeather = async () => {
     try {
       const { status } = await Location.requestForegroundPermissionsAsync();
@@ -132,47 +258,52 @@ export default function ChatScreen() {
     const userMessage = inputText.trim();
     setInputText('');
     Keyboard.dismiss();
-
-    const newUserMessage: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content: userMessage,
-    };
-
-    setMessages(prev => [...prev, newUserMessage]);
-    scrollToBottom();
     setSending(true);
 
     try {
-      const conversationHistory: ChatMessage[] = messages.map(msg => ({
-        role: msg.role,
-        content: msg.content,
-      }));
-
       if (sessionId) {
-        const result = await sendChatMessage(sessionId, userMessage, conversationHistory);
-
-        if (result.reply) {
-          const assistantMessage: Message = {
-            id: (Date.now() + 1).toString(),
-            role: 'assistant',
-            content: result.reply,
-          };
-          setMessages(prev => [...prev, assistantMessage]);
+        // Stored on the device before it is sent, so a dropped connection
+        // leaves it pending in the outbox instead of losing it.
+        const queued = await queueMessage(sessionId, userMessage);
+        setMessages(prev => [...prev, queuedToMessage(queued)]);
+        scrollToBottom();
+
+        // Partial replies stream into one assistant bubble, which the final
+        // reply then overwrites.
+        const assistantId = `${queued.clientId}:reply`;
+        const showReply = (content: string) => {
+          setStreamingId(assistantId);
+          setMessages(prev =>
+            prev.some(msg => msg.id === assistantId)
+              ? prev.map(msg => (msg.id === assistantId ? { ...msg, content } : msg))
+              : [...prev, { id: assistantId, role: 'assistant', content }]
+          );
+        };
+
+        const result = await deliverQueuedMessage(queued.clientId, (partial) => {
+          showReply(partial);
           scrollToBottom();
+        });
 
-          const updatedSession = await getSession(sessionId);
-          if (updatedSession) {
-            setSessionPhase(updatedSession.phase);
-          }
+        if (result?.reply) {
+          showReply(result.reply);
+          scrollToBottom();
+          await refreshSessionPhase(sessionId);
+        } else {
+          setMessages(prev => prev.filter(msg => msg.id !== assistantId));
         }
       } else {
+        const newUserMessage: Message = {
+          id: Date.now().toString(),
+          role: 'user',
+          content: userMessage,
+        };
         const assistantMessage: Message = {
           id: (Date.now() + 1).toString(),
           role: 'assistant',
           content: "I'd be happy to help you plan a nature experience! Tell me more about what you're looking for - how much time do you have, and what kind of activity sounds appealing?",
         };
-        setMessages(prev => [...prev, assistantMessage]);
+        setMessages(prev => [...prev, newUserMessage, assistantMessage]);
         scrollToBottom();
       }
     } catch (error) {
@@ -185,6 +316,7 @@ export default function ChatScreen() {
       setMessages(prev => [...prev, errorMessage]);
       scrollToBottom();
     } finally {
+      setStreamingId(null);
       setSending(false);
     }
   };
@@ -247,17 +379,23 @@ export default function ChatScreen() {
         .map(m => m.content)
         .join(' ');
 
-      const result = await getExcursionPlan({
+      const session = sessionId ? await getSession(sessionId) : null;
+      const { slots } = planningStateFromMetadata(session?.conversation_metadata ?? {});
+
+      const profile = await getUserProfile(user.id);
+      const { response: result, safety } = await getSafeExcursionPlan({
         userLocation: {
           lat: location.coords.latitude,
           lng: location.coords.longitude,
         },
-        durationMinutes: 30,
+        durationMinutes: slots.duration?.value ?? 30,
         preferences: {
-          activities: [],
-          therapeutic: [],
+          activities: slots.activities?.value ?? [],
+          excludedActivities: slots.excludedActivities?.value ?? [],
+          avoid: slots.avoid?.value ?? [],
+          therapeutic: slots.goals?.value ?? [],
           riskTolerance: 'medium',
-          energyLevel: 'medium',
+          energyLevel: slots.difficulty?.value ?? 'medium',
           additionalNotes: conversationContext,
           weather: weather ? {
             temp: weather.temperature,
@@ -265,6 +403,12 @@ export default function ChatScreen() {
           } : undefined,
         },
         nearbyPlaces,
+        schedule: slots.startTime?.value,
+      }, {
+        weather,
+        mobilityLevel: profile?.mobility_level,
+        fitnessLevel: profile?.fitness_level,
+        riskTolerance: profile?.risk_tolerance,
       });
 
       if (!result.ok || !result.result || !result.result.destination) {
@@ -278,6 +422,21 @@ export default function ChatScreen() {
         return;
       }
 
+      if (safety?.blocked) {
+        setCreatingExcursion(false);
+        const reasons = [
+          ...safety.issues.filter((issue) => issue.severity === 'block'),
+          ...safety.issues.filter((issue) => issue.severity === 'warning'),
+        ].map((issue) => `• ${issue.message}`);
+        const blockedMessage: Message = {
+          id: Date.now().toString(),
+          role: 'assistant',
+          content: `It isn't safe to head out for this one right now:\n\n${reasons.join('\n')}\n\nWant to try a different time or a shorter, more sheltered walk?`,
+        };
+        setMessages(prev => [...prev, blockedMessage]);
+        return;
+      }
+
       const excursionData = result.result;
       const destination = excursionData.destination!;
       const startLat = location.coords.latitude;
@@ -368,7 +527,17 @@ export default function ChatScreen() {
             {sessionPhase === 'excursion_planning' ? 'Excursion Planning' : 'Nature Guide'}
           </Text>
         </View>
-        <View style={styles.headerSpacer} />
+        {signedIn ? (
+          <TouchableOpacity
+            onPress={() => router.push('/(tabs)/chat-history')}
+            style={styles.backButton}
+            accessibilityLabel="Conversation history"
+          >
+            <History size={24} color="#2D3E1F" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
       </View>
 
       <KeyboardAvoidingView
@@ -384,24 +553,29 @@ export default function ChatScreen() {
           keyboardShouldPersistTaps="handled"
         >
           {messages.map((message) => (
-            <View
-              key={message.id}
-              style={[
-                styles.messageBubble,
-                message.role === 'user' ? styles.userBubble : styles.assistantBubble,
-              ]}
-            >
-              <Text
+            <Fragment key={message.id}>
+              <View
                 style={[
-                  styles.messageText,
-                  message.role === 'user' ? styles.userText : styles.assistantText,
+                  styles.messageBubble,
+                  message.role === 'user' ? styles.userBubble : styles.assistantBubble,
+                  message.status && styles.queuedBubble,
                 ]}
               >
-                {message.content}
-              </Text>
-            </View>
+                <Text
+                  style={[
+                    styles.messageText,
+                    message.role === 'user' ? styles.userText : styles.assistantText,
+                  ]}
+                >
+                  {message.content}
+                </Text>
+              </View>
+              {message.status && (
+                <QueuedMessageStatus status={message.status} onRetry={() => retryQueuedMessage(message.id)} />
+              )}
+            </Fragment>
           ))}
-          {sending && (
+          {sending && !streamingId && (
             <View style={[styles.messageBubble, styles.assistantBubble]}>
               <ActivityIndicator size="small" color="#4A7C2E" />
             </View>
@@ -469,6 +643,9 @@ const styles = StyleSheet.create({
   backButton: {
     padding: 4,
   },
+  headerSpacer: {
+    width: 32,
+  },
   headerContent: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -487,9 +664,6 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#2D3E1F',
   },
-  headerSpacer: {
-    width: 32,
-  },
   keyboardView: {
     flex: 1,
   },
@@ -511,6 +685,9 @@ const styles = StyleSheet.create({
     backgroundColor: '#4A7C2E',
     borderBottomRightRadius: 4,
   },
+  queuedBubble: {
+    opacity: 0.6,
+  },
   assistantBubble: {
     alignSelf: 'flex-start',
     backgroundColor: '#FFFFFF',
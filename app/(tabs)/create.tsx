@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -16,7 +16,10 @@ import * as Location from 'expo-location';
 import { ChevronDown, Check, Sun, CloudRain, Cloud, Wind, MapPin, Sparkles } from 'lucide-react-native';
 import { supabase } from '@/services/supabase';
 import { getCurrentWeather, type WeatherData } from '@/services/weather';
-import { getExcursionPlan } from '@/services/ai';
+import { getSafeExcursionPlan, type SafetyEvaluation } from '@/services/excursion-safety';
+import { SafetyNotice } from '@/components/safety-notice';
+import { getUserProfile } from '@/services/user-profile';
+import { parseIntent } from '@/services/intent-parser';
 import { searchNatureSpotsNearby } from '@/services/nature-spots';
 import { getCachedLocationData } from '@/services/location-preload';
 import { LoadingScreen } from '@/components/loading-screen';
@@ -75,6 +78,10 @@ function getSearchRadiusForDuration(durationMinutes: number): number {
 type ModalType = 'energyLevel' | 'riskTolerance' | 'duration' | 'activities' | 'therapeutic' | null;
 type LocationChoice = 'suggest' | 'custom' | null;
 
+function formatClock(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
 export default function CreateExcursionScreen() {
   const [energyLevel, setEnergyLevel] = useState('medium');
   const [riskTolerance, setRiskTolerance] = useState('medium');
@@ -88,9 +95,23 @@ export default function CreateExcursionScreen() {
   const [loadingWeather, setLoadingWeather] = useState(false);
   const [creating, setCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [safety, setSafety] = useState<SafetyEvaluation | null>(null);
   const [locationChoice, setLocationChoice] = useState<LocationChoice>(null);
   const [customLocationName, setCustomLocationName] = useState('');
 
+  const notesIntent = useMemo(() => {
+    if (!additionalNotes.trim()) return null;
+    return parseIntent(additionalNotes, {
+      location: location
+        ? { lat: location.coords.latitude, lng: location.coords.longitude }
+        : undefined,
+    });
+  }, [additionalNotes, location]);
+
+  const schedule = notesIntent?.startTime
+    ? { label: notesIntent.startTime, startAt: notesIntent.startAt, endBy: notesIntent.endBy }
+    : null;
+
   useEffect(() => {
     loadLocationAndWeather();
   }, []);
@@ -198,6 +219,7 @@ export default function CreateExcursionScreen() {
 
     setCreating(true);
     setError(null);
+    setSafety(null);
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -248,14 +270,17 @@ export default function CreateExcursionScreen() {
         }
       }
 
-      const result = await getExcursionPlan({
+      const profile = await getUserProfile(user.id);
+      const { response: result, safety: planSafety } = await getSafeExcursionPlan({
         userLocation: location ? {
           lat: location.coords.latitude,
           lng: location.coords.longitude,
         } : { lat: 0, lng: 0 },
         durationMinutes: duration,
         preferences: {
-          activities: selectedActivities,
+          activities: selectedActivities.filter((a) => !notesIntent?.excludedActivities?.includes(a)),
+          excludedActivities: notesIntent?.excludedActivities ?? [],
+          avoid: notesIntent?.avoid ?? [],
           therapeutic: selectedTherapeutic,
           riskTolerance: riskTolerance,
           energyLevel: energyLevel,
@@ -268,10 +293,26 @@ export default function CreateExcursionScreen() {
           } : undefined,
         },
         nearbyPlaces,
+        schedule: schedule ?? undefined,
+      }, {
+        weather,
+        mobilityLevel: profile?.mobility_level,
+        fitnessLevel: profile?.fitness_level,
+        riskTolerance,
       });
 
       if (!result.ok || !result.result || !result.result.destination) {
-        setError('Unable to create excursion. Please try again.');
+        setError(
+          result.error?.code === 'INVALID_PLAN'
+            ? "We couldn't put together a plan for the spots nearby. Please try again."
+            : 'Unable to create excursion. Please try again.'
+        );
+        setCreating(false);
+        return;
+      }
+
+      if (planSafety?.blocked) {
+        setSafety(planSafety);
         setCreating(false);
         return;
       }
@@ -310,7 +351,9 @@ export default function CreateExcursionScreen() {
           },
           duration_minutes: excursionData.duration_minutes || duration,
           distance_km: excursionData.distance_km,
-          difficulty: energyLevel,
+          difficulty: excursionData.difficulty || energyLevel,
+          scheduled_start_at: schedule?.startAt ?? null,
+          scheduled_end_by: schedule?.endBy ?? null,
         })
         .select('id')
         .single();
@@ -499,6 +542,8 @@ export default function CreateExcursionScreen() {
           </View>
         )}
 
+        {safety && <SafetyNotice safety={safety} style={styles.safetyNotice} />}
+
         <View style={styles.section}>
           <Text style={styles.sectionLabel}>Anything else I should know?</Text>
           <TextInput
@@ -512,6 +557,12 @@ export default function CreateExcursionScreen() {
             textAlignVertical="top"
           />
           <Text style={styles.charCount}>{additionalNotes.length}/500</Text>
+          {schedule && (
+            <Text style={styles.scheduleHint}>
+              When: {schedule.label}
+              {schedule.endBy ? ` · back by ${formatClock(schedule.endBy)}` : ''}
+            </Text>
+          )}
         </View>
       </ScrollView>
 
@@ -831,6 +882,9 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     textAlign: 'center',
   },
+  safetyNotice: {
+    marginBottom: 16,
+  },
   notesInput: {
     backgroundColor: '#FFFFFF',
     borderRadius: 12,
@@ -847,6 +901,11 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     marginTop: 4,
   },
+  scheduleHint: {
+    fontSize: 13,
+    color: '#4A7C2E',
+    marginTop: 6,
+  },
   footer: {
     padding: 20,
     paddingBottom: 32,
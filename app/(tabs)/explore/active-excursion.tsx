@@ -8,7 +8,8 @@ import { supabase } from '@/services/supabase';
 import { X, Navigation as NavigationIcon, MapPin, Clock, MessageCircle } from 'lucide-react-native';
 import MapScreen from '@/components/map-screen';
 import { LoadingScreen } from '@/components/loading-screen';
-import { createSession, type ChatSession } from '@/services/chat';
+import { createSession, getExcursionSession, saveMessage, type ChatSession } from '@/services/chat';
+import { getAssistantForPhase, transitionToExcursionGuiding, transitionToPostExcursion } from '@/services/phase-manager';
 import { EmbeddedChat } from '@/components/embedded-chat';
 import { ExcursionFeedback } from '@/components/excursion-feedback';
 
@@ -33,7 +34,7 @@ interface LocationCoords {
 }
 
 export default function ActiveExcursionScreen() {
-  const { id, title } = useLocalSearchParams<{ id: string; title: string }>();
+  const { id, title, sessionId } = useLocalSearchParams<{ id: string; title: string; sessionId?: string }>();
   const [excursion, setExcursion] = useState<Excursion | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -62,10 +63,26 @@ export default function ActiveExcursionScreen() {
   }, [id]);
 
   const initializeGuidingSession = async () => {
-    const session = await createSession('health_coach', 'excursion_guiding', id);
-    if (session) {
-      setGuidingSession(session);
+    let session = await getExcursionSession(id, sessionId || undefined);
+
+    // Doing a finished excursion again starts a new session; the last run's
+    // follow-up conversation stays as it was.
+    if (session?.phase === 'post_excursion_followup') {
+      session = await createSession(getAssistantForPhase('excursion_creation'), 'excursion_creation', id);
     }
+    if (!session) return;
+
+    // Already guiding when the screen is reopened mid-excursion.
+    if (session.phase !== 'excursion_guiding') {
+      const result = await transitionToExcursionGuiding(session.id, id);
+      if (!result.session) {
+        console.error('Error starting excursion guiding:', result.error);
+        return;
+      }
+      session = result.session;
+    }
+
+    setGuidingSession(session);
   };
 
   const loadExcursion = async () => {
@@ -183,9 +200,42 @@ export default function ActiveExcursionScreen() {
     setShowFeedback(true);
   };
 
-  const handleFeedbackComplete = () => {
+  // Hands the session to the post-excursion coach, which opens with how
+  // the excursion went.
+  const handleFeedbackComplete = async (feedback?: { rating: number; feedbackText?: string }) => {
     setShowFeedback(false);
-    router.back();
+
+    if (!guidingSession) {
+      router.back();
+      return;
+    }
+
+    const stepsTotal = excursion?.route_data?.steps?.length ?? 0;
+    const elapsedMinutes = Math.max(1, Math.round(elapsedTime / 60));
+    const result = await transitionToPostExcursion(guidingSession.id, id, {
+      elapsed_minutes: elapsedMinutes,
+      steps_completed: Math.min(currentStepIndex + 1, stepsTotal),
+      total_steps: stepsTotal,
+      ...(feedback ? { rating: feedback.rating, feedback_text: feedback.feedbackText } : {}),
+    });
+
+    if (!result.success) {
+      console.error('Error moving to post-excursion follow-up:', result.error);
+      router.back();
+      return;
+    }
+
+    const rated = feedback ? ` You gave it ${feedback.rating} out of 5.` : '';
+    await saveMessage(
+      guidingSession.id,
+      'assistant',
+      `Welcome back from ${title}! You were out for ${elapsedMinutes} minute${elapsedMinutes === 1 ? '' : 's'}.${rated} How are you feeling now compared to before you set out?`
+    );
+
+    router.replace({
+      pathname: '/(tabs)/chat',
+      params: { sessionId: guidingSession.id },
+    });
   };
 
   if (loading) {
@@ -291,7 +341,7 @@ export default function ActiveExcursionScreen() {
           {showChat && (
             <EmbeddedChat
               sessionId={guidingSession.id}
-              assistantType="health_coach"
+              assistantType={getAssistantForPhase(guidingSession.phase)}
               placeholder="Ask your guide a question..."
             />
           )}
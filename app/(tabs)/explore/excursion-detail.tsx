@@ -1,28 +1,35 @@
 import { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Platform, Linking, Alert } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Platform, Linking, Alert, ActivityIndicator, Modal } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, router } from 'expo-router';
 import { supabase } from '@/services/supabase';
-import { ArrowLeft, MapPin, Clock, Navigation as NavigationIcon, MessageCircle } from 'lucide-react-native';
+import { ArrowLeft, MapPin, Clock, Navigation as NavigationIcon, MessageCircle, History } from 'lucide-react-native';
 import { LoadingScreen } from '@/components/loading-screen';
 import MapScreen from '@/components/map-screen';
 import { EmbeddedChat } from '@/components/embedded-chat';
-import { createSession, getSession, type ChatSession } from '@/services/chat';
-
-interface Excursion {
-  id: string;
-  title: string;
-  description: string;
-  route_data: {
-    steps?: string[];
-    start_location?: { lat: number; lng: number };
-    destination?: { name: string; lat: number; lng: number };
-    waypoints?: Array<{ lat: number; lng: number; name?: string }>;
-  };
-  duration_minutes: number | null;
-  distance_km: number | null;
-  difficulty: string | null;
+import { ExcursionVersions } from '@/components/excursion-versions';
+import { SafetyNotice } from '@/components/safety-notice';
+import { getExcursionSession, type ChatSession } from '@/services/chat';
+import { getAssistantForPhase } from '@/services/phase-manager';
+import {
+  applyExcursionRevision,
+  hasChanges,
+  proposeExcursionRevision,
+  type RevisableExcursion,
+} from '@/services/excursion-revisions';
+import { evaluateExcursionSafety, safetyRevisionRequest, type SafetyEvaluation } from '@/services/excursion-safety';
+import { getCurrentWeather } from '@/services/weather';
+import { getUserProfile } from '@/services/user-profile';
+import type { ExcursionRevisionResult } from '@/types/ai';
+
+interface Excursion extends RevisableExcursion {
   created_at: string;
+  scheduled_start_at: string | null;
+}
+
+interface PendingRevision {
+  request: string;
+  revision: ExcursionRevisionResult;
 }
 
 export default function ExcursionDetailScreen() {
@@ -40,6 +47,11 @@ export default function ExcursionDetailScreen() {
   const [travelDuration, setTravelDuration] = useState<number | null>(null);
   const [chatSession, setChatSession] = useState<ChatSession | null>(null);
   const [showChat, setShowChat] = useState(false);
+  const [pendingRevision, setPendingRevision] = useState<PendingRevision | null>(null);
+  const [revising, setRevising] = useState(false);
+  const [applyingRevision, setApplyingRevision] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
+  const [safety, setSafety] = useState<SafetyEvaluation | null>(null);
 
   useEffect(() => {
     loadExcursion();
@@ -47,18 +59,10 @@ export default function ExcursionDetailScreen() {
   }, [id]);
 
   const initializeChatSession = async () => {
-    if (paramSessionId) {
-      const session = await getSession(paramSessionId);
-      if (session) {
-        setChatSession(session);
-        setShowChat(true);
-        return;
-      }
-    }
-
-    const session = await createSession('excursion_creator', 'excursion_creation', id);
+    const session = await getExcursionSession(id, paramSessionId || undefined);
     if (session) {
       setChatSession(session);
+      setShowChat(!!paramSessionId);
     }
   };
 
@@ -130,6 +134,45 @@ export default function ExcursionDetailScreen() {
     fetchTravelTime();
   }, [excursion, userLat, userLng]);
 
+  // Re-checked on every load: the weather and daylight are today's, not the
+  // ones the plan was made in.
+  useEffect(() => {
+    const checkSafety = async () => {
+      if (!excursion) return;
+
+      const location = excursion.route_data?.start_location || excursion.route_data?.waypoints?.[0];
+      if (!location?.lat || !location?.lng) return;
+
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        const [weather, profile] = await Promise.all([
+          getCurrentWeather(location.lat, location.lng),
+          user ? getUserProfile(user.id) : Promise.resolve(null),
+        ]);
+
+        const scheduledStart = excursion.scheduled_start_at ? new Date(excursion.scheduled_start_at) : null;
+        setSafety(evaluateExcursionSafety(
+          {
+            durationMinutes: excursion.duration_minutes || 30,
+            difficulty: excursion.difficulty,
+            location,
+            startAt: scheduledStart && scheduledStart > new Date() ? scheduledStart : undefined,
+          },
+          {
+            weather,
+            mobilityLevel: profile?.mobility_level,
+            fitnessLevel: profile?.fitness_level,
+            riskTolerance: profile?.risk_tolerance,
+          }
+        ));
+      } catch (err) {
+        console.error('Error checking excursion safety:', err);
+      }
+    };
+
+    checkSafety();
+  }, [excursion]);
+
   if (error || (!excursion && !loading)) {
     return (
       <SafeAreaView style={styles.container} edges={['top']}>
@@ -194,7 +237,6 @@ export default function ExcursionDetailScreen() {
   };
 
   const steps = excursion.route_data?.steps || [];
-  const previewSteps = stepsExpanded ? steps : steps.slice(0, 3);
 
   const departureChecklist = [
     'Water bottle',
@@ -207,10 +249,122 @@ export default function ExcursionDetailScreen() {
     'First aid basics',
   ];
 
-  const handleExcursionUpdate = async () => {
+  const handleExcursionUpdate = async (request: string) => {
+    setPendingRevision(null);
+    setRevising(true);
+
+    const { revision, error: reviseError } = await proposeExcursionRevision(excursion, request);
+    setRevising(false);
+
+    if (!revision) {
+      Alert.alert('Could Not Update', reviseError || 'Unable to prepare that change. Please try again.');
+      return;
+    }
+    if (!hasChanges(revision.changes)) {
+      Alert.alert('No Changes', revision.summary);
+      return;
+    }
+
+    setPendingRevision({ request, revision });
+  };
+
+  const applyPendingRevision = async () => {
+    if (!pendingRevision) return;
+
+    setApplyingRevision(true);
+    const applied = await applyExcursionRevision(
+      excursion,
+      pendingRevision.request,
+      pendingRevision.revision,
+      chatSession?.id
+    );
+    setApplyingRevision(false);
+
+    if (!applied) {
+      Alert.alert('Error', 'Unable to save the changes. Please try again.');
+      return;
+    }
+
+    setPendingRevision(null);
     await loadExcursion();
   };
 
+  const renderRevisionPreview = () => {
+    if (revising) {
+      return (
+        <View style={styles.revisionCard}>
+          <ActivityIndicator size="small" color="#4A7C2E" />
+          <Text style={styles.revisionHint}>Preparing your changes...</Text>
+        </View>
+      );
+    }
+    if (!pendingRevision) return null;
+
+    const { summary, changes } = pendingRevision.revision;
+    const rows: Array<{ label: string; from: string; to: string }> = [];
+
+    if (changes.duration_minutes) {
+      rows.push({
+        label: 'Duration',
+        from: excursion.duration_minutes ? `${excursion.duration_minutes} min` : '—',
+        to: `${changes.duration_minutes} min`,
+      });
+    }
+    if (changes.difficulty) {
+      rows.push({ label: 'Difficulty', from: excursion.difficulty || '—', to: changes.difficulty });
+    }
+    if (changes.destination) {
+      rows.push({ label: 'Destination', from: destination?.name || '—', to: changes.destination.name });
+    }
+
+    return (
+      <View style={styles.revisionCard}>
+        <Text style={styles.cardTitle}>Proposed Changes</Text>
+        <Text style={styles.revisionSummary}>{summary}</Text>
+
+        {rows.map((row) => (
+          <View key={row.label} style={styles.revisionRow}>
+            <Text style={styles.revisionLabel}>{row.label}</Text>
+            <Text style={styles.revisionFrom}>{row.from}</Text>
+            <Text style={styles.revisionTo}>{row.to}</Text>
+          </View>
+        ))}
+
+        {changes.steps && (
+          <View style={styles.revisionSteps}>
+            <Text style={styles.revisionLabel}>New activities</Text>
+            {changes.steps.map((step, index) => (
+              <Text key={index} style={styles.revisionStepText}>
+                {index + 1}. {step}
+              </Text>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.revisionActions}>
+          <TouchableOpacity
+            style={styles.revisionDiscardButton}
+            onPress={() => setPendingRevision(null)}
+            disabled={applyingRevision}
+          >
+            <Text style={styles.revisionDiscardText}>Discard</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.revisionApplyButton}
+            onPress={applyPendingRevision}
+            disabled={applyingRevision}
+          >
+            {applyingRevision ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.revisionApplyText}>Apply Changes</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
   const openDirections = async () => {
     const targetLocation = destinationPoint || excursionLocation;
     if (!targetLocation) {
@@ -251,6 +405,9 @@ export default function ExcursionDetailScreen() {
         <Text style={styles.headerTitle} numberOfLines={1}>
           {cleanTitle(excursion.title)}
         </Text>
+        <TouchableOpacity onPress={() => setShowVersions(true)} style={styles.versionsButton}>
+          <History size={22} color="#4A7C2E" />
+        </TouchableOpacity>
       </View>
 
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
@@ -289,7 +446,7 @@ export default function ExcursionDetailScreen() {
                 {showChat && (
                   <EmbeddedChat
                     sessionId={chatSession.id}
-                    assistantType="excursion_creator"
+                    assistantType={getAssistantForPhase(chatSession.phase)}
                     placeholder="Ask questions or request changes..."
                     onExcursionUpdate={handleExcursionUpdate}
                   />
@@ -297,6 +454,17 @@ export default function ExcursionDetailScreen() {
               </View>
             )}
 
+            {safety && (
+              <SafetyNotice
+                safety={safety}
+                onAdjust={() => handleExcursionUpdate(safetyRevisionRequest(safety))}
+                adjustDisabled={revising || applyingRevision}
+                style={styles.safetyNotice}
+              />
+            )}
+
+            {renderRevisionPreview()}
+
             <TouchableOpacity style={styles.directionsButton} onPress={openDirections}>
               <NavigationIcon size={20} color="#FFFFFF" />
               <Text style={styles.directionsButtonText}>Get Directions</Text>
@@ -398,12 +566,14 @@ export default function ExcursionDetailScreen() {
         </View>
 
         <TouchableOpacity
-          style={styles.startButton}
+          style={[styles.startButton, safety?.blocked && styles.startButtonDisabled]}
+          disabled={safety?.blocked}
           onPress={() => router.push({
             pathname: '/(tabs)/explore/active-excursion',
             params: {
               id: excursion.id,
               title: cleanTitle(excursion.title),
+              sessionId: chatSession?.id ?? '',
             },
           })}
         >
@@ -417,6 +587,19 @@ export default function ExcursionDetailScreen() {
           <Text style={styles.secondaryButtonText}>View All Excursions</Text>
         </TouchableOpacity>
       </ScrollView>
+
+      <Modal visible={showVersions} animationType="slide" onRequestClose={() => setShowVersions(false)}>
+        <ExcursionVersions
+          excursion={excursion}
+          sessionId={chatSession?.id}
+          onClose={() => setShowVersions(false)}
+          onReverted={() => {
+            setShowVersions(false);
+            setPendingRevision(null);
+            loadExcursion();
+          }}
+        />
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -439,6 +622,10 @@ const styles = StyleSheet.create({
     padding: 8,
     marginRight: 8,
   },
+  versionsButton: {
+    padding: 8,
+    marginLeft: 8,
+  },
   headerTitle: {
     fontSize: 18,
     fontWeight: '700',
@@ -616,6 +803,9 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
+  startButtonDisabled: {
+    opacity: 0.6,
+  },
   startButtonText: {
     fontSize: 16,
     fontWeight: '700',
@@ -728,4 +918,93 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#4A7C2E',
   },
+  safetyNotice: {
+    marginHorizontal: 20,
+    marginTop: 16,
+  },
+  revisionCard: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 20,
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#7FA957',
+    gap: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  revisionHint: {
+    fontSize: 14,
+    color: '#5A6C4A',
+    textAlign: 'center',
+  },
+  revisionSummary: {
+    fontSize: 14,
+    color: '#5A6C4A',
+    lineHeight: 20,
+  },
+  revisionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  revisionLabel: {
+    width: 90,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2D3E1F',
+  },
+  revisionFrom: {
+    fontSize: 13,
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  revisionTo: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4A7C2E',
+  },
+  revisionSteps: {
+    gap: 4,
+  },
+  revisionStepText: {
+    fontSize: 13,
+    color: '#5A6C4A',
+    lineHeight: 18,
+  },
+  revisionActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  revisionDiscardButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#4A7C2E',
+    alignItems: 'center',
+  },
+  revisionDiscardText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#4A7C2E',
+  },
+  revisionApplyButton: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: '#4A7C2E',
+    alignItems: 'center',
+  },
+  revisionApplyText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
 });
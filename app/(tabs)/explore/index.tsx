@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { Fragment, useState, useEffect, useRef, useCallback } from 'react';
 import {
   View,
   Text,
@@ -18,8 +18,18 @@ import { supabase } from '@/services/supabase';
 import { getCurrentWeather, type WeatherData } from '@/services/weather';
 import { LoadingScreen } from '@/components/loading-screen';
 import MinimalWeather from '@/components/minimal-weather';
-import { getOrCreateSession, getSessionMessages, sendMessage, type StoredMessage } from '@/services/chat';
-import type { ChatMessage } from '@/types/ai';
+import { getOrCreateSession, getSessionMessages, type StoredMessage } from '@/services/chat';
+import {
+  deliverQueuedMessage,
+  getQueuedMessages,
+  queueMessage,
+  retryQueuedMessage,
+  subscribeToOutbox,
+  type OutboxMessage,
+  type OutboxStatus,
+} from '@/services/chat-outbox';
+import { localMessageId, mergeStoredMessage, subscribeToSession, syncCursor } from '@/services/chat-realtime';
+import { QueuedMessageStatus } from '@/components/queued-message-status';
 
 interface Excursion {
   id: string;
@@ -35,6 +45,20 @@ interface Excursion {
   };
 }
 
+function toLocalMessage(message: StoredMessage): StoredMessage {
+  return { ...message, id: localMessageId(message) };
+}
+
+function queuedToStoredMessage(queued: OutboxMessage): StoredMessage {
+  return {
+    id: queued.clientId,
+    session_id: queued.sessionId,
+    role: 'user',
+    content: queued.content,
+    created_at: queued.createdAt,
+  };
+}
+
 export default function ExploreScreen() {
   const [excursions, setExcursions] = useState<Excursion[]>([]);
   const [loading, setLoading] = useState(true);
@@ -44,8 +68,12 @@ export default function ExploreScreen() {
   const [weatherLoading, setWeatherLoading] = useState(true);
   const [chatMessages, setChatMessages] = useState<StoredMessage[]>([]);
   const [sessionId, setSessionId] = useState<string | null>(null);
+  // Where live sync catches up from; set with the session.
+  const [syncFrom, setSyncFrom] = useState<string | null>(null);
   const [inputText, setInputText] = useState('');
   const [sendingMessage, setSendingMessage] = useState(false);
+  // Outbox state of the user's messages not yet sent, by `clientId`.
+  const [outboxStatuses, setOutboxStatuses] = useState<Record<string, OutboxStatus>>({});
   const chatScrollRef = useRef<ScrollView>(null);
 
   useEffect(() => {
@@ -64,6 +92,57 @@ export default function ExploreScreen() {
     initialize();
   }, []);
 
+  /** Adds an assistant reply under the queued message it answers. */
+  const showReply = useCallback((clientId: string, reply: string) => {
+    const assistantMessage: StoredMessage = {
+      id: `${clientId}:reply`,
+      session_id: sessionId ?? '',
+      role: 'assistant',
+      content: reply,
+      created_at: new Date().toISOString(),
+    };
+
+    setChatMessages((prev) => {
+      if (prev.some((msg) => msg.id === assistantMessage.id)) return prev;
+      const index = prev.findIndex((msg) => msg.id === clientId);
+      return index === -1
+        ? [...prev, assistantMessage]
+        : [...prev.slice(0, index + 1), assistantMessage, ...prev.slice(index + 1)];
+    });
+
+    setTimeout(() => {
+      chatScrollRef.current?.scrollToEnd({ animated: true });
+    }, 100);
+  }, [sessionId]);
+
+  // Keeps queued bubbles in step with the outbox, and shows replies that
+  // arrive when a queued message is retried in the background.
+  useEffect(() => {
+    if (!sessionId) return;
+
+    return subscribeToOutbox((event) => {
+      if (event.type === 'changed') {
+        setOutboxStatuses(Object.fromEntries(event.messages.map((message) => [message.clientId, message.status])));
+      } else if (event.message.sessionId === sessionId) {
+        showReply(event.message.clientId, event.result.reply);
+      }
+    });
+  }, [sessionId, showReply]);
+
+  // Shows messages sent to this session from the user's other devices.
+  useEffect(() => {
+    if (!sessionId || !syncFrom) return;
+
+    return subscribeToSession(sessionId, syncFrom, {
+      onMessage: (message) => {
+        setChatMessages((prev) => mergeStoredMessage(prev, message, toLocalMessage));
+        setTimeout(() => {
+          chatScrollRef.current?.scrollToEnd({ animated: true });
+        }, 100);
+      },
+    });
+  }, [sessionId, syncFrom]);
+
   const loadWeather = async () => {
     try {
       const { status } = await Location.requestForegroundPermissionsAsync();
@@ -99,9 +178,19 @@ export default function ExploreScreen() {
 
       const session = await getOrCreateSession('excursion_creator');
       if (session) {
+        const stored = await getSessionMessages(session.id);
+        const messages = stored.map(toLocalMessage);
+        // Messages from an earlier visit that haven't reached the server yet,
+        // or are stored but still waiting on their reply.
+        const queued = await getQueuedMessages(session.id);
+        const queuedIds = new Set(queued.map((message) => message.clientId));
         setSessionId(session.id);
-        const messages = await getSessionMessages(session.id);
-        setChatMessages(messages);
+        setSyncFrom(syncCursor(stored[stored.length - 1]));
+        setOutboxStatuses(Object.fromEntries(queued.map((message) => [message.clientId, message.status])));
+        setChatMessages([
+          ...messages.filter((message) => !queuedIds.has(message.id)),
+          ...queued.map(queuedToStoredMessage),
+        ]);
       }
     } catch (error) {
       console.error('Error initializing chat:', error);
@@ -155,50 +244,25 @@ export default function ExploreScreen() {
     setSendingMessage(true);
     setError(null);
 
-    const userMessage: StoredMessage = {
-      id: Date.now().toString(),
-      session_id: sessionId,
-      role: 'user',
-      content: userMessageText,
-      created_at: new Date().toISOString(),
-    };
+    try {
+      // Stored on the device before it is sent, so a dropped connection
+      // leaves it pending in the outbox instead of losing it.
+      const queued = await queueMessage(sessionId, userMessageText, 'excursion_creator');
+      setOutboxStatuses((prev) => ({ ...prev, [queued.clientId]: queued.status }));
+      setChatMessages((prev) => [...prev, queuedToStoredMessage(queued)]);
 
-    setChatMessages((prev) => [...prev, userMessage]);
+      setTimeout(() => {
+        chatScrollRef.current?.scrollToEnd({ animated: true });
+      }, 100);
 
-    setTimeout(() => {
-      chatScrollRef.current?.scrollToEnd({ animated: true });
-    }, 100);
-
-    try {
-      const conversationHistory: ChatMessage[] = chatMessages.map((msg) => ({
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content,
-      }));
-
-      const result = await sendMessage(sessionId, userMessageText, conversationHistory, 'excursion_creator');
-
-      if (result.error) {
-        setError(result.error);
-        setChatMessages((prev) => prev.filter((msg) => msg.id !== userMessage.id));
-      } else if (result.reply) {
-        const assistantMessage: StoredMessage = {
-          id: (Date.now() + 1).toString(),
-          session_id: sessionId,
-          role: 'assistant',
-          content: result.reply,
-          created_at: new Date().toISOString(),
-        };
-
-        setChatMessages((prev) => [...prev, assistantMessage]);
+      const result = await deliverQueuedMessage(queued.clientId);
 
-        setTimeout(() => {
-          chatScrollRef.current?.scrollToEnd({ animated: true });
-        }, 100);
+      if (result?.reply) {
+        showReply(queued.clientId, result.reply);
       }
     } catch (error) {
       console.error('Error sending message:', error);
       setError('Failed to send message. Please try again.');
-      setChatMessages((prev) => prev.filter((msg) => msg.id !== userMessage.id));
     } finally {
       setSendingMessage(false);
     }
@@ -243,22 +307,30 @@ export default function ExploreScreen() {
                     </Text>
                   ) : (
                     chatMessages.map((message) => (
-                      <View
-                        key={message.id}
-                        style={[
-                          styles.messageContainer,
-                          message.role === 'user' ? styles.userMessage : styles.assistantMessage,
-                        ]}
-                      >
-                        <Text
+                      <Fragment key={message.id}>
+                        <View
                           style={[
-                            styles.messageText,
-                            message.role === 'user' ? styles.userMessageText : styles.assistantMessageText,
+                            styles.messageContainer,
+                            message.role === 'user' ? styles.userMessage : styles.assistantMessage,
+                            outboxStatuses[message.id] && styles.queuedMessage,
                           ]}
                         >
-                          {message.content}
-                        </Text>
-                      </View>
+                          <Text
+                            style={[
+                              styles.messageText,
+                              message.role === 'user' ? styles.userMessageText : styles.assistantMessageText,
+                            ]}
+                          >
+                            {message.content}
+                          </Text>
+                        </View>
+                        {outboxStatuses[message.id] && (
+                          <QueuedMessageStatus
+                            status={outboxStatuses[message.id]}
+                            onRetry={() => retryQueuedMessage(message.id)}
+                          />
+                        )}
+                      </Fragment>
                     ))
                   )}
                   {sendingMessage && (
@@ -449,6 +521,9 @@ const styles = StyleSheet.create({
     borderBottomRightRadius: 4,
     padding: 12,
   },
+  queuedMessage: {
+    opacity: 0.6,
+  },
   assistantMessage: {
     alignSelf: 'flex-start',
     backgroundColor: '#F5F8F3',
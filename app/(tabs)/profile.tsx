@@ -2,9 +2,9 @@ import { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, ActivityIndicator, Switch, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
-import { User, LogOut, Fingerprint, Heart, Activity } from 'lucide-react-native';
+import { User, LogOut, Fingerprint, Heart, Activity, Trash2 } from 'lucide-react-native';
 import { getCurrentUser, signOut } from '@/services/auth';
-import { getUserProfile, updateUserProfile } from '@/services/user-profile';
+import { getUserProfile, getProfileLocale, updateUserProfile } from '@/services/user-profile';
 import {
   getBiometricCapabilities,
   isBiometricEnabled,
@@ -19,6 +19,7 @@ import {
   syncHealthMetricsToDatabase,
   getRecentHealthSummary,
 } from '@/services/apple-health';
+import { getUserMemories, deleteUserMemory, type UserMemory } from '@/services/user-memories';
 import { LoadingScreen } from '@/components/loading-screen';
 
 const HEALTH_GOALS = [
@@ -36,6 +37,13 @@ const FITNESS_LEVELS = ['Beginner', 'Intermediate', 'Advanced'];
 const MOBILITY_LEVELS = ['Wheelchair', 'Limited', 'Moderate', 'Full'];
 const RISK_TOLERANCE_OPTIONS = ['Low', 'Medium', 'High'];
 
+const LANGUAGE_OPTIONS: Array<{ value: string | null; label: string }> = [
+  { value: null, label: 'Device' },
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Español' },
+  { value: 'fr', label: 'Français' },
+];
+
 const ACTIVITY_PREFERENCES = [
   'Walking',
   'Hiking',
@@ -65,6 +73,8 @@ export default function ProfileScreen() {
   const [fitnessLevel, setFitnessLevel] = useState<string | null>(null);
   const [mobilityLevel, setMobilityLevel] = useState<string | null>(null);
   const [riskTolerance, setRiskTolerance] = useState<string | null>(null);
+  const [language, setLanguage] = useState<string | null>(null);
+  const [profilePreferences, setProfilePreferences] = useState<Record<string, unknown>>({});
   const [selectedGoals, setSelectedGoals] = useState<string[]>([]);
   const [selectedActivities, setSelectedActivities] = useState<string[]>([]);
   const [selectedTherapies, setSelectedTherapies] = useState<string[]>([]);
@@ -81,6 +91,8 @@ export default function ProfileScreen() {
   const [syncingHealth, setSyncingHealth] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [togglingHealth, setTogglingHealth] = useState(false);
+  const [memories, setMemories] = useState<UserMemory[]>([]);
+  const [deletingMemoryId, setDeletingMemoryId] = useState<string | null>(null);
 
   useEffect(() => {
     loadProfile();
@@ -107,6 +119,8 @@ export default function ProfileScreen() {
         setFitnessLevel(profile.fitness_level || null);
         setMobilityLevel(profile.mobility_level || null);
         setRiskTolerance(profile.risk_tolerance ? profile.risk_tolerance.charAt(0).toUpperCase() + profile.risk_tolerance.slice(1) : null);
+        setLanguage(getProfileLocale(profile) ?? null);
+        setProfilePreferences(profile.preferences || {});
         setSelectedGoals(profile.health_goals || []);
         setSelectedActivities(profile.activity_preferences || []);
         setSelectedTherapies(profile.therapy_preferences || []);
@@ -118,6 +132,8 @@ export default function ProfileScreen() {
           loadHealthSummary(user.id);
         }
       }
+
+      loadMemories(user.id);
     } catch (err) {
       setError('Failed to load profile');
     } finally {
@@ -130,6 +146,24 @@ export default function ProfileScreen() {
     setHealthSummary(summary);
   };
 
+  const loadMemories = async (userId: string) => {
+    const stored = await getUserMemories(userId);
+    setMemories(stored);
+  };
+
+  const handleDeleteMemory = async (memoryId: string) => {
+    setError(null);
+    setDeletingMemoryId(memoryId);
+
+    if (await deleteUserMemory(memoryId)) {
+      setMemories((prev) => prev.filter((memory) => memory.id !== memoryId));
+    } else {
+      setError('Failed to forget that. Please try again.');
+    }
+
+    setDeletingMemoryId(null);
+  };
+
   const checkBiometricAvailability = async () => {
     const capabilities = await getBiometricCapabilities();
     setBiometricCapabilities(capabilities);
@@ -289,6 +323,7 @@ export default function ProfileScreen() {
       health_goals: selectedGoals.length > 0 ? selectedGoals : undefined,
       activity_preferences: selectedActivities.length > 0 ? selectedActivities : undefined,
       therapy_preferences: selectedTherapies.length > 0 ? selectedTherapies : undefined,
+      preferences: { ...profilePreferences, locale: language },
     });
 
     if (!updatedProfile) {
@@ -369,6 +404,24 @@ export default function ProfileScreen() {
               placeholderTextColor="#9CA3AF"
               keyboardType="number-pad"
             />
+
+            <Text style={[styles.inputLabel, { marginTop: 16 }]}>Chat Language</Text>
+            <View style={styles.optionsRow}>
+              {LANGUAGE_OPTIONS.map((option) => {
+                const isSelected = language === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.label}
+                    style={[styles.optionButton, isSelected && styles.optionButtonSelected]}
+                    onPress={() => setLanguage(option.value)}
+                  >
+                    <Text style={[styles.optionButtonText, isSelected && styles.optionButtonTextSelected]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
           </View>
         </View>
 
@@ -580,6 +633,33 @@ export default function ProfileScreen() {
           </View>
         )}
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>What NatureUP Remembers</Text>
+          <Text style={styles.sectionDescription}>
+            Things you&apos;ve mentioned in conversations that help personalize suggestions. Remove anything you&apos;d rather it forgot.
+          </Text>
+
+          {memories.length === 0 ? (
+            <Text style={styles.memoryEmptyText}>Nothing yet.</Text>
+          ) : (
+            memories.map((memory) => (
+              <View key={memory.id} style={styles.settingRow}>
+                <Text style={styles.settingLabel}>{memory.fact}</Text>
+                {deletingMemoryId === memory.id ? (
+                  <ActivityIndicator size="small" color="#DC2626" />
+                ) : (
+                  <TouchableOpacity
+                    onPress={() => handleDeleteMemory(memory.id)}
+                    disabled={deletingMemoryId !== null}
+                  >
+                    <Trash2 size={18} color="#DC2626" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))
+          )}
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Security</Text>
 
@@ -821,6 +901,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#2D3E1F',
   },
+  memoryEmptyText: {
+    fontSize: 14,
+    color: '#999',
+  },
   saveButton: {
     backgroundColor: '#4A7C2E',
     marginHorizontal: 20,
@@ -13,8 +13,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, router } from 'expo-router';
 import { Send, X, ArrowRight } from 'lucide-react-native';
-import { createSession, getSessionMessages, sendMessage, saveMessage, updateSessionMetadata, type StoredMessage } from '@/services/chat';
-import type { ChatMessage } from '@/types/ai';
+import { createSession, getSessionMessages, sendMessage, saveMessage, type StoredMessage } from '@/services/chat';
 import type { ParsedIntent } from '@/types/intent';
 
 export default function ConversationScreen() {
@@ -23,6 +22,7 @@ export default function ConversationScreen() {
   const [messages, setMessages] = useState<StoredMessage[]>([]);
   const [inputText, setInputText] = useState('');
   const [sending, setSending] = useState(false);
+  const [streamingReply, setStreamingReply] = useState('');
   const [loading, setLoading] = useState(true);
   const scrollViewRef = useRef<ScrollView>(null);
   const [parsedIntent, setParsedIntent] = useState<ParsedIntent | null>(null);
@@ -33,43 +33,6 @@ export default function ConversationScreen() {
     initializeConversation();
   }, []);
 
-  const extractInfoFromMessage = (message: string): { duration?: number; location?: string } => {
-    const extracted: { duration?: number; location?: string } = {};
-
-    const durationPatterns = [
-      /(\d+)\s*(hour|hr|hours|hrs)/i,
-      /(\d+)\s*(minute|min|minutes|mins)/i,
-      /(\d+)\s*h/i,
-      /(\d+)\s*m(?:in)?/i,
-    ];
-
-    for (const pattern of durationPatterns) {
-      const match = message.match(pattern);
-      if (match) {
-        const value = parseInt(match[1], 10);
-        const unit = match[2]?.toLowerCase() || match[0].toLowerCase();
-
-        if (unit.includes('h')) {
-          extracted.duration = value * 60;
-        } else {
-          extracted.duration = value;
-        }
-        break;
-      }
-    }
-
-    const locationKeywords = ['surprise', 'choose', 'options', 'suggest', 'pick', 'recommend'];
-    const hasLocationIntent = locationKeywords.some(keyword =>
-      message.toLowerCase().includes(keyword)
-    );
-
-    if (hasLocationIntent) {
-      extracted.location = 'ai_suggestions';
-    }
-
-    return extracted;
-  };
-
   const initializeConversation = async () => {
     try {
       const session = await createSession('excursion_creator', 'initial_chat');
@@ -86,20 +49,9 @@ export default function ConversationScreen() {
         const intent = JSON.parse(params.intentData as string) as ParsedIntent;
         setParsedIntent(intent);
 
-        const initialMetadata: Record<string, unknown> = {};
-        if (intent.durationMinutes) {
-          initialMetadata.duration_minutes = intent.durationMinutes;
-          initialMetadata.detected_duration = intent.durationMinutes;
-        }
-        if (intent.activities && intent.activities.length > 0) {
-          initialMetadata.activities_mentioned = intent.activities;
-        }
-        if (intent.therapeuticGoals && intent.therapeuticGoals.length > 0) {
-          initialMetadata.therapeutic_goals_mentioned = intent.therapeuticGoals;
-        }
-
-        await updateSessionMetadata(session.id, initialMetadata);
-        await sendInitialMessage(session.id, intent.rawText, intent);
+        // sendMessage parses the text again through the shared intent
+        // service, which is what writes the planning metadata.
+        await sendInitialMessage(session.id, intent.rawText);
       } else {
         await sendAIGreeting(session.id);
       }
@@ -125,46 +77,13 @@ export default function ConversationScreen() {
     setSending(false);
   };
 
-  const sendInitialMessage = async (sessionId: string, message: string, intent?: ParsedIntent) => {
+  const sendInitialMessage = async (sessionId: string, message: string) => {
     setSending(true);
 
     const greetingMessage = "Hi there! I'm here to help you create a personalized nature excursion.";
     await saveMessage(sessionId, 'assistant', greetingMessage);
 
-    const extractedInfo = extractInfoFromMessage(message);
-    const metadataUpdates: Record<string, unknown> = {};
-
-    if (extractedInfo.duration && !intent?.durationMinutes) {
-      metadataUpdates.duration_minutes = extractedInfo.duration;
-    }
-    if (extractedInfo.location) {
-      metadataUpdates.location_preference = extractedInfo.location;
-    }
-
-    if (Object.keys(metadataUpdates).length > 0) {
-      await updateSessionMetadata(sessionId, metadataUpdates);
-    }
-
-    const conversationHistory: ChatMessage[] = [
-      {
-        role: 'assistant',
-        content: greetingMessage,
-      },
-      {
-        role: 'user',
-        content: message,
-      },
-    ];
-
-    const contextMetadata = intent ? {
-      detected_duration: intent.durationMinutes,
-      detected_activities: intent.activities,
-      detected_proximity: intent.proximityBias,
-      detected_difficulty: intent.difficulty,
-      detected_therapeutic_goals: intent.therapeuticGoals,
-    } : undefined;
-
-    const result = await sendMessage(sessionId, message, conversationHistory, 'excursion_creator', undefined, contextMetadata);
+    const result = await sendMessage(sessionId, message, 'excursion_creator');
 
     if (result.error) {
       console.error('Error sending message:', result.error);
@@ -188,34 +107,25 @@ export default function ConversationScreen() {
     setInputText('');
     setSending(true);
 
-    const extractedInfo = extractInfoFromMessage(userMessage);
-    const metadataUpdates: Record<string, unknown> = {};
-
-    if (extractedInfo.duration) {
-      metadataUpdates.duration_minutes = extractedInfo.duration;
-    }
-    if (extractedInfo.location) {
-      metadataUpdates.location_preference = extractedInfo.location;
-    }
-
-    if (Object.keys(metadataUpdates).length > 0) {
-      await updateSessionMetadata(sessionId, metadataUpdates);
-    }
-
-    const conversationHistory: ChatMessage[] = messages.map((msg) => ({
-      role: msg.role,
-      content: msg.content,
-    }));
-
-    conversationHistory.push({
-      role: 'user',
-      content: userMessage,
-    });
+    // Show the message right away; the reload below replaces it with the
+    // stored row.
+    setMessages((prev) => [
+      ...prev,
+      {
+        id: `pending-${Date.now()}`,
+        session_id: sessionId,
+        role: 'user',
+        content: userMessage,
+        created_at: new Date().toISOString(),
+      },
+    ]);
+    scrollToBottom();
 
-    const result = await sendMessage(sessionId, userMessage, conversationHistory, 'excursion_creator');
+    const result = await sendMessage(sessionId, userMessage, 'excursion_creator', setStreamingReply);
 
     if (result.error) {
       console.error('Error sending message:', result.error);
+      setMessages((prev) => prev.filter((msg) => !msg.id.startsWith('pending-')));
       setInputText(userMessage);
     } else {
       const updatedMessages = await getSessionMessages(sessionId);
@@ -227,6 +137,7 @@ export default function ConversationScreen() {
       }
     }
 
+    setStreamingReply('');
     setSending(false);
   };
 
@@ -331,7 +242,11 @@ export default function ConversationScreen() {
 
           {sending && (
             <View style={[styles.messageBubble, styles.assistantBubble]}>
-              <ActivityIndicator size="small" color="#5A6C4A" />
+              {streamingReply ? (
+                <Text style={[styles.messageText, styles.assistantText]}>{streamingReply}</Text>
+              ) : (
+                <ActivityIndicator size="small" color="#5A6C4A" />
+              )}
             </View>
           )}
         </ScrollView>
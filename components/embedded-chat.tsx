@@ -2,13 +2,14 @@ import { useState, useRef, useEffect } from 'react';
 import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView, ActivityIndicator, KeyboardAvoidingView, Platform } from 'react-native';
 import { Send } from 'lucide-react-native';
 import { getSessionMessages, sendMessage, type StoredMessage } from '@/services/chat';
-import type { ChatMessage } from '@/types/ai';
+import { mergeStoredMessage, subscribeToSession, syncCursor } from '@/services/chat-realtime';
 
 interface EmbeddedChatProps {
   sessionId: string;
   assistantType: 'health_coach' | 'excursion_creator';
   placeholder?: string;
-  onExcursionUpdate?: () => void;
+  /** Called with the change the user asked for when they ask to modify the excursion. */
+  onExcursionUpdate?: (request: string) => void;
 }
 
 export function EmbeddedChat({
@@ -20,17 +21,36 @@ export function EmbeddedChat({
   const [messages, setMessages] = useState<StoredMessage[]>([]);
   const [inputText, setInputText] = useState('');
   const [sending, setSending] = useState(false);
+  const [streamingReply, setStreamingReply] = useState('');
   const [loading, setLoading] = useState(true);
+  // Where live sync catches up from; set once the messages have loaded.
+  const [syncFrom, setSyncFrom] = useState<string | null>(null);
   const scrollViewRef = useRef<ScrollView>(null);
+  const sendingRef = useRef(false);
 
   useEffect(() => {
     loadMessages();
   }, [sessionId]);
 
+  // Shows messages sent to this session from the user's other devices. This
+  // device's own turn is left to the reload after its send.
+  useEffect(() => {
+    if (!syncFrom) return;
+
+    return subscribeToSession(sessionId, syncFrom, {
+      onMessage: (message) => {
+        if (sendingRef.current) return;
+        setMessages((prev) => mergeStoredMessage(prev, message, (stored) => stored));
+        scrollToBottom();
+      },
+    });
+  }, [sessionId, syncFrom]);
+
   const loadMessages = async () => {
     try {
       const sessionMessages = await getSessionMessages(sessionId);
       setMessages(sessionMessages);
+      setSyncFrom(syncCursor(sessionMessages[sessionMessages.length - 1]));
       setLoading(false);
       scrollToBottom();
     } catch (error) {
@@ -51,33 +71,41 @@ export function EmbeddedChat({
     const userMessage = inputText.trim();
     setInputText('');
     setSending(true);
+    sendingRef.current = true;
 
-    const conversationHistory: ChatMessage[] = messages.map((msg) => ({
-      role: msg.role,
-      content: msg.content,
-    }));
-
-    conversationHistory.push({
-      role: 'user',
-      content: userMessage,
-    });
+    // Show the message right away; the reload below replaces it with the
+    // stored row.
+    setMessages((prev) => [
+      ...prev,
+      {
+        id: `pending-${Date.now()}`,
+        session_id: sessionId,
+        role: 'user',
+        content: userMessage,
+        created_at: new Date().toISOString(),
+      },
+    ]);
+    scrollToBottom();
 
-    const result = await sendMessage(sessionId, userMessage, conversationHistory, assistantType);
+    const result = await sendMessage(sessionId, userMessage, assistantType, setStreamingReply);
 
     if (result.error) {
       console.error('Error sending message:', result.error);
+      setMessages((prev) => prev.filter((msg) => !msg.id.startsWith('pending-')));
       setInputText(userMessage);
     } else {
       const updatedMessages = await getSessionMessages(sessionId);
       setMessages(updatedMessages);
       scrollToBottom();
 
-      if (onExcursionUpdate) {
-        onExcursionUpdate();
+      if (result.excursionUpdate && onExcursionUpdate) {
+        onExcursionUpdate(result.excursionUpdate);
       }
     }
 
+    setStreamingReply('');
     setSending(false);
+    sendingRef.current = false;
   };
 
   if (loading) {
@@ -121,7 +149,11 @@ export function EmbeddedChat({
           ))}
           {sending && (
             <View style={[styles.messageBubble, styles.assistantBubble]}>
-              <ActivityIndicator size="small" color="#4A7C2E" />
+              {streamingReply ? (
+                <Text style={[styles.messageText, styles.assistantText]}>{streamingReply}</Text>
+              ) : (
+                <ActivityIndicator size="small" color="#4A7C2E" />
+              )}
             </View>
           )}
         </ScrollView>
@@ -13,7 +13,8 @@ interface ExcursionFeedbackProps {
   durationMinutes: number;
   distanceKm?: number;
   activityType?: string;
-  onComplete: () => void;
+  /** Called with what the user submitted, or nothing when they skipped. */
+  onComplete: (feedback?: { rating: number; feedbackText?: string }) => void;
 }
 
 export function ExcursionFeedback({
@@ -75,7 +76,7 @@ export function ExcursionFeedback({
 
       await syncToAppleHealth(completedAt);
 
-      onComplete();
+      onComplete({ rating, feedbackText: feedback.trim() || undefined });
     } catch (err) {
       console.error('Error submitting feedback:', err);
       setError('An unexpected error occurred');
@@ -0,0 +1,281 @@
+import { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { X, RotateCcw } from 'lucide-react-native';
+import {
+  diffSnapshots,
+  getExcursionRevisions,
+  revertToRevision,
+  type ExcursionRevision,
+  type RevisableExcursion,
+} from '@/services/excursion-revisions';
+
+interface ExcursionVersionsProps {
+  excursion: RevisableExcursion;
+  sessionId?: string;
+  onClose: () => void;
+  onReverted: () => void;
+}
+
+export function ExcursionVersions({ excursion, sessionId, onClose, onReverted }: ExcursionVersionsProps) {
+  const [revisions, setRevisions] = useState<ExcursionRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [reverting, setReverting] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    const history = await getExcursionRevisions(excursion.id);
+    setRevisions(history);
+    setLoading(false);
+  }, [excursion.id]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const handleRevert = (revision: ExcursionRevision) => {
+    Alert.alert(
+      `Restore Version ${revision.revision_number}?`,
+      'The current version stays in your history, so you can switch back at any time.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: async () => {
+            setReverting(true);
+            const reverted = await revertToRevision(excursion, revision, sessionId);
+            setReverting(false);
+
+            if (!reverted) {
+              Alert.alert('Error', 'Unable to restore this version. Please try again.');
+              return;
+            }
+            onReverted();
+          },
+        },
+      ]
+    );
+  };
+
+  const latest = revisions[revisions.length - 1];
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Versions</Text>
+        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+          <X size={24} color="#2D3E1F" />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#4A7C2E" />
+        </View>
+      ) : revisions.length === 0 ? (
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>
+            No changes yet. Each time you refine this excursion, the version before and after is saved here.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.listContent}>
+          {[...revisions].reverse().map((revision) => {
+            const isCurrent = revision.id === latest?.id;
+            const previous = revisions.find((r) => r.revision_number === revision.revision_number - 1);
+            const changes = previous ? diffSnapshots(previous.snapshot, revision.snapshot) : [];
+            const expanded = expandedId === revision.id;
+
+            return (
+              <TouchableOpacity
+                key={revision.id}
+                style={[styles.versionCard, isCurrent && styles.currentCard]}
+                onPress={() => setExpandedId(expanded ? null : revision.id)}
+                activeOpacity={0.7}
+              >
+                <View style={styles.versionHeader}>
+                  <Text style={styles.versionTitle}>Version {revision.revision_number}</Text>
+                  {isCurrent && (
+                    <View style={styles.currentBadge}>
+                      <Text style={styles.currentBadgeText}>Current</Text>
+                    </View>
+                  )}
+                </View>
+                <Text style={styles.versionMeta}>
+                  {revision.author === 'ai' ? 'Assistant' : 'You'} · {new Date(revision.created_at).toLocaleString()}
+                </Text>
+                {revision.reason && <Text style={styles.versionReason}>{revision.reason}</Text>}
+
+                {expanded && (
+                  <View style={styles.diff}>
+                    {changes.length === 0 ? (
+                      <Text style={styles.diffEmpty}>
+                        {previous ? 'Same as the version before.' : 'The plan as it was first created.'}
+                      </Text>
+                    ) : (
+                      changes.map((change) => (
+                        <View key={change.label} style={styles.diffRow}>
+                          <Text style={styles.diffLabel}>{change.label}</Text>
+                          <Text style={styles.diffFrom}>{change.from}</Text>
+                          <Text style={styles.diffTo}>{change.to}</Text>
+                        </View>
+                      ))
+                    )}
+
+                    {!isCurrent && (
+                      <TouchableOpacity
+                        style={[styles.revertButton, reverting && styles.buttonDisabled]}
+                        onPress={() => handleRevert(revision)}
+                        disabled={reverting}
+                      >
+                        <RotateCcw size={16} color="#FFFFFF" />
+                        <Text style={styles.revertButtonText}>Restore This Version</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F8F3',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#2D3E1F',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#5A6C4A',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  listContent: {
+    padding: 20,
+    gap: 12,
+  },
+  versionCard: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  currentCard: {
+    borderWidth: 2,
+    borderColor: '#7FA957',
+  },
+  versionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  versionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2D3E1F',
+  },
+  currentBadge: {
+    backgroundColor: '#7FA957',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  currentBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  versionMeta: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 4,
+  },
+  versionReason: {
+    fontSize: 14,
+    color: '#5A6C4A',
+    marginTop: 6,
+  },
+  diff: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+    gap: 6,
+  },
+  diffEmpty: {
+    fontSize: 13,
+    color: '#5A6C4A',
+  },
+  diffRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  diffLabel: {
+    width: 90,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2D3E1F',
+  },
+  diffFrom: {
+    fontSize: 13,
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  diffTo: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4A7C2E',
+  },
+  revertButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#4A7C2E',
+    padding: 12,
+    borderRadius: 10,
+    marginTop: 8,
+  },
+  revertButtonText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
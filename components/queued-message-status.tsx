@@ -0,0 +1,45 @@
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Clock, AlertCircle } from 'lucide-react-native';
+import type { OutboxStatus } from '@/services/chat-outbox';
+
+interface QueuedMessageStatusProps {
+  status: OutboxStatus;
+  onRetry: () => void;
+}
+
+/** The line under a user message that hasn't reached the server yet. */
+export function QueuedMessageStatus({ status, onRetry }: QueuedMessageStatusProps) {
+  if (status === 'failed') {
+    return (
+      <TouchableOpacity style={styles.container} onPress={onRetry} activeOpacity={0.7}>
+        <AlertCircle size={12} color="#C00" />
+        <Text style={[styles.text, styles.failedText]}>Not sent. Tap to retry</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Clock size={12} color="#999" />
+      <Text style={styles.text}>{status === 'sending' ? 'Sending…' : 'Waiting for a connection'}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    gap: 4,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  text: {
+    fontSize: 12,
+    color: '#999',
+  },
+  failedText: {
+    color: '#C00',
+  },
+});
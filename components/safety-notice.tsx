@@ -0,0 +1,101 @@
+import { View, Text, StyleSheet, TouchableOpacity, type StyleProp, type ViewStyle } from 'react-native';
+import { AlertTriangle } from 'lucide-react-native';
+import { canPlanAround, type SafetyEvaluation } from '@/services/excursion-safety';
+
+interface SafetyNoticeProps {
+  safety: SafetyEvaluation;
+  /** Offered as "Adjust Plan for Safety" when a different plan could clear the blocks. */
+  onAdjust?: () => void;
+  adjustDisabled?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+/** The safety gate's blocks and warnings for a plan, blocks first. */
+export function SafetyNotice({ safety, onAdjust, adjustDisabled, style }: SafetyNoticeProps) {
+  if (safety.issues.length === 0) return null;
+
+  const blocks = safety.issues.filter((issue) => issue.severity === 'block');
+  const warnings = safety.issues.filter((issue) => issue.severity === 'warning');
+
+  return (
+    <View style={[styles.card, safety.blocked && styles.cardBlocked, style]}>
+      <View style={styles.header}>
+        <AlertTriangle size={20} color={safety.blocked ? '#DC2626' : '#F59E0B'} />
+        <Text style={styles.title}>{safety.blocked ? 'Not Safe Right Now' : 'Before You Go'}</Text>
+      </View>
+
+      {[...blocks, ...warnings].map((issue) => (
+        <View key={`${issue.severity}-${issue.code}`} style={styles.item}>
+          <View style={[styles.bullet, issue.severity === 'block' && styles.bulletBlocked]} />
+          <Text style={styles.text}>{issue.message}</Text>
+        </View>
+      ))}
+
+      {onAdjust && canPlanAround(safety) && (
+        <TouchableOpacity style={styles.adjustButton} onPress={onAdjust} disabled={adjustDisabled}>
+          <Text style={styles.adjustText}>Adjust Plan for Safety</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FEF3C7',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#F59E0B',
+  },
+  cardBlocked: {
+    backgroundColor: '#FEF2F2',
+    borderColor: '#FECACA',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#2D3E1F',
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    marginBottom: 8,
+  },
+  bullet: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#F59E0B',
+    marginTop: 7,
+  },
+  bulletBlocked: {
+    backgroundColor: '#DC2626',
+  },
+  text: {
+    flex: 1,
+    fontSize: 14,
+    color: '#2D3E1F',
+    lineHeight: 20,
+  },
+  adjustButton: {
+    marginTop: 4,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: '#4A7C2E',
+    alignItems: 'center',
+  },
+  adjustText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,79 @@
+/**
+ * Runs the crisis corpus through the rule stage of the safety check
+ * (supabase/functions/_shared/crisis.ts, shared by the app and the edge
+ * functions) and fails on any case it gets wrong. There is no baseline:
+ * every case must pass, in both directions.
+ *
+ *   npm run eval:crisis                   # report, exit 1 on any failure
+ *   npm run eval:crisis -- --verbose      # also list passing cases
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { crisisResponse, detectCrisis, type CrisisLevel } from '../supabase/functions/_shared/crisis';
+
+type CorpusCase = {
+  id: string;
+  text: string;
+  locale?: string;
+  expect: CrisisLevel;
+  /** Language the response must be in, when it matters for the case. */
+  language?: string;
+  note?: string;
+};
+
+type Corpus = {
+  cases: CorpusCase[];
+};
+
+const CORPUS_PATH = path.join(__dirname, 'fixtures', 'crisis-corpus.json');
+const LEVELS: CrisisLevel[] = ['crisis', 'concern', 'none'];
+
+function main() {
+  const verbose = process.argv.slice(2).includes('--verbose');
+  const corpus: Corpus = JSON.parse(fs.readFileSync(CORPUS_PATH, 'utf8'));
+
+  // confusion[expected][actual]
+  const confusion = Object.fromEntries(
+    LEVELS.map((expected) => [expected, Object.fromEntries(LEVELS.map((actual) => [actual, 0]))])
+  ) as Record<CrisisLevel, Record<CrisisLevel, number>>;
+  const failures: string[] = [];
+
+  for (const testCase of corpus.cases) {
+    const check = detectCrisis(testCase.text, testCase.locale);
+    confusion[testCase.expect][check.level] += 1;
+
+    const problems: string[] = [];
+    if (check.level !== testCase.expect) {
+      problems.push(`expected ${testCase.expect}, got ${check.level}`);
+    }
+    if (testCase.language && check.language !== testCase.language) {
+      problems.push(`expected a ${testCase.language} response, got ${check.language ?? 'none'}`);
+    }
+    if (check.level === 'crisis' && !crisisResponse(check, testCase.locale)) {
+      problems.push('no crisis response');
+    }
+
+    if (problems.length) {
+      failures.push(`- ${testCase.id}: "${testCase.text}"\n    ${problems.join('; ')}`);
+    } else if (verbose) {
+      console.log(`  ✓ ${testCase.id}: ${check.level}${check.language ? ` (${check.language})` : ''}`);
+    }
+  }
+
+  console.log(`Crisis corpus: ${corpus.cases.length} cases, ${corpus.cases.length - failures.length} correct\n`);
+  console.log(`${'expected \\ got'.padEnd(16)}${LEVELS.map((l) => l.padStart(9)).join('')}`);
+  for (const expected of LEVELS) {
+    console.log(`${expected.padEnd(16)}${LEVELS.map((actual) => String(confusion[expected][actual]).padStart(9)).join('')}`);
+  }
+
+  if (failures.length) {
+    console.log('\nFailing cases');
+    failures.forEach((failure) => console.log(failure));
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log('\nAll cases pass.');
+}
+
+main();
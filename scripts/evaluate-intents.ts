@@ -0,0 +1,318 @@
+/**
+ * Runs the intent corpus through `parseIntent` and the intent-detector
+ * wrappers, then reports per-field precision/recall and how well the
+ * per-field confidence matches observed accuracy.
+ *
+ *   npm run eval:intents                  # report, exit 1 on regressions
+ *   npm run eval:intents -- --update      # accept current results as baseline
+ *   npm run eval:intents -- --verbose     # also list every failing case
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseIntent } from '../services/intent-parser';
+import {
+  detectConfirmationIntent,
+  detectDurationIntent,
+  detectExcursionIntent,
+  detectLocationIntent,
+} from '../services/intent-detector';
+import type { IntentField, ParsedIntent } from '../types/intent';
+
+type Expected = Partial<
+  Pick<
+    ParsedIntent,
+    | 'durationMinutes'
+    | 'proximityBias'
+    | 'locationPreference'
+    | 'specifiedLocation'
+    | 'activities'
+    | 'excludedActivities'
+    | 'avoid'
+    | 'difficulty'
+    | 'therapeuticGoals'
+    | 'startTime'
+    | 'companions'
+    | 'wantsExcursion'
+    | 'isAffirmative'
+    | 'isCorrection'
+  >
+>;
+
+type CorpusCase = {
+  id: string;
+  text: string;
+  locale?: string;
+  expect: Expected;
+  note?: string;
+};
+
+type Corpus = {
+  /** Reference time for relative expressions ("tomorrow morning"). */
+  now: string;
+  cases: CorpusCase[];
+};
+
+type FieldStats = { tp: number; fp: number; fn: number };
+
+type Baseline = {
+  fields: Record<string, { precision: number; recall: number }>;
+  passing: string[];
+};
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const CORPUS_PATH = path.join(FIXTURES_DIR, 'intent-corpus.json');
+const BASELINE_PATH = path.join(FIXTURES_DIR, 'intent-baseline.json');
+
+// Every field is scored on every case: a field missing from `expect` is
+// expected to be absent (or false), so false positives count too.
+const SCALAR_FIELDS = [
+  'durationMinutes',
+  'proximityBias',
+  'locationPreference',
+  'specifiedLocation',
+  'difficulty',
+  'startTime',
+  'wantsExcursion',
+  'isAffirmative',
+  'isCorrection',
+] as const;
+
+const LIST_FIELDS = ['activities', 'excludedActivities', 'avoid', 'therapeuticGoals', 'companions'] as const;
+
+// Which `fieldConfidence` entry scores each field, for calibration.
+const CONFIDENCE_FIELD: Partial<Record<keyof Expected, IntentField>> = {
+  durationMinutes: 'durationMinutes',
+  proximityBias: 'proximity',
+  locationPreference: 'locationPreference',
+  activities: 'activities',
+  excludedActivities: 'excludedActivities',
+  avoid: 'avoid',
+  difficulty: 'difficulty',
+  therapeuticGoals: 'therapeuticGoals',
+  startTime: 'startTime',
+  companions: 'companions',
+};
+
+const CALIBRATION_BINS = 5;
+
+// Allowed drop before a field counts as regressed, to ignore float noise.
+const TOLERANCE = 0.001;
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null || value === false) return false;
+  if (value === 'none') return false;
+  return !(Array.isArray(value) && value.length === 0);
+}
+
+function normalize(value: unknown): unknown {
+  return typeof value === 'string' ? value.toLowerCase() : value;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 1 : numerator / denominator;
+}
+
+function pct(n: number): string {
+  return `${(n * 100).toFixed(1)}%`.padStart(7);
+}
+
+function emptyStats(): FieldStats {
+  return { tp: 0, fp: 0, fn: 0 };
+}
+
+function scoreScalar(stats: FieldStats, expected: unknown, actual: unknown): boolean {
+  const hasExpected = isPresent(expected);
+  const hasActual = isPresent(actual);
+
+  if (hasExpected && hasActual && normalize(expected) === normalize(actual)) {
+    stats.tp++;
+    return true;
+  }
+  if (hasActual) stats.fp++;
+  if (hasExpected) stats.fn++;
+  return !hasExpected && !hasActual;
+}
+
+function scoreList(stats: FieldStats, expected: string[] = [], actual: string[] = []): boolean {
+  const want = new Set(expected.map((v) => v.toLowerCase()));
+  const got = new Set(actual.map((v) => v.toLowerCase()));
+  let correct = true;
+
+  for (const value of got) {
+    if (want.has(value)) {
+      stats.tp++;
+    } else {
+      stats.fp++;
+      correct = false;
+    }
+  }
+  for (const value of want) {
+    if (!got.has(value)) {
+      stats.fn++;
+      correct = false;
+    }
+  }
+  return correct;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const verbose = args.includes('--verbose');
+
+  const corpus: Corpus = JSON.parse(fs.readFileSync(CORPUS_PATH, 'utf8'));
+  const now = new Date(corpus.now);
+
+  const fieldStats: Record<string, FieldStats> = {};
+  const bins = Array.from({ length: CALIBRATION_BINS }, () => ({ count: 0, confidence: 0, correct: 0 }));
+  const passing: string[] = [];
+  const failures: Array<{ id: string; text: string; fields: string[] }> = [];
+
+  const stats = (field: string) => (fieldStats[field] ??= emptyStats());
+
+  const calibrate = (confidence: number | undefined, correct: boolean) => {
+    if (confidence === undefined) return;
+    const bin = bins[Math.min(CALIBRATION_BINS - 1, Math.floor(confidence * CALIBRATION_BINS))];
+    bin.count++;
+    bin.confidence += confidence;
+    if (correct) bin.correct++;
+  };
+
+  for (const testCase of corpus.cases) {
+    const intent = parseIntent(testCase.text, { locale: testCase.locale ?? 'en', now });
+    const expected = testCase.expect;
+    const failed: string[] = [];
+
+    for (const field of SCALAR_FIELDS) {
+      const ok = scoreScalar(stats(field), expected[field], intent[field]);
+      if (!ok) failed.push(`${field}: expected ${JSON.stringify(expected[field])}, got ${JSON.stringify(intent[field])}`);
+      const confidenceField = CONFIDENCE_FIELD[field];
+      if (confidenceField && isPresent(intent[field])) {
+        calibrate(intent.fieldConfidence[confidenceField], ok);
+      }
+    }
+
+    for (const field of LIST_FIELDS) {
+      const ok = scoreList(stats(field), expected[field], intent[field]);
+      if (!ok) failed.push(`${field}: expected ${JSON.stringify(expected[field] ?? [])}, got ${JSON.stringify(intent[field] ?? [])}`);
+      const confidenceField = CONFIDENCE_FIELD[field];
+      if (confidenceField && isPresent(intent[field])) {
+        calibrate(intent.fieldConfidence[confidenceField], ok);
+      }
+    }
+
+    // The detector wrappers take no locale or clock, so only score them on
+    // English cases that don't depend on the current time.
+    if ((testCase.locale ?? 'en') === 'en' && !expected.startTime) {
+      const checks: Array<[string, unknown, unknown]> = [
+        ['detectExcursionIntent', expected.wantsExcursion ?? false, detectExcursionIntent(testCase.text)],
+        ['detectDurationIntent', expected.durationMinutes ?? null, detectDurationIntent(testCase.text)],
+        ['detectConfirmationIntent', expected.isAffirmative ?? false, detectConfirmationIntent(testCase.text)],
+        [
+          'detectLocationIntent',
+          expected.locationPreference === 'ai_suggestions',
+          detectLocationIntent(testCase.text).wantsSuggestions,
+        ],
+      ];
+      for (const [name, want, got] of checks) {
+        const ok = scoreScalar(stats(name), want, got);
+        if (!ok) failed.push(`${name}: expected ${JSON.stringify(want)}, got ${JSON.stringify(got)}`);
+      }
+    }
+
+    if (failed.length) {
+      failures.push({ id: testCase.id, text: testCase.text, fields: failed });
+    } else {
+      passing.push(testCase.id);
+    }
+  }
+
+  const report: Baseline = { fields: {}, passing };
+
+  console.log(`Intent corpus: ${corpus.cases.length} cases, ${passing.length} fully correct\n`);
+  console.log(`${'field'.padEnd(26)}precision  recall     f1   tp  fp  fn`);
+  for (const [field, s] of Object.entries(fieldStats)) {
+    const precision = ratio(s.tp, s.tp + s.fp);
+    const recall = ratio(s.tp, s.tp + s.fn);
+    const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+    report.fields[field] = {
+      precision: Number(precision.toFixed(4)),
+      recall: Number(recall.toFixed(4)),
+    };
+    console.log(
+      `${field.padEnd(26)}${pct(precision)}  ${pct(recall)} ${pct(f1)} ${String(s.tp).padStart(4)}${String(s.fp).padStart(4)}${String(s.fn).padStart(4)}`
+    );
+  }
+
+  console.log('\nConfidence calibration (predicted fields only)');
+  console.log(`${'confidence'.padEnd(14)}count  mean conf  accuracy`);
+  let weightedGap = 0;
+  let total = 0;
+  bins.forEach((bin, i) => {
+    const low = (i / CALIBRATION_BINS).toFixed(1);
+    const high = ((i + 1) / CALIBRATION_BINS).toFixed(1);
+    if (bin.count === 0) {
+      console.log(`${`${low}-${high}`.padEnd(14)}${'0'.padStart(5)}`);
+      return;
+    }
+    const meanConfidence = bin.confidence / bin.count;
+    const accuracy = bin.correct / bin.count;
+    weightedGap += Math.abs(meanConfidence - accuracy) * bin.count;
+    total += bin.count;
+    console.log(`${`${low}-${high}`.padEnd(14)}${String(bin.count).padStart(5)}    ${pct(meanConfidence)}   ${pct(accuracy)}`);
+  });
+  console.log(`Expected calibration error: ${(total ? weightedGap / total : 0).toFixed(3)}`);
+
+  if (verbose && failures.length) {
+    console.log('\nFailing cases');
+    for (const failure of failures) {
+      console.log(`- ${failure.id}: "${failure.text}"`);
+      failure.fields.forEach((f) => console.log(`    ${f}`));
+    }
+  }
+
+  if (update) {
+    fs.writeFileSync(BASELINE_PATH, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nBaseline updated: ${path.relative(process.cwd(), BASELINE_PATH)}`);
+    return;
+  }
+
+  if (!fs.existsSync(BASELINE_PATH)) {
+    console.log('\nNo baseline yet; run with --update to record one.');
+    return;
+  }
+
+  const baseline: Baseline = JSON.parse(fs.readFileSync(BASELINE_PATH, 'utf8'));
+  const regressions: string[] = [];
+
+  for (const [field, before] of Object.entries(baseline.fields)) {
+    const after = report.fields[field];
+    if (!after) continue;
+    if (after.precision < before.precision - TOLERANCE) {
+      regressions.push(`${field} precision ${pct(before.precision).trim()} -> ${pct(after.precision).trim()}`);
+    }
+    if (after.recall < before.recall - TOLERANCE) {
+      regressions.push(`${field} recall ${pct(before.recall).trim()} -> ${pct(after.recall).trim()}`);
+    }
+  }
+
+  const nowPassing = new Set(passing);
+  for (const id of baseline.passing) {
+    if (!nowPassing.has(id)) {
+      const failure = failures.find((f) => f.id === id);
+      regressions.push(`case ${id} no longer passes${failure ? `: ${failure.fields.join('; ')}` : ''}`);
+    }
+  }
+
+  if (regressions.length) {
+    console.log('\nRegressions against baseline:');
+    regressions.forEach((r) => console.log(`  ✗ ${r}`));
+    process.exitCode = 1;
+    return;
+  }
+
+  const fixed = passing.filter((id) => !baseline.passing.includes(id));
+  console.log(`\nNo regressions against baseline${fixed.length ? ` (${fixed.length} newly passing; run --update)` : ''}.`);
+}
+
+main();
@@ -1,5 +1,7 @@
 import type { AiRequest, AiResponse } from '@/types/ai';
 import Constants from 'expo-constants';
+import { fetch as streamingFetch } from 'expo/fetch';
+import { getFunctionsAuthToken } from './supabase';
 
 function getEnvVar(key: string): string {
   return (
@@ -12,8 +14,58 @@ function getEnvVar(key: string): string {
 const SUPABASE_URL = getEnvVar('EXPO_PUBLIC_SUPABASE_URL');
 const SUPABASE_ANON_KEY = getEnvVar('EXPO_PUBLIC_SUPABASE_ANON_KEY');
 
-export async function aiRun<T = unknown>(payload: AiRequest): Promise<AiResponse<T>> {
+export type AiRunOptions = {
+  /**
+   * Streams the reply when the action supports it, calling back with the
+   * reply text received so far. The resolved response is the same either way.
+   */
+  onProgress?: (partialReply: string) => void;
+  /** Cancels the request; it then resolves with the `ABORTED` error. */
+  signal?: AbortSignal;
+};
+
+type StreamEvent = { event: string; data: string };
+
+/**
+ * Reads a `text/event-stream` body, calling `onEvent` for each complete event.
+ * Needs the `expo/fetch` response: React Native's built-in fetch buffers the
+ * whole body before resolving.
+ */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: StreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const raw = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of raw.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+      onEvent({ event, data: data.join('\n') });
+    }
+  }
+}
+
+export async function aiRun<T = unknown>(
+  payload: AiRequest,
+  options: AiRunOptions = {}
+): Promise<AiResponse<T>> {
   const start = Date.now();
+  const { onProgress, signal } = options;
 
   if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
     return {
@@ -29,14 +81,18 @@ export async function aiRun<T = unknown>(payload: AiRequest): Promise<AiResponse
 
     // PERF_TIMERS:CHAT_CLIENT
     const t0 = Date.now();
-    const response = await fetch(`${SUPABASE_URL}/functions/v1/ai-chat`, {
+    const request = {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+        'Authorization': `Bearer ${await getFunctionsAuthToken()}`,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(payload),
-    });
+      body: JSON.stringify(onProgress ? { ...payload, stream: true } : payload),
+      signal,
+    };
+    const response = onProgress
+      ? await streamingFetch(`${SUPABASE_URL}/functions/v1/ai-chat`, request)
+      : await fetch(`${SUPABASE_URL}/functions/v1/ai-chat`, request);
     const t1 = Date.now();
     console.log('[chat] network ms:', t1 - t0);
 
@@ -44,7 +100,26 @@ export async function aiRun<T = unknown>(payload: AiRequest): Promise<AiResponse
 
     let data;
     try {
-      data = await response.json();
+      const isStream = response.headers.get('content-type')?.includes('text/event-stream');
+
+      if (onProgress && isStream && response.body) {
+        // Deltas build up the reply; the final `done` (or `error`) event
+        // carries the same envelope a non-streaming response would.
+        let reply = '';
+        await readEventStream(response.body, ({ event, data: eventData }) => {
+          if (event === 'delta') {
+            reply += JSON.parse(eventData).text ?? '';
+            onProgress(reply);
+          } else if (event === 'done' || event === 'error') {
+            data = JSON.parse(eventData);
+          }
+        });
+        if (!data) {
+          throw new Error('Stream ended without a result');
+        }
+      } else {
+        data = await response.json();
+      }
       const t2 = Date.now();
       console.log('[chat] total to body ms:', t2 - t0);
       console.log('AI API: Response data:', data);
@@ -60,7 +135,7 @@ export async function aiRun<T = unknown>(payload: AiRequest): Promise<AiResponse
       };
     }
 
-    if (!response.ok) {
+    if (!response.ok || data?.ok === false) {
       const errorMessage = data?.error?.message || `Server error: ${response.status}`;
       const isApiKeyMissing = errorMessage.includes('OPENAI_API_KEY') || errorMessage.includes('API key');
 
@@ -86,6 +161,14 @@ export async function aiRun<T = unknown>(payload: AiRequest): Promise<AiResponse
       },
     };
   } catch (err) {
+    if (signal?.aborted) {
+      return {
+        ok: false,
+        error: { message: 'Request cancelled', code: 'ABORTED' },
+        meta: { latency_ms: Date.now() - start },
+      };
+    }
+
     console.error('AI API: Network error:', err);
     const message = err instanceof Error ? err.message : 'Network error';
     return {
@@ -1,5 +1,5 @@
 import { aiRun } from './ai-api';
-import type { HealthCoachResult, ExcursionPlanResult } from '@/types/ai';
+import type { HealthCoachResult, ExcursionPlanResult, ExcursionRevisionResult } from '@/types/ai';
 
 export async function coachMessage(input: {
   message: string;
@@ -16,9 +16,23 @@ export async function getExcursionPlan(input: {
   durationMinutes: number;
   preferences?: Record<string, unknown>;
   nearbyPlaces?: Array<{ name: string; lat: number; lng: number }>;
+  schedule?: { startAt?: string; endBy?: string; label?: string };
 }) {
   return aiRun<ExcursionPlanResult>({
     action: 'excursion_plan',
     input,
   });
 }
+
+export async function getExcursionRevision(input: {
+  excursion: Record<string, unknown>;
+  request: string;
+  nearbyPlaces?: Array<{ name: string; lat: number; lng: number }>;
+  /** Where place lookups for a new destination search around. */
+  user_location?: { lat: number; lng: number };
+}) {
+  return aiRun<ExcursionRevisionResult>({
+    action: 'excursion_revise',
+    input,
+  });
+}
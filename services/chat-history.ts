@@ -0,0 +1,121 @@
+import { supabase } from './supabase';
+import type { ChatSession, ConversationPhase } from './chat';
+
+export type SessionListItem = Pick<ChatSession, 'id' | 'title' | 'phase' | 'pinned' | 'archived_at' | 'updated_at'>;
+
+export interface SessionSearchResult extends SessionListItem {
+  /** The best matching message, with the matched words in `<b>` tags; null when only the title matched. */
+  snippet: string | null;
+}
+
+const LIST_COLUMNS = 'id, title, phase, pinned, archived_at, updated_at';
+
+const PHASE_LABELS: Record<ConversationPhase, string> = {
+  initial_chat: 'Chat',
+  excursion_planning: 'Planning',
+  excursion_creation: 'Excursion',
+  excursion_guiding: 'On an excursion',
+  post_excursion_followup: 'After an excursion',
+};
+
+export function getPhaseLabel(phase: ConversationPhase): string {
+  return PHASE_LABELS[phase] ?? PHASE_LABELS.initial_chat;
+}
+
+/**
+ * The user's conversations, pinned first and then most recently active.
+ * Archived conversations are listed on their own with `archived`. Signed-out
+ * users have no history: sessions without an owner belong to every
+ * signed-out device.
+ */
+export async function listSessions(archived = false): Promise<SessionListItem[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  let query = supabase
+    .from('chat_sessions')
+    .select(LIST_COLUMNS)
+    .order('pinned', { ascending: false })
+    .order('updated_at', { ascending: false })
+    .limit(100);
+
+  query = archived ? query.not('archived_at', 'is', null) : query.is('archived_at', null);
+  query = query.eq('user_id', user.id);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error listing sessions:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Full-text search over message content and titles
+ * (`search_chat_sessions`), one result per conversation; signed-in users only.
+ */
+export async function searchSessions(query: string, includeArchived = false): Promise<SessionSearchResult[]> {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase.rpc('search_chat_sessions', {
+    p_query: trimmed,
+    p_include_archived: includeArchived,
+  });
+
+  if (error) {
+    console.error('Error searching sessions:', error);
+    return [];
+  }
+
+  return (data || []).map((row: SessionSearchResult & { session_id: string }) => ({
+    id: row.session_id,
+    title: row.title,
+    phase: row.phase,
+    pinned: row.pinned,
+    archived_at: row.archived_at,
+    updated_at: row.updated_at,
+    snippet: row.snippet,
+  }));
+}
+
+async function updateSession(
+  sessionId: string,
+  changes: Partial<Pick<ChatSession, 'pinned' | 'archived_at'>>,
+  action: string
+): Promise<boolean> {
+  // Deliberately leaves `updated_at` alone, so tidying the list doesn't
+  // reorder it.
+  const { error } = await supabase
+    .from('chat_sessions')
+    .update(changes)
+    .eq('id', sessionId);
+
+  if (error) {
+    console.error(`Error ${action} session:`, error);
+    return false;
+  }
+
+  return true;
+}
+
+export function setSessionPinned(sessionId: string, pinned: boolean): Promise<boolean> {
+  return updateSession(sessionId, { pinned }, pinned ? 'pinning' : 'unpinning');
+}
+
+/**
+ * Hides a conversation from the list and from `getOrCreateSession`. Nothing
+ * is deleted; `restoreSession` brings it back as it was.
+ */
+export function archiveSession(sessionId: string): Promise<boolean> {
+  return updateSession(sessionId, { archived_at: new Date().toISOString(), pinned: false }, 'archiving');
+}
+
+export function restoreSession(sessionId: string): Promise<boolean> {
+  return updateSession(sessionId, { archived_at: null }, 'restoring');
+}
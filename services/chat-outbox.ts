@@ -0,0 +1,315 @@
+import { AppState, Platform } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import * as FileSystem from 'expo-file-system/legacy';
+import { sendMessage, type SendMessageResult } from './chat';
+
+/**
+ * Typed chat messages go through this outbox so a dropped connection (common
+ * at trailheads) never loses what the user wrote. A message is stored on the
+ * device before it is sent and only removed once the server has it and a
+ * reply; until then screens show it as pending, or failed once retries run
+ * out. Each message carries a `clientId` the server de-duplicates on, so
+ * retrying a send that actually got through stores nothing twice.
+ *
+ * Pending messages are retried with backoff, straight away when the app comes
+ * back to the foreground or the network comes back, and in order: a session's
+ * later messages wait for its earlier pending ones. A failed message is parked
+ * until the user retries it and holds nothing up.
+ */
+
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxMessage {
+  clientId: string;
+  sessionId: string;
+  content: string;
+  assistantType?: string;
+  createdAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  /** Epoch ms before which a pending message isn't retried. */
+  nextAttemptAt: number;
+  lastError?: string;
+  /** A crisis reply was already shown; the retry only has to store the turn. */
+  replyShown?: boolean;
+}
+
+export type OutboxEvent =
+  | { type: 'changed'; messages: OutboxMessage[] }
+  /**
+   * A reply a background retry got, to show under `message`. Whether the
+   * message is still queued comes from `changed`.
+   */
+  | { type: 'delivered'; message: OutboxMessage; result: SendMessageResult };
+
+const STORAGE_KEY = 'chat-outbox';
+const STORAGE_FILE = `${FileSystem.documentDirectory}chat-outbox.json`;
+
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 10;
+
+// Retrying can't fix these; the message is marked failed at once.
+const PERMANENT_ERRORS = ['SESSION_NOT_FOUND', 'UNAUTHORIZED', 'CONFIG_ERROR', 'INVALID_REQUEST'];
+
+let outbox: OutboxMessage[] | null = null;
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let watching = false;
+const listeners = new Set<(event: OutboxEvent) => void>();
+
+async function readStored(): Promise<OutboxMessage[]> {
+  try {
+    if (Platform.OS === 'web') {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      return stored ? JSON.parse(stored) : [];
+    }
+    const info = await FileSystem.getInfoAsync(STORAGE_FILE);
+    return info.exists ? JSON.parse(await FileSystem.readAsStringAsync(STORAGE_FILE)) : [];
+  } catch (error) {
+    console.error('Error reading chat outbox:', error);
+    return [];
+  }
+}
+
+async function writeStored(messages: OutboxMessage[]): Promise<void> {
+  try {
+    const json = JSON.stringify(messages);
+    if (Platform.OS === 'web') {
+      if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, json);
+      return;
+    }
+    await FileSystem.writeAsStringAsync(STORAGE_FILE, json);
+  } catch (error) {
+    console.error('Error saving chat outbox:', error);
+  }
+}
+
+async function load(): Promise<OutboxMessage[]> {
+  if (!outbox) {
+    // A send cut off by the app closing is simply pending again.
+    outbox = (await readStored()).map((message) =>
+      message.status === 'sending' ? { ...message, status: 'pending' } : message
+    );
+  }
+  return outbox;
+}
+
+function emit(event: OutboxEvent): void {
+  listeners.forEach((listener) => listener(event));
+}
+
+async function save(messages: OutboxMessage[]): Promise<void> {
+  outbox = messages;
+  await writeStored(messages);
+  emit({ type: 'changed', messages });
+}
+
+async function update(clientId: string, changes: Partial<OutboxMessage>): Promise<OutboxMessage | null> {
+  const messages = await load();
+  const existing = messages.find((message) => message.clientId === clientId);
+  if (!existing) return null;
+
+  const updated = { ...existing, ...changes };
+  await save(messages.map((message) => (message.clientId === clientId ? updated : message)));
+  return updated;
+}
+
+async function remove(clientId: string): Promise<void> {
+  const messages = await load();
+  await save(messages.filter((message) => message.clientId !== clientId));
+}
+
+function createClientId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** Exponential backoff with ±20% jitter, so queued devices don't retry in step. */
+function retryDelay(attempts: number): number {
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * One send of a queued message. Resolves to the result when the server has
+ * the message and its reply, else records the failure and resolves to null;
+ * a crisis reply is still resolved to the first time, as it must be shown
+ * even while the turn can't be stored.
+ */
+async function attempt(
+  message: OutboxMessage,
+  onProgress?: (partialReply: string) => void
+): Promise<SendMessageResult | null> {
+  await update(message.clientId, { status: 'sending' });
+
+  let result: SendMessageResult;
+  try {
+    result = await sendMessage(message.sessionId, message.content, message.assistantType, onProgress, message.clientId);
+  } catch (error) {
+    result = { reply: '', error: error instanceof Error ? error.message : 'Failed to send message' };
+  }
+
+  if (result.reply && !result.error) {
+    await remove(message.clientId);
+    return result;
+  }
+
+  const attempts = message.attempts + 1;
+  const permanent = (result.errorCode && PERMANENT_ERRORS.includes(result.errorCode)) || attempts >= MAX_ATTEMPTS;
+  console.warn(`Chat outbox: send ${attempts} of ${message.clientId} failed:`, result.error);
+
+  await update(message.clientId, {
+    status: permanent ? 'failed' : 'pending',
+    attempts,
+    nextAttemptAt: Date.now() + retryDelay(attempts),
+    lastError: result.error,
+    // The crisis reply is shown whether or not the turn could be stored.
+    ...(result.crisis && result.reply ? { replyShown: true } : {}),
+  });
+
+  return result.crisis && result.reply && !message.replyShown ? result : null;
+}
+
+function scheduleRetry(): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  const pending = (outbox ?? []).filter((message) => message.status === 'pending');
+  if (pending.length === 0) return;
+
+  const next = Math.min(...pending.map((message) => message.nextAttemptAt));
+  retryTimer = setTimeout(() => flushOutbox(), Math.max(next - Date.now(), 0));
+}
+
+async function drain(force: boolean): Promise<void> {
+  const waiting = new Set<string>();
+
+  for (const queued of [...(await load())]) {
+    // Re-read: an earlier send in this pass may have changed it.
+    const message = outbox?.find((item) => item.clientId === queued.clientId);
+    if (!message || message.status === 'failed' || waiting.has(message.sessionId)) continue;
+
+    // `sending` is a send `deliverQueuedMessage` has in flight.
+    if (message.status !== 'pending' || (!force && message.nextAttemptAt > Date.now())) {
+      waiting.add(message.sessionId);
+      continue;
+    }
+
+    const result = await attempt(message);
+    if (result && !message.replyShown) {
+      emit({ type: 'delivered', message, result });
+    }
+    const status = outbox?.find((item) => item.clientId === message.clientId)?.status;
+    if ((!result || result.error) && status === 'pending') {
+      waiting.add(message.sessionId);
+    }
+  }
+}
+
+/**
+ * Sends every pending message that is due, oldest first; `force` ignores the
+ * backoff, for when connectivity has likely come back.
+ */
+export function flushOutbox(force = false): Promise<void> {
+  flushing ??= drain(force).finally(() => {
+    flushing = null;
+    scheduleRetry();
+  });
+  return flushing;
+}
+
+function watchConnectivity(): void {
+  if (watching) return;
+  watching = true;
+
+  AppState.addEventListener('change', (state) => {
+    if (state === 'active') flushOutbox(true);
+  });
+  if (Platform.OS === 'web') {
+    if (typeof window !== 'undefined') window.addEventListener('online', () => flushOutbox(true));
+    return;
+  }
+
+  let connected: boolean | null = null;
+  NetInfo.addEventListener(({ isConnected }) => {
+    // The first call reports the current state; only a change back to connected counts.
+    if (isConnected && connected === false) flushOutbox(true);
+    connected = isConnected;
+  });
+}
+
+/** Stores a message for sending. Call `deliverQueuedMessage` next. */
+export async function queueMessage(sessionId: string, content: string, assistantType?: string): Promise<OutboxMessage> {
+  const message: OutboxMessage = {
+    clientId: createClientId(),
+    sessionId,
+    content,
+    assistantType,
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+  };
+
+  await save([...(await load()), message]);
+  watchConnectivity();
+  return message;
+}
+
+/**
+ * Sends a just-queued message now, streaming the reply through `onProgress`.
+ * Resolves to the result to show; null means it stays queued (or the session
+ * is waiting on an earlier message) and a later `delivered` event brings the
+ * reply.
+ */
+export async function deliverQueuedMessage(
+  clientId: string,
+  onProgress?: (partialReply: string) => void
+): Promise<SendMessageResult | null> {
+  await flushing;
+  const messages = await load();
+  const message = messages.find((item) => item.clientId === clientId);
+  if (!message) return null;
+
+  const earlier = messages.some(
+    (item) => item.sessionId === message.sessionId && item.status !== 'failed' && item.createdAt < message.createdAt
+  );
+  if (earlier) {
+    flushOutbox(true);
+    return null;
+  }
+
+  const result = await attempt(message, onProgress);
+  scheduleRetry();
+  return result;
+}
+
+export async function getQueuedMessages(sessionId: string): Promise<OutboxMessage[]> {
+  const messages = await load();
+  return messages.filter((message) => message.sessionId === sessionId);
+}
+
+/** Puts a failed message back in the queue and sends it now. */
+export async function retryQueuedMessage(clientId: string): Promise<void> {
+  await update(clientId, { status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+  await flushOutbox(true);
+}
+
+export async function discardQueuedMessage(clientId: string): Promise<void> {
+  await remove(clientId);
+  scheduleRetry();
+}
+
+/**
+ * Calls `listener` on every change to the outbox and with each reply a
+ * background retry gets, and starts retrying anything left from an earlier
+ * run. Returns the unsubscribe function.
+ */
+export function subscribeToOutbox(listener: (event: OutboxEvent) => void): () => void {
+  listeners.add(listener);
+  watchConnectivity();
+  flushOutbox();
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,102 @@
+import { supabase } from './supabase';
+import { getSession, getSessionMessages, type ChatSession, type StoredMessage } from './chat';
+
+/**
+ * Live updates for an open conversation, so a session carried on from the
+ * phone, the web build or a second device shows its new messages and phase
+ * everywhere it is open. Screens keep their own message list and merge rows
+ * in with `mergeStoredMessage`, which leaves alone anything they already show,
+ * their queued and streaming messages included.
+ *
+ * Realtime doesn't replay changes made while the socket was down (the app in
+ * the background, a dropped connection), nor those made between a screen
+ * loading its messages and subscribing, so every subscribe and reconnect
+ * catches up with a fetch of what was stored after the newest message seen.
+ * The cursor is always a server `created_at`, never this device's clock.
+ */
+
+export interface SessionSyncHandlers {
+  /** A message stored in the session, from this device or any other. */
+  onMessage: (message: StoredMessage) => void;
+  /** The session row changed, e.g. moved to another phase. */
+  onSessionChange?: (session: ChatSession) => void;
+}
+
+/** The id a screen shows a stored message under: its `client_id` when it was queued here. */
+export function localMessageId(message: StoredMessage): string {
+  return message.client_id ?? message.id;
+}
+
+/**
+ * Adds a stored message to a screen's list unless the list already has it,
+ * under its row id or under its `client_id`, which queued messages and the
+ * replies streaming into them carry until the screen is reloaded.
+ */
+export function mergeStoredMessage<T extends { id: string }>(
+  messages: T[],
+  message: StoredMessage,
+  toLocal: (message: StoredMessage) => T
+): T[] {
+  const known = messages.some((local) => local.id === message.id || local.id === message.client_id);
+  return known ? messages : [...messages, toLocal(message)];
+}
+
+/**
+ * Where `subscribeToSession` catches up from for a screen: the newest message
+ * it loaded, or the start of the session when it loaded none.
+ */
+export function syncCursor(newest: StoredMessage | null | undefined): string {
+  return newest?.created_at ?? new Date(0).toISOString();
+}
+
+/**
+ * Subscribes to changes to one session and its messages, catching up from
+ * `since` (see `syncCursor`). Returns the unsubscribe function.
+ */
+export function subscribeToSession(
+  sessionId: string,
+  since: string,
+  { onMessage, onSessionChange }: SessionSyncHandlers
+): () => void {
+  // The newest message seen so far.
+  let lastSeen = since;
+
+  const receive = (message: StoredMessage) => {
+    if (message.created_at > lastSeen) lastSeen = message.created_at;
+    onMessage(message);
+  };
+
+  const catchUp = async () => {
+    const missed = await getSessionMessages(sessionId, lastSeen);
+    missed.forEach(receive);
+
+    if (onSessionChange) {
+      const session = await getSession(sessionId);
+      if (session) onSessionChange(session);
+    }
+  };
+
+  const channel = supabase
+    .channel(`chat-session:${sessionId}`)
+    .on<StoredMessage>(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'chat_messages', filter: `session_id=eq.${sessionId}` },
+      (payload) => receive(payload.new)
+    )
+    .on<ChatSession>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'chat_sessions', filter: `id=eq.${sessionId}` },
+      (payload) => onSessionChange?.(payload.new)
+    )
+    .subscribe((status, error) => {
+      if (status === 'SUBSCRIBED') {
+        catchUp();
+      } else if (status === 'CHANNEL_ERROR') {
+        console.error('Error syncing chat session:', error);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -1,10 +1,14 @@
 import { supabase } from './supabase';
 import { aiRun } from './ai-api';
 import { sendVoiceMessage as sendVoiceToApi, base64ToDataUri } from './voice';
-import { getUserProfile } from './user-profile';
-import type { ChatMessage, HealthCoachResult } from '@/types/ai';
-import { transitionToExcursionPlanning, getAssistantForPhase, updatePhaseMetadata } from './phase-manager';
-import { detectExcursionIntent, detectDurationIntent, detectLocationIntent, detectConfirmationIntent } from './intent-detector';
+import { getProfileLocale, getUserProfile } from './user-profile';
+import { getCachedLocationData } from './location-preload';
+import { getDeviceLocale } from './intent-lexicons';
+import { checkMessageSafety, type SafetyFlag } from './safety';
+import type { HealthCoachResult } from '@/types/ai';
+import { getAssistantForPhase, transitionToExcursionCreation } from './phase-manager';
+import { applyIntentTurn } from './intent-service';
+import { planningStateFromMetadata } from './planning-slots';
 
 export type ConversationPhase = 'initial_chat' | 'excursion_planning' | 'excursion_creation' | 'excursion_guiding' | 'post_excursion_followup';
 
@@ -16,6 +20,13 @@ export interface ChatSession {
   phase: ConversationPhase;
   conversation_metadata: Record<string, unknown>;
   excursion_id: string | null;
+  /** Rolling summary of older turns, maintained by the ai-chat function. */
+  summary: string | null;
+  summarized_through: string | null;
+  /** Pinned sessions head the history list. */
+  pinned: boolean;
+  /** Archived sessions keep their messages but are never reopened automatically. */
+  archived_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -30,6 +41,29 @@ export interface StoredMessage {
   audio_url?: string;
   audio_duration_ms?: number;
   transcript?: string;
+  /** Set on user messages that matched the crisis check. */
+  safety_flag?: SafetyFlag | null;
+  /** Device-generated id of a queued message; its reply has `<client_id>:reply`. */
+  client_id?: string | null;
+}
+
+export interface SendMessageResult {
+  reply: string;
+  readyToCreate?: boolean;
+  excursionUpdate?: string;
+  crisis?: boolean;
+  error?: string;
+  /** The ai-chat error code, or SAVE_FAILED when the message couldn't be stored. */
+  errorCode?: string;
+}
+
+interface MessageMetadata {
+  messageType?: 'text' | 'voice';
+  audioUrl?: string;
+  audioDurationMs?: number;
+  transcript?: string;
+  safetyFlag?: SafetyFlag;
+  clientId?: string;
 }
 
 export async function createSession(
@@ -67,6 +101,7 @@ export async function getOrCreateSession(assistantType = 'health_coach'): Promis
     .from('chat_sessions')
     .select('*')
     .eq('assistant_type', assistantType)
+    .is('archived_at', null)
     .order('updated_at', { ascending: false })
     .limit(1);
 
@@ -90,12 +125,18 @@ export async function getOrCreateSession(assistantType = 'health_coach'): Promis
   return createSession(assistantType);
 }
 
-export async function getSessionMessages(sessionId: string): Promise<StoredMessage[]> {
-  const { data, error } = await supabase
+/** The session's messages, oldest first; with `since`, only those stored after it. */
+export async function getSessionMessages(sessionId: string, since?: string): Promise<StoredMessage[]> {
+  let query = supabase
     .from('chat_messages')
     .select('*')
-    .eq('session_id', sessionId)
-    .order('created_at', { ascending: true });
+    .eq('session_id', sessionId);
+
+  if (since) {
+    query = query.gt('created_at', since);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: true });
 
   if (error) {
     console.error('Error fetching messages:', error);
@@ -105,34 +146,61 @@ export async function getSessionMessages(sessionId: string): Promise<StoredMessa
   return data || [];
 }
 
-export async function saveMessage(
+/** The session's newest message, or null when it has none. */
+export async function getLatestMessage(sessionId: string): Promise<StoredMessage | null> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching latest message:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Inserts a message. With a `clientId` a second insert of the same message
+ * (a retried send) is ignored by the database and resolves to the row already
+ * stored, with `duplicate` set.
+ */
+async function insertMessage(
   sessionId: string,
   role: 'user' | 'assistant',
   content: string,
-  audioMetadata?: {
-    messageType?: 'text' | 'voice';
-    audioUrl?: string;
-    audioDurationMs?: number;
-    transcript?: string;
-  }
-): Promise<StoredMessage | null> {
-  const { data, error } = await supabase
-    .from('chat_messages')
-    .insert({
-      session_id: sessionId,
-      role,
-      content,
-      message_type: audioMetadata?.messageType || 'text',
-      audio_url: audioMetadata?.audioUrl,
-      audio_duration_ms: audioMetadata?.audioDurationMs,
-      transcript: audioMetadata?.transcript,
-    })
-    .select()
-    .single();
+  metadata?: MessageMetadata
+): Promise<{ message: StoredMessage | null; duplicate: boolean }> {
+  const row = {
+    session_id: sessionId,
+    role,
+    content,
+    message_type: metadata?.messageType || 'text',
+    audio_url: metadata?.audioUrl,
+    audio_duration_ms: metadata?.audioDurationMs,
+    transcript: metadata?.transcript,
+    safety_flag: metadata?.safetyFlag,
+    client_id: metadata?.clientId,
+  };
+
+  const { data, error } = metadata?.clientId
+    ? await supabase
+        .from('chat_messages')
+        .upsert(row, { onConflict: 'session_id,client_id', ignoreDuplicates: true })
+        .select()
+    : await supabase.from('chat_messages').insert(row).select();
 
   if (error) {
     console.error('Error saving message:', error);
-    return null;
+    return { message: null, duplicate: false };
+  }
+
+  if (!data?.length && metadata?.clientId) {
+    return { message: await findMessageByClientId(sessionId, metadata.clientId), duplicate: true };
   }
 
   await supabase
@@ -140,22 +208,83 @@ export async function saveMessage(
     .update({ updated_at: new Date().toISOString() })
     .eq('id', sessionId);
 
+  return { message: data?.[0] ?? null, duplicate: false };
+}
+
+async function findMessageByClientId(sessionId: string, clientId: string): Promise<StoredMessage | null> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .eq('client_id', clientId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching message:', error);
+    return null;
+  }
+
   return data;
 }
 
+export async function saveMessage(
+  sessionId: string,
+  role: 'user' | 'assistant',
+  content: string,
+  metadata?: MessageMetadata
+): Promise<StoredMessage | null> {
+  const { message } = await insertMessage(sessionId, role, content, metadata);
+  return message;
+}
+
+/**
+ * Stores the user's message and asks the assistant for a reply. The ai-chat
+ * function loads the profile, session phase and history for the signed-in
+ * user itself; only the message and the device location are sent.
+ *
+ * Messages that match the crisis check get the fixed crisis-resources reply
+ * instead, with no assistant call and no planning update for the turn.
+ */
 export async function sendMessage(
   sessionId: string,
   userMessage: string,
-  conversationHistory: ChatMessage[],
   assistantType?: string,
   onProgress?: (partialReply: string) => void,
-  contextMetadata?: Record<string, unknown>
-): Promise<{ reply: string; readyToCreate?: boolean; error?: string }> {
-  await saveMessage(sessionId, 'user', userMessage);
+  clientId?: string
+): Promise<SendMessageResult> {
+  const { data: { user } } = await supabase.auth.getUser();
+  const profile = user ? await getUserProfile(user.id) : null;
+  const replyClientId = clientId ? `${clientId}:reply` : undefined;
+
+  // The crisis reply is decided on the device, so it is returned even when
+  // storing the turn fails; `error` then tells a queued send to try again.
+  const safety = await checkMessageSafety(userMessage, getProfileLocale(profile) ?? getDeviceLocale());
+  if (safety.crisis) {
+    const saved = await saveMessage(sessionId, 'user', userMessage, { safetyFlag: 'crisis', clientId });
+    const reply = saved && await saveMessage(sessionId, 'assistant', safety.response, { clientId: replyClientId });
+    return {
+      reply: safety.response,
+      crisis: true,
+      ...(reply ? {} : { error: 'Failed to save message', errorCode: 'SAVE_FAILED' }),
+    };
+  }
+
+  const saved = await insertMessage(sessionId, 'user', userMessage, { clientId });
+  if (!saved.message) {
+    return { reply: '', error: 'Failed to save message', errorCode: 'SAVE_FAILED' };
+  }
+
+  // A retried send whose reply was stored before the connection dropped.
+  if (saved.duplicate && replyClientId) {
+    const existingReply = await findMessageByClientId(sessionId, replyClientId);
+    if (existingReply) {
+      return { reply: existingReply.content };
+    }
+  }
 
-  let { data: sessionRow, error: sessionErr } = await supabase
+  const { data: sessionRow, error: sessionErr } = await supabase
     .from('chat_sessions')
-    .select('assistant_type, phase, conversation_metadata')
+    .select('assistant_type, phase, conversation_metadata, updated_at')
     .eq('id', sessionId)
     .maybeSingle();
 
@@ -166,152 +295,79 @@ export async function sendMessage(
     };
   }
 
-  const currentPhase = sessionRow.phase;
-  const sessionMetadata = sessionRow.conversation_metadata || {};
-
-  if (currentPhase === 'initial_chat') {
-    const hasExcursionIntent = detectExcursionIntent(userMessage);
-
-    if (hasExcursionIntent) {
-      const transitionResult = await transitionToExcursionPlanning(sessionId);
-
-      if (transitionResult.success) {
-        const refetchResult = await supabase
-          .from('chat_sessions')
-          .select('assistant_type, phase, conversation_metadata')
-          .eq('id', sessionId)
-          .maybeSingle();
-
-        if (refetchResult.data) {
-          sessionRow = refetchResult.data;
-        }
-      } else {
-        console.error('Phase transition failed:', transitionResult.error);
+  // Runs before the request so the function reads the updated phase and
+  // planning state. A retried send already applied its turn the first time,
+  // so it reads the stored state instead of counting the turn again.
+  const { phase, planning } = saved.duplicate
+    ? {
+        phase: sessionRow.phase,
+        planning: sessionRow.phase === 'excursion_planning'
+          ? planningStateFromMetadata(sessionRow.conversation_metadata || {})
+          : null,
       }
-    }
-  }
-
-  if (currentPhase === 'excursion_planning') {
-    const duration = detectDurationIntent(userMessage);
-    const location = detectLocationIntent(userMessage);
-    const confirmation = detectConfirmationIntent(userMessage);
-
-    const updates: Record<string, unknown> = {};
-
-    if (duration) {
-      updates.duration_minutes = duration;
-      updates.detected_duration = duration;
-    }
-
-    if (location.wantsSuggestions || location.specificLocation) {
-      updates.location_preference = location.wantsSuggestions ? 'ai_suggestions' : location.specificLocation;
-      updates.specified_location = location.specificLocation;
-    }
-
-    if (confirmation && sessionMetadata.asked_confirmation) {
-      updates.user_confirmed = true;
-    }
+    : await applyIntentTurn(sessionId, sessionRow, userMessage, {
+        locale: getProfileLocale(profile),
+      });
 
-    if (Object.keys(updates).length > 0) {
-      await updatePhaseMetadata(sessionId, updates);
-    }
-  }
-
-  const phase = sessionRow.phase;
   assistantType = assistantType || getAssistantForPhase(phase);
 
-  const historyForApi: ChatMessage[] = conversationHistory.map((msg) => ({
-    role: msg.role,
-    content: msg.content,
-  }));
-
-  const { data: { user } } = await supabase.auth.getUser();
-  let userContext: Record<string, unknown> = {
-    phase,
-    session_metadata: sessionRow.conversation_metadata || {},
-  };
-
-  if (user) {
-    const profile = await getUserProfile(user.id);
-    if (profile) {
-      userContext = {
-        ...userContext,
-        activity_preferences: profile.activity_preferences || [],
-        therapy_preferences: profile.therapy_preferences || [],
-        health_goals: profile.health_goals || [],
-        fitness_level: profile.fitness_level,
-        mobility_level: profile.mobility_level,
-      };
-    }
-  }
+  const input: Record<string, unknown> = { message: userMessage };
 
-  if (contextMetadata) {
-    userContext = { ...userContext, ...contextMetadata };
+  // Lets the assistant's place, weather and route tools default to "near me".
+  const cachedLocation = getCachedLocationData();
+  if (cachedLocation) {
+    input.user_location = {
+      lat: cachedLocation.location.coords.latitude,
+      lng: cachedLocation.location.coords.longitude,
+    };
   }
 
   const action = assistantType === 'excursion_creator' ? 'excursion_creator_message' : 'health_coach_message';
 
-  const response = await aiRun<HealthCoachResult & { readyToCreate?: boolean }>({
+  const response = await aiRun<
+    HealthCoachResult & { readyToCreate?: boolean; requires_excursion_update?: boolean; update_suggestions?: string }
+  >({
     action,
-    input: { message: userMessage },
-    context: userContext,
-    conversation_history: historyForApi,
-  });
+    session_id: sessionId,
+    input,
+  }, { onProgress });
 
   if (!response.ok || !response.result) {
     return {
       reply: '',
       error: response.error?.message || 'Failed to get response',
+      errorCode: response.error?.code,
     };
   }
 
   const assistantReply = response.result.reply;
-  const readyToCreate = response.result.readyToCreate;
-  const askedConfirmation = (response.result as any).askedConfirmation;
+  const readyToCreate = planning ? planning.stage === 'ready' : response.result.readyToCreate;
 
-  if (askedConfirmation !== undefined) {
-    await updatePhaseMetadata(sessionId, {
-      asked_confirmation: askedConfirmation,
-    });
-  }
+  // While refining a created excursion the assistant only describes the
+  // change; the caller turns it into an `excursion_revise` preview.
+  const excursionUpdate =
+    phase === 'excursion_creation' && response.result.requires_excursion_update
+      ? response.result.update_suggestions || userMessage
+      : undefined;
 
-  await saveMessage(sessionId, 'assistant', assistantReply);
+  await saveMessage(sessionId, 'assistant', assistantReply, { clientId: replyClientId });
 
-  return { reply: assistantReply, readyToCreate };
+  return { reply: assistantReply, readyToCreate, excursionUpdate };
 }
 
 export async function sendVoiceMessage(
   sessionId: string,
-  recording: { uri: string; duration: number },
-  conversationHistory: ChatMessage[]
+  recording: { uri: string; duration: number }
 ): Promise<{
   transcript: string;
   reply: string;
   replyAudioBase64?: string;
+  crisis?: boolean;
   error?: string;
 }> {
-  const historyForApi: ChatMessage[] = conversationHistory.map((msg) => ({
-    role: msg.role,
-    content: msg.content,
-  }));
-
-  const { data: { user } } = await supabase.auth.getUser();
-  let userContext = {};
-
-  if (user) {
-    const profile = await getUserProfile(user.id);
-    if (profile) {
-      userContext = {
-        activity_preferences: profile.activity_preferences || [],
-        therapy_preferences: profile.therapy_preferences || [],
-        health_goals: profile.health_goals || [],
-        fitness_level: profile.fitness_level,
-        mobility_level: profile.mobility_level,
-      };
-    }
-  }
-
-  const voiceResult = await sendVoiceToApi(recording, historyForApi, userContext);
+  // The transcript only exists server-side, so voice-chat runs the crisis
+  // check and reports a match in `crisis`.
+  const voiceResult = await sendVoiceToApi(recording, sessionId, getDeviceLocale());
 
   if ('error' in voiceResult) {
     return {
@@ -325,6 +381,7 @@ export async function sendVoiceMessage(
     messageType: 'voice',
     transcript: voiceResult.transcript,
     audioDurationMs: recording.duration,
+    ...(voiceResult.crisis ? { safetyFlag: 'crisis' as const } : {}),
   });
 
   const audioDataUri = base64ToDataUri(voiceResult.responseAudioBase64);
@@ -338,62 +395,10 @@ export async function sendVoiceMessage(
     transcript: voiceResult.transcript,
     reply: voiceResult.responseText,
     replyAudioBase64: voiceResult.responseAudioBase64,
+    ...(voiceResult.crisis ? { crisis: true } : {}),
   };
 }
 
-export async function updateSessionPhase(
-  sessionId: string,
-  phase: ConversationPhase
-): Promise<boolean> {
-  const { error } = await supabase
-    .from('chat_sessions')
-    .update({ phase, updated_at: new Date().toISOString() })
-    .eq('id', sessionId);
-
-  if (error) {
-    console.error('Error updating session phase:', error);
-    return false;
-  }
-
-  return true;
-}
-
-export async function updateSessionMetadata(
-  sessionId: string,
-  metadata: Record<string, unknown>
-): Promise<boolean> {
-  const { data: session, error: fetchError } = await supabase
-    .from('chat_sessions')
-    .select('conversation_metadata')
-    .eq('id', sessionId)
-    .maybeSingle();
-
-  if (fetchError || !session) {
-    console.error('Error fetching session:', fetchError);
-    return false;
-  }
-
-  const updatedMetadata = {
-    ...(session.conversation_metadata || {}),
-    ...metadata,
-  };
-
-  const { error: updateError } = await supabase
-    .from('chat_sessions')
-    .update({
-      conversation_metadata: updatedMetadata,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', sessionId);
-
-  if (updateError) {
-    console.error('Error updating session metadata:', updateError);
-    return false;
-  }
-
-  return true;
-}
-
 export async function getSession(sessionId: string): Promise<ChatSession | null> {
   const { data, error } = await supabase
     .from('chat_sessions')
@@ -409,26 +414,54 @@ export async function getSession(sessionId: string): Promise<ChatSession | null>
   return data;
 }
 
-export async function clearSession(sessionId: string): Promise<boolean> {
-  const { error: messagesError } = await supabase
-    .from('chat_messages')
-    .delete()
-    .eq('session_id', sessionId);
-
-  if (messagesError) {
-    console.error('Error clearing messages:', messagesError);
-    return false;
+/**
+ * The session an excursion's lifecycle runs in, from creation through
+ * guiding to the post-excursion follow-up. The planning session that produced
+ * the excursion (`sessionId`) moves on to `excursion_creation` the first time;
+ * after that the session scoped to the excursion is reused. Excursions built
+ * from the create form had no planning conversation, so theirs starts at
+ * `excursion_creation`.
+ */
+export async function getExcursionSession(excursionId: string, sessionId?: string): Promise<ChatSession | null> {
+  if (sessionId) {
+    const session = await getSession(sessionId);
+    if (session?.excursion_id === excursionId) {
+      return session;
+    }
+    if (session?.phase === 'excursion_planning') {
+      const result = await transitionToExcursionCreation(session.id, excursionId);
+      if (result.session) {
+        return result.session;
+      }
+      console.error('Error moving planning session to excursion_creation:', result.error);
+    }
   }
 
-  const { error: sessionError } = await supabase
+  const { data: { user } } = await supabase.auth.getUser();
+
+  let query = supabase
     .from('chat_sessions')
-    .update({ title: 'New Conversation', updated_at: new Date().toISOString() })
-    .eq('id', sessionId);
+    .select('*')
+    .eq('excursion_id', excursionId)
+    .order('updated_at', { ascending: false })
+    .limit(1);
 
-  if (sessionError) {
-    console.error('Error updating session:', sessionError);
-    return false;
+  if (user) {
+    query = query.eq('user_id', user.id);
+  } else {
+    query = query.is('user_id', null);
+  }
+
+  const { data: existingSessions, error: fetchError } = await query;
+
+  if (fetchError) {
+    console.error('Error fetching excursion session:', fetchError);
+    return null;
+  }
+
+  if (existingSessions && existingSessions.length > 0) {
+    return existingSessions[0];
   }
 
-  return true;
+  return createSession(getAssistantForPhase('excursion_creation'), 'excursion_creation', excursionId);
 }
@@ -0,0 +1,251 @@
+import { supabase } from './supabase';
+import { getExcursionRevision } from './ai';
+import { mergeSessionMetadata } from './phase-manager';
+import type { ExcursionChanges, ExcursionRevisionResult } from '@/types/ai';
+
+export interface ExcursionRouteData {
+  steps?: string[];
+  start_location?: { lat: number; lng: number };
+  destination?: { name: string; lat: number; lng: number };
+  waypoints?: Array<{ lat: number; lng: number; name?: string }>;
+}
+
+export interface RevisableExcursion {
+  id: string;
+  title: string;
+  description: string;
+  route_data: ExcursionRouteData;
+  duration_minutes: number | null;
+  distance_km: number | null;
+  difficulty: string | null;
+}
+
+/** The parts of an excursion a revision can change. */
+export type ExcursionSnapshot = Omit<RevisableExcursion, 'id'>;
+
+export type RevisionAuthor = 'user' | 'ai';
+
+export interface ExcursionRevision {
+  id: string;
+  excursion_id: string;
+  revision_number: number;
+  author: RevisionAuthor;
+  reason: string | null;
+  snapshot: ExcursionSnapshot;
+  created_at: string;
+}
+
+export interface SnapshotChange {
+  label: string;
+  from: string;
+  to: string;
+}
+
+// Same straight-line interpolation the create screens use for new excursions.
+const WAYPOINT_SEGMENTS = 8;
+
+function interpolateWaypoints(
+  from: { lat: number; lng: number },
+  to: { lat: number; lng: number }
+): Array<{ lat: number; lng: number }> {
+  const waypoints = [];
+  for (let i = 0; i <= WAYPOINT_SEGMENTS; i++) {
+    const progress = i / WAYPOINT_SEGMENTS;
+    waypoints.push({
+      lat: from.lat + (to.lat - from.lat) * progress,
+      lng: from.lng + (to.lng - from.lng) * progress,
+    });
+  }
+  return waypoints;
+}
+
+export function hasChanges(changes: ExcursionChanges): boolean {
+  return Object.keys(changes).length > 0;
+}
+
+/** Asks the assistant how the excursion should change; nothing is saved. */
+export async function proposeExcursionRevision(
+  excursion: RevisableExcursion,
+  request: string
+): Promise<{ revision?: ExcursionRevisionResult; error?: string }> {
+  const { steps, destination, start_location } = excursion.route_data || {};
+
+  const response = await getExcursionRevision({
+    excursion: {
+      title: excursion.title,
+      description: excursion.description,
+      duration_minutes: excursion.duration_minutes,
+      distance_km: excursion.distance_km,
+      difficulty: excursion.difficulty,
+      route_data: { steps, destination },
+    },
+    request,
+    // Place lookups for a new destination search around the excursion itself.
+    ...(start_location ? { user_location: start_location } : {}),
+  });
+
+  if (!response.ok || !response.result) {
+    return { error: response.error?.message || 'Failed to prepare the change' };
+  }
+
+  return { revision: response.result };
+}
+
+export function snapshotOf(excursion: RevisableExcursion): ExcursionSnapshot {
+  return {
+    title: excursion.title,
+    description: excursion.description,
+    route_data: excursion.route_data,
+    duration_minutes: excursion.duration_minutes,
+    distance_km: excursion.distance_km,
+    difficulty: excursion.difficulty,
+  };
+}
+
+/** What the excursion looks like with a proposed revision applied. */
+function revisedSnapshot(excursion: RevisableExcursion, changes: ExcursionChanges): ExcursionSnapshot {
+  const snapshot = snapshotOf(excursion);
+  const route = excursion.route_data || {};
+  const routeData: ExcursionRouteData = { ...route };
+
+  if (changes.steps) {
+    routeData.steps = changes.steps;
+  }
+  if (changes.destination) {
+    routeData.destination = changes.destination;
+    if (route.start_location) {
+      routeData.waypoints = interpolateWaypoints(route.start_location, changes.destination);
+    }
+  }
+  if (changes.duration_minutes) {
+    snapshot.duration_minutes = changes.duration_minutes;
+    // There's no new route to measure, so keep the pace of the old plan.
+    if (excursion.distance_km && excursion.duration_minutes) {
+      snapshot.distance_km =
+        Math.round((excursion.distance_km * changes.duration_minutes) / excursion.duration_minutes * 10) / 10;
+    }
+  }
+  if (changes.difficulty) {
+    snapshot.difficulty = changes.difficulty;
+  }
+
+  return { ...snapshot, route_data: routeData };
+}
+
+export async function getExcursionRevisions(excursionId: string): Promise<ExcursionRevision[]> {
+  const { data, error } = await supabase
+    .from('excursion_revisions')
+    .select('*')
+    .eq('excursion_id', excursionId)
+    .order('revision_number', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching excursion revisions:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+/**
+ * Snapshots a change in `excursion_revisions` and writes it to the excursion
+ * in one transaction (`apply_excursion_revision`). Excursions are created
+ * without a revision, so the first change also stores the original plan as
+ * version 1; nothing the user saw is ever lost.
+ */
+async function saveRevision(
+  excursionId: string,
+  next: ExcursionSnapshot,
+  author: RevisionAuthor,
+  reason: string
+): Promise<boolean> {
+  const { error } = await supabase.rpc('apply_excursion_revision', {
+    p_excursion_id: excursionId,
+    p_author: author,
+    p_reason: reason,
+    p_snapshot: next,
+  });
+
+  if (error) {
+    console.error('Error saving excursion revision:', error);
+    return false;
+  }
+
+  return true;
+}
+
+async function countModification(sessionId: string): Promise<void> {
+  await mergeSessionMetadata(sessionId, {}, { modification_count: 1 });
+}
+
+/**
+ * Writes a previewed revision to the `excursions` row along with its snapshot
+ * in `excursion_revisions`, and bumps the session's `modification_count`.
+ */
+export async function applyExcursionRevision(
+  excursion: RevisableExcursion,
+  request: string,
+  revision: ExcursionRevisionResult,
+  sessionId?: string
+): Promise<boolean> {
+  const next = revisedSnapshot(excursion, revision.changes);
+
+  if (!(await saveRevision(excursion.id, next, 'ai', request))) return false;
+
+  if (sessionId) {
+    await countModification(sessionId);
+  }
+
+  return true;
+}
+
+/**
+ * Restores an earlier version. The revert is itself a new revision, so the
+ * version being replaced stays in the history too.
+ */
+export async function revertToRevision(
+  excursion: RevisableExcursion,
+  target: ExcursionRevision,
+  sessionId?: string
+): Promise<boolean> {
+  const reason = `Reverted to version ${target.revision_number}`;
+
+  if (!(await saveRevision(excursion.id, target.snapshot, 'user', reason))) return false;
+
+  if (sessionId) {
+    await countModification(sessionId);
+  }
+
+  return true;
+}
+
+function formatMinutes(value: number | null): string {
+  return value ? `${value} min` : '—';
+}
+
+function formatKm(value: number | null): string {
+  return value ? `${Number(value).toFixed(1)} km` : '—';
+}
+
+/** A readable field-by-field diff between two versions, for the versions view. */
+export function diffSnapshots(from: ExcursionSnapshot, to: ExcursionSnapshot): SnapshotChange[] {
+  const changes: SnapshotChange[] = [];
+  const add = (label: string, a: string, b: string) => {
+    if (a !== b) changes.push({ label, from: a, to: b });
+  };
+
+  add('Title', from.title, to.title);
+  add('Duration', formatMinutes(from.duration_minutes), formatMinutes(to.duration_minutes));
+  add('Distance', formatKm(from.distance_km), formatKm(to.distance_km));
+  add('Difficulty', from.difficulty || '—', to.difficulty || '—');
+  add('Destination', from.route_data?.destination?.name || '—', to.route_data?.destination?.name || '—');
+
+  const fromSteps = from.route_data?.steps || [];
+  const toSteps = to.route_data?.steps || [];
+  if (JSON.stringify(fromSteps) !== JSON.stringify(toSteps)) {
+    const edited = fromSteps.length === toSteps.length ? ' (edited)' : '';
+    changes.push({ label: 'Activities', from: `${fromSteps.length} steps`, to: `${toSteps.length} steps${edited}` });
+  }
+
+  return changes;
+}
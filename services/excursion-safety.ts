@@ -0,0 +1,339 @@
+import { getExcursionPlan } from './ai';
+import { getSunTimes } from './sun-times';
+import type { WeatherData } from './weather';
+import type { AiResponse, ExcursionPlanResult } from '@/types/ai';
+
+/**
+ * Rule-based safety gate for excursion plans. Plans are checked against the
+ * current weather, the daylight left at the start point and what the user
+ * told us about their mobility, fitness and appetite for risk. A `warning` is
+ * shown alongside the plan; a `block` means the plan shouldn't go ahead as it
+ * is. Issues with a `constraint` can be planned around and are sent back to
+ * the planner when regenerating; the rest (a thunderstorm, extreme heat)
+ * don't depend on the plan.
+ */
+
+export type SafetySeverity = 'warning' | 'block';
+
+export interface SafetyIssue {
+  code: string;
+  severity: SafetySeverity;
+  /** Shown to the user. */
+  message: string;
+  /** Instruction for the planner, when a different plan would avoid the issue. */
+  constraint?: string;
+}
+
+export interface SafetyEvaluation {
+  blocked: boolean;
+  issues: SafetyIssue[];
+  /** Latest safe finish when the plan runs into dusk; passed to the planner as `schedule.endBy`. */
+  finishBy?: Date;
+}
+
+export interface SafetyPlan {
+  durationMinutes: number;
+  difficulty?: string | null;
+  /** Where the excursion starts; sunset is worked out for this point. */
+  location: { lat: number; lng: number };
+  /** Defaults to now. */
+  startAt?: Date;
+}
+
+export interface SafetyConditions {
+  weather?: WeatherData | null;
+  mobilityLevel?: string | null;
+  fitnessLevel?: string | null;
+  riskTolerance?: string | null;
+}
+
+type Effort = 'easy' | 'moderate' | 'challenging';
+
+// Plans report difficulty; excursions created from the form used to store the
+// energy level instead.
+const EFFORT: Record<string, Effort> = {
+  easy: 'easy',
+  low: 'easy',
+  moderate: 'moderate',
+  medium: 'moderate',
+  challenging: 'challenging',
+  high: 'challenging',
+};
+
+// WMO weather codes, as returned by Open-Meteo.
+const THUNDERSTORM_CODES = [95, 96, 99];
+const HEAVY_PRECIPITATION_CODES = [65, 67, 75, 82, 86];
+const FREEZING_CODES = [56, 57, 66, 67];
+const SNOW_CODES = [71, 73, 75, 77, 85, 86];
+const FOG_CODES = [45, 48];
+
+// getCurrentWeather reports °F and mph.
+const HEAT_WARNING_F = 90;
+const HEAT_BLOCK_F = 100;
+const COLD_WARNING_F = 32;
+const COLD_BLOCK_F = 5;
+const WIND_WARNING_MPH = 25;
+const WIND_BLOCK_MPH = 40;
+
+// Finishing this close to sunset is a warning; running this far past it is a block.
+const SUNSET_MARGIN_MINUTES = 30;
+const LONG_EXCURSION_MINUTES = 120;
+
+function readEffort(difficulty?: string | null): Effort | undefined {
+  return difficulty ? EFFORT[difficulty.trim().toLowerCase()] : undefined;
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+function weatherIssues(weather: WeatherData, effort: Effort | undefined, limitedMobility: boolean): SafetyIssue[] {
+  const issues: SafetyIssue[] = [];
+  const code = weather.weatherCode;
+
+  if (code !== undefined) {
+    if (THUNDERSTORM_CODES.includes(code)) {
+      issues.push({
+        code: 'thunderstorm',
+        severity: 'block',
+        message: 'A thunderstorm is under way. Wait until it has passed before heading out.',
+      });
+    } else if (HEAVY_PRECIPITATION_CODES.includes(code)) {
+      issues.push({
+        code: 'heavy_precipitation',
+        severity: effort === 'challenging' ? 'block' : 'warning',
+        message: `${weather.description} makes trails slippery and harder going.`,
+        constraint: 'Heavy rain or snow: keep the route easy, on firm paths, with shelter nearby.',
+      });
+    } else if (code >= 51 && code <= 81) {
+      issues.push({
+        code: 'precipitation',
+        severity: 'warning',
+        message: `${weather.description} expected. Bring a waterproof layer.`,
+        constraint: 'It is raining or snowing: favour firm, well-drained paths.',
+      });
+    } else if (FOG_CODES.includes(code)) {
+      issues.push({
+        code: 'fog',
+        severity: 'warning',
+        message: 'Fog limits visibility. Stay on marked paths.',
+        constraint: 'Fog: use well-marked paths and avoid open or unmarked ground.',
+      });
+    }
+
+    if (limitedMobility && (FREEZING_CODES.includes(code) || SNOW_CODES.includes(code))) {
+      issues.push({
+        code: 'icy_paths',
+        severity: 'block',
+        message: 'Snow and ice make paths unsafe with limited mobility.',
+      });
+    }
+  }
+
+  const feelsLike = weather.feelsLike ?? weather.temperature;
+  if (feelsLike >= HEAT_BLOCK_F) {
+    issues.push({
+      code: 'extreme_heat',
+      severity: 'block',
+      message: `It feels like ${feelsLike}°F. That is too hot to be out for long.`,
+    });
+  } else if (feelsLike >= HEAT_WARNING_F) {
+    issues.push({
+      code: 'heat',
+      severity: effort === 'challenging' ? 'block' : 'warning',
+      message: `It feels like ${feelsLike}°F. Take plenty of water and rest in the shade.`,
+      constraint: 'Hot weather: keep the effort easy or moderate and favour shaded routes near water.',
+    });
+  } else if (feelsLike <= COLD_BLOCK_F) {
+    issues.push({
+      code: 'extreme_cold',
+      severity: 'block',
+      message: `It feels like ${feelsLike}°F. That is too cold to be out safely.`,
+    });
+  } else if (feelsLike <= COLD_WARNING_F) {
+    issues.push({
+      code: 'cold',
+      severity: 'warning',
+      message: `It feels like ${feelsLike}°F. Dress in warm layers and watch for ice.`,
+      constraint: 'Freezing temperatures: keep the excursion short and avoid exposed ground.',
+    });
+  }
+
+  if (weather.windSpeed >= WIND_BLOCK_MPH) {
+    issues.push({
+      code: 'high_wind',
+      severity: 'block',
+      message: `Winds of ${weather.windSpeed} mph can bring down branches. Stay in today.`,
+    });
+  } else if (weather.windSpeed >= WIND_WARNING_MPH) {
+    issues.push({
+      code: 'wind',
+      severity: 'warning',
+      message: `Winds of ${weather.windSpeed} mph. Avoid exposed ridges and shorelines.`,
+      constraint: 'Strong wind: avoid summits, ridges, cliffs and open shorelines.',
+    });
+  }
+
+  return issues;
+}
+
+function abilityIssues(
+  effort: Effort | undefined,
+  durationMinutes: number,
+  conditions: SafetyConditions
+): SafetyIssue[] {
+  const issues: SafetyIssue[] = [];
+  const mobility = conditions.mobilityLevel?.toLowerCase();
+  const long = durationMinutes > LONG_EXCURSION_MINUTES;
+
+  if (mobility === 'wheelchair' && effort && effort !== 'easy') {
+    issues.push({
+      code: 'mobility',
+      severity: effort === 'challenging' ? 'block' : 'warning',
+      message: `A ${effort} route may not be passable in a wheelchair.`,
+      constraint: 'The user uses a wheelchair: plan an easy, step-free route on paved or firm, level paths.',
+    });
+  } else if (mobility === 'limited' && (effort === 'challenging' || long)) {
+    issues.push({
+      code: 'mobility',
+      severity: effort === 'challenging' ? 'block' : 'warning',
+      message:
+        effort === 'challenging'
+          ? 'A challenging route is a lot to take on with limited mobility.'
+          : 'This is a long outing for limited mobility. Plan places to rest.',
+      constraint: 'The user has limited mobility: keep it easy, with gentle gradients and places to rest.',
+    });
+  }
+
+  if (conditions.fitnessLevel?.toLowerCase() === 'beginner' && (effort === 'challenging' || long)) {
+    issues.push({
+      code: 'fitness',
+      severity: 'warning',
+      message: 'This is a big step up for a beginner. Go at your own pace and turn back if you need to.',
+      constraint: 'The user is a fitness beginner: prefer easy or moderate routes of two hours or less.',
+    });
+  }
+
+  if (conditions.riskTolerance?.toLowerCase() === 'low' && effort === 'challenging') {
+    issues.push({
+      code: 'risk_tolerance',
+      severity: 'warning',
+      message: 'This route is more adventurous than you usually like.',
+      constraint: 'The user prefers low-risk outings: avoid challenging terrain.',
+    });
+  }
+
+  return issues;
+}
+
+/** Checks one plan against the conditions it would happen in. */
+export function evaluateExcursionSafety(plan: SafetyPlan, conditions: SafetyConditions): SafetyEvaluation {
+  const effort = readEffort(plan.difficulty);
+  const mobility = conditions.mobilityLevel?.toLowerCase();
+  const limitedMobility = mobility === 'wheelchair' || mobility === 'limited';
+  const cautious = limitedMobility || conditions.riskTolerance?.toLowerCase() === 'low';
+
+  const issues: SafetyIssue[] = [
+    ...(conditions.weather ? weatherIssues(conditions.weather, effort, limitedMobility) : []),
+    ...abilityIssues(effort, plan.durationMinutes, conditions),
+  ];
+
+  const start = plan.startAt ?? new Date();
+  const end = new Date(start.getTime() + plan.durationMinutes * 60000);
+  const { sunrise, sunset } = getSunTimes(start, plan.location.lat, plan.location.lng);
+  let finishBy: Date | undefined;
+
+  if (start >= sunset) {
+    issues.push({
+      code: 'after_dark',
+      severity: cautious ? 'block' : 'warning',
+      message: `The sun sets at ${formatTime(sunset)}, so this excursion would be in the dark.`,
+    });
+  } else if (start < sunrise) {
+    issues.push({
+      code: 'before_dawn',
+      severity: 'warning',
+      message: `The sun rises at ${formatTime(sunrise)}. Bring a light for the start.`,
+    });
+  } else {
+    const overrunMinutes = (end.getTime() - sunset.getTime()) / 60000;
+    if (overrunMinutes > 0) {
+      finishBy = sunset;
+      issues.push({
+        code: 'sunset',
+        severity: overrunMinutes > SUNSET_MARGIN_MINUTES || cautious ? 'block' : 'warning',
+        message: `The sun sets at ${formatTime(sunset)}, before this excursion would end.`,
+        constraint: `Sunset is at ${sunset.toISOString()}: the excursion must finish before then.`,
+      });
+    } else if (overrunMinutes > -SUNSET_MARGIN_MINUTES) {
+      issues.push({
+        code: 'sunset',
+        severity: 'warning',
+        message: `You'll be finishing close to sunset (${formatTime(sunset)}). Bring a light.`,
+      });
+    }
+  }
+
+  return { blocked: issues.some((issue) => issue.severity === 'block'), issues, finishBy };
+}
+
+/** Whether a different plan could clear the blocks, i.e. whether regenerating is worth it. */
+export function canPlanAround(evaluation: SafetyEvaluation): boolean {
+  const blocks = evaluation.issues.filter((issue) => issue.severity === 'block');
+  return blocks.length > 0 && blocks.every((issue) => !!issue.constraint);
+}
+
+/** The issues as a change request for `excursion_revise`. */
+export function safetyRevisionRequest(evaluation: SafetyEvaluation): string {
+  const constraints = evaluation.issues.flatMap((issue) => (issue.constraint ? [issue.constraint] : []));
+  return ['Make this excursion safe for the conditions:', ...constraints].join(' ');
+}
+
+/**
+ * `getExcursionPlan` with the safety gate applied. A plan that is blocked for
+ * reasons a different plan would avoid is regenerated once, with the issues
+ * as hard constraints and the sunset as the latest finish; the evaluation of
+ * the plan returned comes with it.
+ */
+export async function getSafeExcursionPlan(
+  input: Parameters<typeof getExcursionPlan>[0],
+  conditions: SafetyConditions
+): Promise<{ response: AiResponse<ExcursionPlanResult>; safety: SafetyEvaluation | null }> {
+  const evaluate = (plan: ExcursionPlanResult) =>
+    evaluateExcursionSafety(
+      {
+        durationMinutes: plan.duration_minutes || input.durationMinutes,
+        difficulty: plan.difficulty,
+        location: input.userLocation,
+        startAt: input.schedule?.startAt ? new Date(input.schedule.startAt) : undefined,
+      },
+      conditions
+    );
+
+  const response = await getExcursionPlan(input);
+  if (!response.ok || !response.result) {
+    return { response, safety: null };
+  }
+
+  const safety = evaluate(response.result);
+  if (!canPlanAround(safety)) {
+    return { response, safety };
+  }
+
+  const endBy = safety.finishBy?.toISOString();
+  const retry = await getExcursionPlan({
+    ...input,
+    preferences: {
+      ...input.preferences,
+      safetyConstraints: safety.issues.flatMap((issue) => (issue.constraint ? [issue.constraint] : [])),
+    },
+    schedule: endBy && (!input.schedule?.endBy || endBy < input.schedule.endBy)
+      ? { ...input.schedule, endBy }
+      : input.schedule,
+  });
+  if (!retry.ok || !retry.result) {
+    return { response, safety };
+  }
+
+  return { response: retry, safety: evaluate(retry.result) };
+}
@@ -0,0 +1,49 @@
+import { IntentLexicon } from "@/types/intent";
+import { en } from "./lexicons/en";
+import { es } from "./lexicons/es";
+import { fr } from "./lexicons/fr";
+
+const DEFAULT_LOCALE = "en";
+
+const registry = new Map<string, IntentLexicon>();
+
+/** Adds or replaces the lexicon for a language. */
+export function registerLexicon(lexicon: IntentLexicon): void {
+  registry.set(lexicon.locale.toLowerCase(), lexicon);
+}
+
+[en, es, fr].forEach(registerLexicon);
+
+export function getRegisteredLocales(): string[] {
+  return Array.from(registry.keys());
+}
+
+function baseLanguage(tag: string): string {
+  return tag.toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * Picks the first candidate (e.g. profile locale, then device locale) that has
+ * a registered lexicon, matching on the base language so "es-MX" uses "es".
+ */
+export function resolveLocale(...candidates: Array<string | null | undefined>): string {
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const tag = candidate.toLowerCase();
+    if (registry.has(tag)) return tag;
+    if (registry.has(baseLanguage(tag))) return baseLanguage(tag);
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function getLexicon(locale?: string | null): IntentLexicon {
+  return registry.get(resolveLocale(locale)) ?? registry.get(DEFAULT_LOCALE)!;
+}
+
+export function getDeviceLocale(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().locale;
+  } catch {
+    return undefined;
+  }
+}
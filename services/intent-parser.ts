@@ -1,129 +1,338 @@
-import { ParsedIntent, ProximityBias } from "@/types/intent";
+import {
+  IntentField,
+  IntentLexicon,
+  IntentParseOptions,
+  LocationPreference,
+  ParsedIntent,
+  ProximityBias,
+} from "@/types/intent";
+import { getDeviceLocale, getLexicon, getRegisteredLocales, resolveLocale } from "./intent-lexicons";
+import { durationRangeFromWindow, parseDurationExpression, parseTimeWindow, stripStartOffsets } from "./time-expressions";
 
 const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
 
-const DURATION_PATTERNS: Array<{ re: RegExp; toMinutes: (m: RegExpMatchArray) => number }> = [
-  { re: /\b(\d+)\s*(hour|hours|hr|hrs)\b/i, toMinutes: (m) => parseInt(m[1], 10) * 60 },
-  { re: /\b(\d+)\s*(minute|minutes|min|mins)\b/i, toMinutes: (m) => parseInt(m[1], 10) },
-  { re: /\b(\d+(?:\.\d+)?)\s*(hour|hours|hr|hrs)\b/i, toMinutes: (m) => Math.round(parseFloat(m[1]) * 60) },
-];
-
-const PROXIMITY_PATTERNS: Array<{ re: RegExp; bias: ProximityBias }> = [
-  { re: /\bnear here\b/i, bias: "near_here" },
-  { re: /\bnearby\b/i, bias: "nearby" },
-  { re: /\bclose by\b/i, bias: "nearby" },
-];
-
-const WITHIN_DISTANCE_RE = /\bwithin\s*(\d+(?:\.\d+)?)\s*(km|kilometers|kilometres|mi|miles)\b/i;
-
-const ACTIVITY_KEYWORDS: Record<string, string[]> = {
-  Hiking: ["hike", "hiking", "trail", "trek"],
-  Walking: ["walk", "walking", "stroll"],
-  Meditation: ["meditate", "meditation", "breathing", "mindfulness"],
-  Biking: ["bike", "biking", "cycle", "cycling"],
-  Running: ["run", "running", "jog"],
-};
+// Canonical activity keys that count as wanting to go outside.
+const OUTDOOR_ACTIVITIES = ["Hiking", "Walking", "Biking", "Running"];
 
-const DIFFICULTY_KEYWORDS: Record<string, string[]> = {
-  easy: ["easy", "gentle", "simple", "relaxing", "calm"],
-  medium: ["moderate", "medium", "regular"],
-  hard: ["challenging", "hard", "difficult", "intense", "strenuous"],
-};
+// Letters, digits and Latin accents; \b alone treats "é" as a word break.
+const WORD_CHARS = "A-Za-z0-9_\\u00C0-\\u024F";
 
-const THERAPEUTIC_GOAL_KEYWORDS: Record<string, string[]> = {
-  "reduce stress": ["stress", "stressed", "tense", "tension"],
-  "improve mood": ["anxious", "anxiety", "sad", "mood", "depression"],
-  "boost energy": ["tired", "fatigue", "energy", "energize"],
-  "improve sleep": ["sleep", "insomnia", "rest"],
-  "increase focus": ["focus", "concentration", "distracted"],
-  "relax": ["relax", "relaxation", "unwind", "decompress"],
+// Per-field confidence reflects how explicit the wording was, so that a vague
+// "quick walk" never overwrites an earlier "45 minutes" in session metadata.
+const FIELD_CONFIDENCE = {
+  withinDistance: 0.9,
+  proximity: 0.7,
+  explicitLocation: 0.8,
+  impliedLocation: 0.6,
+  activities: 0.8,
+  difficulty: 0.6,
+  therapeuticGoals: 0.6,
+  companions: 0.8,
+  excludedActivities: 0.8,
+  avoid: 0.7,
 };
 
+type Span = [number, number];
+
 function escapeRegExp(s: string): string {
   return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
-export function parseIntent(rawText: string): ParsedIntent {
-  const text = rawText.trim();
-  const matches: Record<string, string> = {};
+/**
+ * Builds an alternation of phrases with word boundaries that also work for
+ * accented letters. Longer phrases are tried first ("do not" before "no").
+ */
+function phrasePattern(phrases: string[]): string {
+  return [...phrases]
+    .sort((a, b) => b.length - a.length)
+    .map((phrase) => {
+      const escaped = escapeRegExp(phrase).replace(/\s+/g, "\\s+");
+      const before = new RegExp(`^[${WORD_CHARS}]`).test(phrase) ? `(?<![${WORD_CHARS}])` : "";
+      const after = new RegExp(`[${WORD_CHARS}]$`).test(phrase) ? `(?![${WORD_CHARS}])` : "";
+      return `${before}${escaped}${after}`;
+    })
+    .join("|");
+}
+
+function phraseRegExp(phrases: string[], flags = "i"): RegExp {
+  return new RegExp(`(?:${phrasePattern(phrases)})`, flags);
+}
+
+function containsPhrase(text: string, phrases: string[]): boolean {
+  return phrases.length > 0 && phraseRegExp(phrases).test(text);
+}
+
+/** Rewrites local time words ("media hora") into the English the time parser reads. */
+function translateTimeWords(text: string, lexicon: IntentLexicon): string {
+  const words = Object.keys(lexicon.timeWords);
+  if (!words.length) return text;
+  return text.replace(phraseRegExp(words, "gi"), (match) => {
+    const key = words.find((w) => w.toLowerCase() === match.toLowerCase().replace(/\s+/g, " "));
+    return key ? lexicon.timeWords[key] : match;
+  });
+}
+
+// A negation cue opens a scope that runs to the end of its clause, so in
+// "I don't want to hike, just sit somewhere calm" only "hike" is negated.
+function findNegatedSpans(text: string, lexicon: IntentLexicon): Span[] {
+  const spans: Span[] = [];
+  if (!lexicon.negationCues.length) return spans;
+
+  const boundary = new RegExp(`[,.;!?]|${phrasePattern(lexicon.clauseBoundaries)}`, "i");
+  for (const cue of text.matchAll(phraseRegExp(lexicon.negationCues, "gi"))) {
+    const start = cue.index! + cue[0].length;
+    const end = text.slice(start).search(boundary);
+    spans.push([start, end === -1 ? text.length : start + end]);
+  }
+  return spans;
+}
+
+/**
+ * Sorts keyword hits into those mentioned positively and those only mentioned
+ * inside a negation scope. A key counts as positive if any occurrence is.
+ */
+function classifyKeywords(
+  text: string,
+  keywords: Record<string, string[]>,
+  negated: Span[]
+): { positive: string[]; negative: string[] } {
+  const positive: string[] = [];
+  const negative: string[] = [];
+
+  for (const [key, words] of Object.entries(keywords)) {
+    if (!words.length) continue;
+    let seen = false;
+    let seenPositive = false;
+    for (const m of text.matchAll(phraseRegExp(words, "gi"))) {
+      seen = true;
+      const at = m.index!;
+      if (!negated.some(([start, end]) => at >= start && at < end)) {
+        seenPositive = true;
+      }
+    }
+    if (seenPositive) positive.push(key);
+    else if (seen) negative.push(key);
+  }
+
+  return { positive, negative };
+}
+
+function hasSignal(intent: ParsedIntent): boolean {
+  return intent.confidence > 0 || intent.wantsExcursion || intent.isAffirmative || intent.isCorrection;
+}
+
+/**
+ * Parses a message with the lexicon for `options.locale` (or the device
+ * locale). When that finds nothing, the other registered lexicons are tried so
+ * a Spanish reply on an English phone still parses; `matches.lexicon` records
+ * which one was used.
+ */
+export function parseIntent(rawText: string, options: IntentParseOptions = {}): ParsedIntent {
+  const primary = resolveLocale(options.locale, getDeviceLocale());
+  const result = parseWithLexicon(rawText, getLexicon(primary), options);
+  if (hasSignal(result)) return result;
+
+  for (const locale of getRegisteredLocales()) {
+    if (locale === primary) continue;
+    const fallback = parseWithLexicon(rawText, getLexicon(locale), options);
+    if (hasSignal(fallback)) return fallback;
+  }
+
+  return result;
+}
+
+function parseWithLexicon(rawText: string, lexicon: IntentLexicon, options: IntentParseOptions): ParsedIntent {
+  const text = rawText.trim().replace(/[\u2018\u2019]/g, "'");
+  const lower = text.toLowerCase();
+  const negated = findNegatedSpans(text, lexicon);
+  const matches: Record<string, string> = { lexicon: lexicon.locale };
+  const fieldConfidence: Partial<Record<IntentField, number>> = {};
   let confidence = 0;
 
+  const now = options.now ?? new Date();
+  const timeText = translateTimeWords(text, lexicon);
+  const window = parseTimeWindow(timeText, { ...options, now });
+  const duration = parseDurationExpression(stripStartOffsets(timeText));
+
   let durationMinutes: number | undefined;
-  for (const p of DURATION_PATTERNS) {
-    const m = text.match(p.re);
-    if (m) {
-      durationMinutes = p.toMinutes(m);
-      matches.duration = m[0];
-      confidence += 0.5;
-      break;
-    }
+  let durationRange: ParsedIntent["durationRange"];
+  if (duration) {
+    durationMinutes = duration.minutes;
+    durationRange = { minMinutes: duration.minMinutes, maxMinutes: duration.maxMinutes };
+    matches.duration = duration.match;
+    fieldConfidence.durationMinutes = duration.confidence;
+    confidence += duration.confidence >= 0.7 ? 0.5 : 0.2;
+  } else if (window) {
+    // A deadline alone bounds the outing; how long it should be is still asked.
+    durationRange = durationRangeFromWindow(window, now);
   }
 
   let proximityBias: ProximityBias = "none";
   let proximityDistanceKm: number | undefined;
 
-  const within = text.match(WITHIN_DISTANCE_RE);
+  const { km, mi } = lexicon.distanceUnits;
+  const withinRe = new RegExp(
+    `(?:${phrasePattern(lexicon.withinWords)})\\s*(\\d+(?:[.,]\\d+)?)\\s*(${phrasePattern([...km, ...mi])})`,
+    "i"
+  );
+  const within = lexicon.withinWords.length ? text.match(withinRe) : null;
   if (within) {
-    const value = parseFloat(within[1]);
+    const value = parseFloat(within[1].replace(",", "."));
     const unit = within[2].toLowerCase();
-    proximityDistanceKm = unit.startsWith("mi") ? value * 1.60934 : value;
+    proximityDistanceKm = mi.includes(unit) ? value * 1.60934 : value;
     proximityBias = "within_distance";
     matches.proximity = within[0];
+    fieldConfidence.proximity = FIELD_CONFIDENCE.withinDistance;
     confidence += 0.25;
   } else {
-    for (const p of PROXIMITY_PATTERNS) {
-      if (p.re.test(text)) {
+    for (const p of lexicon.proximityPhrases) {
+      const found = text.match(phraseRegExp([p.phrase]));
+      if (found) {
         proximityBias = p.bias;
-        matches.proximity = text.match(p.re)?.[0] ?? "nearby";
+        matches.proximity = found[0];
+        fieldConfidence.proximity = FIELD_CONFIDENCE.proximity;
         confidence += 0.25;
         break;
       }
     }
   }
 
-  const activities: string[] = [];
-  for (const [activity, words] of Object.entries(ACTIVITY_KEYWORDS)) {
-    if (words.some((w) => new RegExp(`\\b${escapeRegExp(w)}\\b`, "i").test(text))) {
-      activities.push(activity);
-    }
+  let locationPreference: LocationPreference | undefined;
+  let specifiedLocation: string | undefined;
+
+  const suggestion = lexicon.suggestionPhrases.find((phrase) => lower.includes(phrase));
+  // Case-sensitive on purpose: the place name has to be capitalised.
+  const nameWord = "[A-Z\\u00C0-\\u00DE][\\w\\u00C0-\\u024F'-]+";
+  const connector = lexicon.placeNameConnectors.length ? `(?:(?:${phrasePattern(lexicon.placeNameConnectors)})\\s*)?` : "";
+  const namedPlaceRe = new RegExp(
+    `(?:${phrasePattern(lexicon.placePrepositions)})\\s+(?:(?:${phrasePattern(lexicon.articles)})\\s*)?` +
+      `(${nameWord}(?:\\s+${connector}${nameWord})*)`
+  );
+  const namedPlace = text.match(namedPlaceRe);
+  const specificPhrase = lexicon.specificLocationPhrases.find((phrase) => lower.includes(phrase));
+  if (suggestion) {
+    locationPreference = "ai_suggestions";
+    matches.locationPreference = suggestion;
+    fieldConfidence.locationPreference = FIELD_CONFIDENCE.explicitLocation;
+  } else if (namedPlace || specificPhrase) {
+    locationPreference = "specific";
+    specifiedLocation = namedPlace ? namedPlace[1] : text;
+    matches.locationPreference = namedPlace ? namedPlace[0] : specificPhrase!;
+    fieldConfidence.locationPreference = FIELD_CONFIDENCE.explicitLocation;
+  } else if (proximityBias !== "none") {
+    // A distance constraint without a named place means "pick something for me".
+    locationPreference = "ai_suggestions";
+    matches.locationPreference = matches.proximity;
+    fieldConfidence.locationPreference = FIELD_CONFIDENCE.impliedLocation;
   }
+
+  const { positive: activities, negative: excludedActivities } = classifyKeywords(text, lexicon.activities, negated);
   if (activities.length) {
     matches.activities = activities.join(", ");
+    fieldConfidence.activities = FIELD_CONFIDENCE.activities;
     confidence += 0.2;
   }
+  if (excludedActivities.length) {
+    matches.excludedActivities = excludedActivities.join(", ");
+    fieldConfidence.excludedActivities = FIELD_CONFIDENCE.excludedActivities;
+    confidence += 0.1;
+  }
 
   let difficulty: "easy" | "medium" | "hard" | undefined;
-  for (const [level, words] of Object.entries(DIFFICULTY_KEYWORDS)) {
-    if (words.some((w) => new RegExp(`\\b${escapeRegExp(w)}\\b`, "i").test(text))) {
-      difficulty = level as "easy" | "medium" | "hard";
-      matches.difficulty = level;
-      confidence += 0.1;
-      break;
-    }
+  const difficultyHits = classifyKeywords(text, lexicon.difficulty, negated);
+  if (difficultyHits.positive.length) {
+    difficulty = difficultyHits.positive[0] as "easy" | "medium" | "hard";
+    matches.difficulty = difficulty;
+    fieldConfidence.difficulty = FIELD_CONFIDENCE.difficulty;
+    confidence += 0.1;
+  } else if (difficultyHits.negative.includes("hard")) {
+    // "nothing too strenuous" / "not too hard"
+    difficulty = "easy";
+    matches.difficulty = "not hard";
+    fieldConfidence.difficulty = FIELD_CONFIDENCE.difficulty - 0.1;
+    confidence += 0.1;
+  } else if (difficultyHits.negative.includes("easy")) {
+    difficulty = "medium";
+    matches.difficulty = "not easy";
+    fieldConfidence.difficulty = FIELD_CONFIDENCE.difficulty - 0.1;
+    confidence += 0.1;
+  }
+
+  const avoidHits = classifyKeywords(text, lexicon.avoid, negated);
+  const avoid = new Set(avoidHits.negative);
+  for (const [key, words] of Object.entries(lexicon.avoidHints)) {
+    if (containsPhrase(text, words)) avoid.add(key);
+  }
+  if (avoid.size) {
+    matches.avoid = Array.from(avoid).join(", ");
+    fieldConfidence.avoid = FIELD_CONFIDENCE.avoid;
+    confidence += 0.1;
   }
 
   const therapeuticGoals: string[] = [];
-  for (const [goal, words] of Object.entries(THERAPEUTIC_GOAL_KEYWORDS)) {
-    if (words.some((w) => new RegExp(`\\b${escapeRegExp(w)}\\b`, "i").test(text))) {
+  for (const [goal, words] of Object.entries(lexicon.therapeuticGoals)) {
+    if (containsPhrase(text, words)) {
       therapeuticGoals.push(goal);
     }
   }
   if (therapeuticGoals.length) {
     matches.therapeuticGoals = therapeuticGoals.join(", ");
+    fieldConfidence.therapeuticGoals = FIELD_CONFIDENCE.therapeuticGoals;
     confidence += 0.15;
   }
 
+  let startTime: string | undefined;
+  let startAt: string | undefined;
+  let endBy: string | undefined;
+  if (window) {
+    startTime = window.label;
+    startAt = window.startAt?.toISOString();
+    endBy = window.endBy?.toISOString();
+    matches.startTime = window.match;
+    fieldConfidence.startTime = window.confidence;
+  }
+
+  const { positive: companions } = classifyKeywords(text, lexicon.companions, negated);
+  if (companions.length) {
+    matches.companions = companions.join(", ");
+    fieldConfidence.companions = FIELD_CONFIDENCE.companions;
+  }
+
+  const wantsExcursion =
+    classifyKeywords(text, { excursion: lexicon.excursionKeywords }, negated).positive.length > 0 ||
+    activities.some((a) => OUTDOOR_ACTIVITIES.includes(a));
+
+  const isAffirmative =
+    lexicon.affirmatives.length > 0 && new RegExp(`^(?:${phrasePattern(lexicon.affirmatives)})`, "i").test(text);
+
+  const isCorrection =
+    containsPhrase(text, lexicon.corrections) ||
+    (lexicon.refusals.length > 0 && new RegExp(`^(?:${phrasePattern(lexicon.refusals)})[,.!]?\\s`, "i").test(text));
+
   confidence = clamp01(confidence);
 
   return {
     rawText: text,
     durationMinutes,
+    durationRange,
     proximityBias,
     proximityDistanceKm,
+    locationPreference,
+    specifiedLocation,
     activities: activities.length ? activities : undefined,
+    excludedActivities: excludedActivities.length ? excludedActivities : undefined,
+    avoid: avoid.size ? Array.from(avoid) : undefined,
     difficulty,
     therapeuticGoals: therapeuticGoals.length ? therapeuticGoals : undefined,
+    startTime,
+    startAt,
+    endBy,
+    companions: companions.length ? companions : undefined,
+    wantsExcursion,
+    isAffirmative,
+    isCorrection,
     confidence,
+    fieldConfidence,
     matches,
   };
 }
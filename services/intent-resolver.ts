@@ -0,0 +1,200 @@
+import { aiRun } from './ai-api';
+import { parseIntent } from './intent-parser';
+import { parseTimeWindow } from './time-expressions';
+import type { AiResponse, IntentExtractResult } from '@/types/ai';
+import type {
+  IntentFallbackConfig,
+  IntentField,
+  IntentFlag,
+  IntentParseOptions,
+  IntentSource,
+  ParsedIntent,
+} from '@/types/intent';
+
+const envThreshold = Number(process.env.EXPO_PUBLIC_INTENT_MODEL_THRESHOLD);
+
+export const DEFAULT_INTENT_FALLBACK: IntentFallbackConfig = {
+  minRuleConfidence: Number.isFinite(envThreshold) && envThreshold > 0 ? envThreshold : 0.4,
+  fieldOverrideBelow: 0.5,
+  minModelConfidence: 0.6,
+  timeoutMs: 4000,
+};
+
+// Short replies ("ok", "no thanks") are handled well by the rules and not
+// worth a model round-trip.
+const MIN_FALLBACK_LENGTH = 12;
+
+// The ParsedIntent keys that make up each scored field; the first key is the
+// one the model's `fieldConfidence` is keyed by.
+const FIELD_KEYS: Record<IntentField, Array<keyof ParsedIntent>> = {
+  durationMinutes: ['durationMinutes'],
+  proximity: ['proximityBias', 'proximityDistanceKm'],
+  locationPreference: ['locationPreference', 'specifiedLocation'],
+  activities: ['activities'],
+  excludedActivities: ['excludedActivities'],
+  avoid: ['avoid'],
+  difficulty: ['difficulty'],
+  therapeuticGoals: ['therapeuticGoals'],
+  startTime: ['startTime'],
+  companions: ['companions'],
+};
+
+const FLAGS: IntentFlag[] = ['wantsExcursion', 'isAffirmative', 'isCorrection'];
+
+function isPresent(value: unknown): boolean {
+  if (value === undefined || value === null || value === 'none') return false;
+  return !(Array.isArray(value) && value.length === 0);
+}
+
+function shouldAskModel(rules: ParsedIntent, config: IntentFallbackConfig): boolean {
+  if (rules.confidence >= config.minRuleConfidence) return false;
+  if (rules.isAffirmative) return false;
+  return rules.rawText.length >= MIN_FALLBACK_LENGTH;
+}
+
+async function extractWithModel(
+  text: string,
+  options: IntentParseOptions,
+  timeoutMs: number
+): Promise<IntentExtractResult | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  let response: AiResponse<IntentExtractResult>;
+  try {
+    response = await aiRun<IntentExtractResult>({
+      action: 'intent_extract',
+      input: {
+        text,
+        locale: options.locale,
+        now: (options.now ?? new Date()).toISOString(),
+      },
+    }, { signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (controller.signal.aborted) {
+    console.warn('intent_extract timed out; using rules only');
+    return null;
+  }
+  if (!response.ok || !response.result) {
+    console.warn('intent_extract failed; using rules only:', response.error?.message);
+    return null;
+  }
+  return response.result;
+}
+
+/**
+ * Merges model output into the rules result. The model fills fields the rules
+ * missed and replaces rule fields below `fieldOverrideBelow` when it is more
+ * confident; everything else keeps the rules' value.
+ */
+export function mergeIntent(
+  rules: ParsedIntent,
+  model: IntentExtractResult,
+  config: IntentFallbackConfig = DEFAULT_INTENT_FALLBACK,
+  options: IntentParseOptions = {}
+): ParsedIntent {
+  const merged: ParsedIntent = {
+    ...rules,
+    fieldConfidence: { ...rules.fieldConfidence },
+    matches: { ...rules.matches },
+  };
+  const sources: NonNullable<ParsedIntent['sources']> = {};
+  const modelValues = model as Record<string, unknown>;
+  const modelConfidences: number[] = [];
+
+  for (const [field, keys] of Object.entries(FIELD_KEYS) as Array<[IntentField, Array<keyof ParsedIntent>]>) {
+    const rulesHas = isPresent(rules[keys[0]]);
+    const modelHas = isPresent(modelValues[keys[0]]);
+    const modelConfidence = model.fieldConfidence[keys[0]] ?? 0;
+    const rulesConfidence = rules.fieldConfidence[field] ?? 0;
+
+    const useModel =
+      modelHas &&
+      modelConfidence >= config.minModelConfidence &&
+      (!rulesHas || (rulesConfidence < config.fieldOverrideBelow && modelConfidence > rulesConfidence));
+
+    if (!useModel) {
+      if (rulesHas) sources[field] = 'rules';
+      continue;
+    }
+
+    const target = merged as Record<string, unknown>;
+    for (const key of keys) {
+      target[key] = modelValues[key];
+    }
+    merged.fieldConfidence[field] = modelConfidence;
+    merged.matches[field] = 'model';
+    sources[field] = 'model';
+    modelConfidences.push(modelConfidence);
+  }
+
+  if (sources.durationMinutes === 'model' && merged.durationMinutes !== undefined) {
+    merged.durationRange = { minMinutes: merged.durationMinutes, maxMinutes: merged.durationMinutes };
+  }
+
+  // The model only returns a label; resolve it to timestamps the same way the
+  // rules would have.
+  if (sources.startTime === 'model' && merged.startTime) {
+    const window = parseTimeWindow(merged.startTime, { ...options, now: options.now ?? new Date() });
+    merged.startAt = window?.startAt?.toISOString();
+    merged.endBy = window?.endBy?.toISOString();
+  }
+
+  // Flags only ever turn on from the model: a rules "false" may be a negation
+  // the rules understood ("I don't want to go outside").
+  for (const flag of FLAGS) {
+    if (rules[flag]) {
+      sources[flag] = 'rules';
+    } else if (model[flag] === true && (model.fieldConfidence[flag] ?? 0) >= config.minModelConfidence) {
+      merged[flag] = true;
+      sources[flag] = 'model';
+    }
+  }
+
+  if (modelConfidences.length) {
+    const modelAverage = modelConfidences.reduce((sum, c) => sum + c, 0) / modelConfidences.length;
+    merged.confidence = Math.max(rules.confidence, modelAverage);
+  }
+
+  merged.sources = sources;
+  return merged;
+}
+
+function withRuleSources(intent: ParsedIntent): ParsedIntent {
+  const sources: Partial<Record<IntentField | IntentFlag, IntentSource>> = {};
+  for (const [field, keys] of Object.entries(FIELD_KEYS) as Array<[IntentField, Array<keyof ParsedIntent>]>) {
+    if (isPresent(intent[keys[0]])) sources[field] = 'rules';
+  }
+  for (const flag of FLAGS) {
+    if (intent[flag]) sources[flag] = 'rules';
+  }
+  return { ...intent, sources };
+}
+
+/**
+ * Parses a message with the keyword rules and, when they are unsure, asks the
+ * `intent_extract` model to fill the gaps. Rules always run first and are the
+ * answer whenever the model is slow, unavailable or returns nothing usable.
+ */
+export async function resolveIntent(
+  text: string,
+  options: IntentParseOptions = {},
+  config: Partial<IntentFallbackConfig> = {}
+): Promise<ParsedIntent> {
+  const settings = { ...DEFAULT_INTENT_FALLBACK, ...config };
+  const rules = parseIntent(text, options);
+
+  if (!shouldAskModel(rules, settings)) {
+    return withRuleSources(rules);
+  }
+
+  const model = await extractWithModel(rules.rawText, options, settings.timeoutMs);
+  if (!model) {
+    return withRuleSources(rules);
+  }
+
+  return mergeIntent(rules, model, settings, options);
+}
@@ -0,0 +1,121 @@
+import { parseIntent } from './intent-parser';
+import { resolveIntent } from './intent-resolver';
+import { mergeSessionMetadataIfUnchanged, transitionToExcursionPlanning } from './phase-manager';
+import { advancePlanning, planningStateFromMetadata, planningStateToMetadata } from './planning-slots';
+import type { ConversationPhase } from './chat';
+import type { IntentParseOptions, ParsedIntent } from '@/types/intent';
+import type { PlanningState } from '@/types/planning';
+
+export interface IntentSessionRow {
+  assistant_type: string;
+  phase: ConversationPhase;
+  conversation_metadata: Record<string, unknown> | null;
+  updated_at: string;
+}
+
+export interface IntentTurnResult {
+  intent: ParsedIntent;
+  phase: ConversationPhase;
+  assistantType: string;
+  metadata: Record<string, unknown>;
+  planning: PlanningState | null;
+}
+
+// How many times a turn recomputes its planning state after another turn
+// saved the session first.
+const MAX_PLANNING_RETRIES = 3;
+
+function hasPlanningDetails(intent: ParsedIntent): boolean {
+  return (
+    intent.durationMinutes !== undefined ||
+    intent.locationPreference !== undefined ||
+    !!intent.activities?.length ||
+    !!intent.startTime
+  );
+}
+
+/**
+ * Whether an unsure rules parse is worth the blocking `intent_extract` call:
+ * while planning, and in `initial_chat` only once the rules already see the
+ * user heading that way. Everywhere else the rules-only parse is enough, so
+ * ordinary coach messages aren't held up by an extra model call.
+ */
+function shouldAskModel(phase: ConversationPhase, rules: ParsedIntent): boolean {
+  if (phase === 'excursion_planning') return true;
+  return phase === 'initial_chat' && (rules.wantsExcursion || hasPlanningDetails(rules));
+}
+
+/**
+ * Whether a turn in `initial_chat` should start excursion planning. Sessions
+ * opened from the excursion creator are already about planning, so concrete
+ * details ("45 minutes, surprise me") are enough there.
+ */
+function shouldStartPlanning(intent: ParsedIntent, assistantType: string): boolean {
+  if (intent.wantsExcursion) return true;
+  return assistantType === 'excursion_creator' && hasPlanningDetails(intent);
+}
+
+/**
+ * The single place a user message turns into session state: parses the
+ * intent, starts planning when appropriate, advances the planning slots and
+ * writes the result to `conversation_metadata`. Every chat surface goes
+ * through `sendMessage`, which calls this, so the same sentence produces the
+ * same plan wherever it is typed.
+ */
+export async function applyIntentTurn(
+  sessionId: string,
+  session: IntentSessionRow,
+  text: string,
+  options: IntentParseOptions = {}
+): Promise<IntentTurnResult> {
+  let row = session;
+
+  const rules = parseIntent(text, options);
+  const intent = shouldAskModel(row.phase, rules) ? await resolveIntent(text, options) : rules;
+
+  if (row.phase === 'initial_chat' && shouldStartPlanning(intent, row.assistant_type)) {
+    const transitionResult = await transitionToExcursionPlanning(sessionId);
+
+    if (transitionResult.success && transitionResult.session) {
+      row = transitionResult.session;
+    } else {
+      console.error('Phase transition failed:', transitionResult.error);
+    }
+  }
+
+  let metadata: Record<string, unknown> = row.conversation_metadata || {};
+  let planning: PlanningState | null = null;
+
+  // The slots are saved only if nothing else wrote the session since it was
+  // read; otherwise the turn is applied again to what the other write left.
+  for (let attempt = 0; row.phase === 'excursion_planning'; attempt++) {
+    metadata = row.conversation_metadata || {};
+    planning = advancePlanning(planningStateFromMetadata(metadata), intent);
+    const updates = planningStateToMetadata(planning);
+
+    const result = await mergeSessionMetadataIfUnchanged(sessionId, updates, row.updated_at);
+    if (result.success && result.session) {
+      metadata = result.session.conversation_metadata;
+      break;
+    }
+
+    if (result.errorCode !== 'STALE_SESSION' || !result.session || attempt >= MAX_PLANNING_RETRIES) {
+      console.error('Saving planning state failed:', result.error);
+      metadata = { ...metadata, ...updates };
+      break;
+    }
+
+    // Another turn may have moved the session out of planning meanwhile.
+    row = result.session;
+    metadata = row.conversation_metadata || {};
+    planning = null;
+  }
+
+  return {
+    intent,
+    phase: row.phase,
+    assistantType: row.assistant_type,
+    metadata,
+    planning,
+  };
+}
@@ -0,0 +1,151 @@
+import { IntentLexicon } from "@/types/intent";
+
+export const en: IntentLexicon = {
+  locale: "en",
+
+  proximityPhrases: [
+    { phrase: "near here", bias: "near_here" },
+    { phrase: "nearby", bias: "nearby" },
+    { phrase: "close by", bias: "nearby" },
+  ],
+  withinWords: ["within"],
+  distanceUnits: {
+    km: ["km", "kilometers", "kilometres"],
+    mi: ["mi", "miles"],
+  },
+
+  suggestionPhrases: [
+    "surprise me",
+    "you choose",
+    "you pick",
+    "give me options",
+    "show me options",
+    "suggest",
+    "recommend",
+    "anywhere",
+    "don't care",
+    "whatever",
+  ],
+  specificLocationPhrases: ["i know a place", "specific place", "trail called", "park called"],
+  placePrepositions: ["at", "to", "near"],
+  articles: ["the"],
+  placeNameConnectors: ["of", "of the", "on the"],
+
+  excursionKeywords: [
+    "excursion",
+    "outdoor",
+    "outdoors",
+    "explore",
+    "get outside",
+    "go outside",
+    "nature spot",
+    "nature walk",
+    "nature experience",
+  ],
+  affirmatives: [
+    "yes",
+    "yeah",
+    "sure",
+    "ok",
+    "okay",
+    "please",
+    "go ahead",
+    "show me",
+    "let me see",
+    "sounds good",
+    "perfect",
+    "great",
+    "yep",
+    "yup",
+    "absolutely",
+    "definitely",
+    "of course",
+  ],
+  corrections: ["actually", "instead", "make it", "change it to", "rather", "scratch that", "on second thought"],
+  refusals: ["no"],
+
+  activities: {
+    Hiking: ["hike", "hiking", "trail", "trek"],
+    Walking: ["walk", "walking", "stroll"],
+    Meditation: ["meditate", "meditation", "breathing", "mindfulness"],
+    Biking: ["bike", "biking", "cycle", "cycling"],
+    Running: ["run", "running", "jog"],
+  },
+  difficulty: {
+    easy: ["easy", "gentle", "simple", "relaxing", "calm"],
+    medium: ["moderate", "medium", "regular"],
+    hard: ["challenging", "hard", "difficult", "intense", "strenuous"],
+  },
+  therapeuticGoals: {
+    "reduce stress": ["stress", "stressed", "destress", "de-stress", "tense", "tension"],
+    "improve mood": ["anxious", "anxiety", "sad", "mood", "depression"],
+    "boost energy": ["tired", "fatigue", "energy", "energize"],
+    "improve sleep": ["sleep", "insomnia", "rest"],
+    "increase focus": ["focus", "concentration", "distracted"],
+    relax: ["relax", "relaxation", "unwind", "decompress"],
+  },
+  companions: {
+    dog: ["dog", "dogs", "puppy", "pup"],
+    kids: ["kid", "kids", "children", "son", "daughter"],
+    partner: ["partner", "wife", "husband", "girlfriend", "boyfriend"],
+    friends: ["friend", "friends"],
+    solo: ["alone", "solo", "by myself", "on my own"],
+  },
+  avoid: {
+    hills: ["hill", "hills", "hilly", "steep", "incline", "climb", "climbing", "elevation"],
+    crowds: ["crowd", "crowds", "crowded", "busy", "people", "tourists"],
+    traffic: ["traffic", "road", "roads", "cars"],
+    mud: ["mud", "muddy"],
+    stairs: ["stairs", "steps"],
+    noise: ["noise", "noisy", "loud"],
+    heat: ["heat", "hot", "sun"],
+  },
+  avoidHints: {
+    hills: ["flat", "level"],
+    crowds: ["quiet", "secluded", "empty"],
+  },
+
+  negationCues: [
+    "don't",
+    "dont",
+    "do not",
+    "doesn't",
+    "does not",
+    "not",
+    "no",
+    "never",
+    "nothing",
+    "without",
+    "avoid",
+    "avoiding",
+    "skip",
+    "skipping",
+    "rather than",
+    "instead of",
+    "away from",
+    "hate",
+    "can't",
+    "cannot",
+    "won't",
+  ],
+  clauseBoundaries: [
+    "but",
+    "just",
+    "only",
+    "instead",
+    "rather",
+    "though",
+    "although",
+    "however",
+    "except",
+    "so",
+    "prefer",
+    "maybe",
+    "let's",
+    "lets",
+    "i'd like",
+    "i want",
+  ],
+
+  timeWords: {},
+};
@@ -0,0 +1,147 @@
+import { IntentLexicon } from "@/types/intent";
+
+export const es: IntentLexicon = {
+  locale: "es",
+
+  proximityPhrases: [
+    { phrase: "por aquí", bias: "near_here" },
+    { phrase: "cerca de aquí", bias: "near_here" },
+    { phrase: "cerca", bias: "nearby" },
+    { phrase: "cercano", bias: "nearby" },
+  ],
+  withinWords: ["a menos de", "dentro de", "en un radio de"],
+  distanceUnits: {
+    km: ["km", "kilómetros", "kilometros"],
+    mi: ["mi", "millas"],
+  },
+
+  suggestionPhrases: [
+    "sorpréndeme",
+    "sorprendeme",
+    "tú eliges",
+    "elige tú",
+    "dame opciones",
+    "muéstrame opciones",
+    "sugiere",
+    "sugiéreme",
+    "recomienda",
+    "recomiéndame",
+    "donde sea",
+    "me da igual",
+    "lo que sea",
+  ],
+  specificLocationPhrases: ["conozco un lugar", "un lugar concreto", "sendero llamado", "parque llamado"],
+  placePrepositions: ["en", "a", "al", "cerca de"],
+  articles: ["el", "la", "los", "las"],
+  placeNameConnectors: ["de", "del", "de la", "de los", "de las"],
+
+  excursionKeywords: [
+    "excursión",
+    "excursion",
+    "al aire libre",
+    "explorar",
+    "salir",
+    "naturaleza",
+    "paseo por la naturaleza",
+  ],
+  affirmatives: [
+    "sí",
+    "si",
+    "claro",
+    "vale",
+    "ok",
+    "de acuerdo",
+    "por favor",
+    "adelante",
+    "muéstrame",
+    "perfecto",
+    "genial",
+    "suena bien",
+    "por supuesto",
+    "exacto",
+  ],
+  corrections: ["en realidad", "mejor", "en vez", "cámbialo a", "pensándolo bien", "olvida eso"],
+  refusals: ["no"],
+
+  activities: {
+    Hiking: ["senderismo", "caminata", "excursionismo", "sendero", "ruta"],
+    Walking: ["caminar", "paseo", "pasear", "andar"],
+    Meditation: ["meditar", "meditación", "respiración", "mindfulness"],
+    Biking: ["bici", "bicicleta", "ciclismo", "pedalear"],
+    Running: ["correr", "carrera", "trotar"],
+  },
+  difficulty: {
+    easy: ["fácil", "facil", "suave", "tranquilo", "tranquila", "sencillo", "relajado"],
+    medium: ["moderado", "moderada", "intermedio", "normal"],
+    hard: ["difícil", "dificil", "exigente", "duro", "dura", "intenso", "intensa"],
+  },
+  therapeuticGoals: {
+    "reduce stress": ["estrés", "estres", "estresado", "estresada", "tensión", "tenso", "tensa"],
+    "improve mood": ["ansioso", "ansiosa", "ansiedad", "triste", "ánimo", "depresión"],
+    "boost energy": ["cansado", "cansada", "fatiga", "energía"],
+    "improve sleep": ["dormir", "sueño", "insomnio", "descansar"],
+    "increase focus": ["concentración", "concentrarme", "enfocarme", "distraído", "distraída"],
+    relax: ["relajarme", "relajar", "relajación", "desconectar"],
+  },
+  companions: {
+    dog: ["perro", "perros", "perrito", "cachorro"],
+    kids: ["niño", "niños", "niña", "niñas", "hijos", "hijo", "hija"],
+    partner: ["pareja", "esposa", "esposo", "novia", "novio", "marido", "mujer"],
+    friends: ["amigo", "amigos", "amiga", "amigas"],
+    solo: ["sola", "yo solo", "yo sola", "por mi cuenta"],
+  },
+  avoid: {
+    hills: ["colina", "colinas", "cuesta", "cuestas", "pendiente", "empinado", "subida", "subidas", "desnivel"],
+    crowds: ["gente", "multitud", "multitudes", "lleno", "concurrido", "turistas"],
+    traffic: ["tráfico", "trafico", "carretera", "coches", "autos"],
+    mud: ["barro", "lodo", "embarrado"],
+    stairs: ["escaleras", "escalones"],
+    noise: ["ruido", "ruidoso"],
+    heat: ["calor", "sol"],
+  },
+  avoidHints: {
+    hills: ["llano", "plano"],
+    crowds: ["tranquilo", "tranquila", "apartado", "solitario"],
+  },
+
+  negationCues: ["no", "nada", "nunca", "sin", "evitar", "evita", "en vez de", "en lugar de", "lejos de", "odio"],
+  clauseBoundaries: ["pero", "sino", "solo", "sólo", "mejor", "aunque", "prefiero", "quizás", "vamos"],
+
+  timeWords: {
+    "una hora y media": "an hour and a half",
+    "hora y media": "an hour and a half",
+    "media hora": "half an hour",
+    "un cuarto de hora": "a quarter hour",
+    "cuarto de hora": "quarter hour",
+    "un par de": "a couple of",
+    "una hora": "an hour",
+    horas: "hours",
+    hora: "hour",
+    minutos: "minutes",
+    minuto: "minute",
+    "alrededor de": "around",
+    unos: "about",
+    unas: "about",
+    "mañana por la mañana": "tomorrow morning",
+    "esta mañana": "this morning",
+    "por la mañana": "morning",
+    "esta tarde": "this afternoon",
+    "por la tarde": "afternoon",
+    "esta noche": "tonight",
+    mañana: "tomorrow",
+    hoy: "today",
+    ahora: "now",
+    "hasta el atardecer": "until sunset",
+    "antes del atardecer": "before sunset",
+    "antes de que oscurezca": "before dark",
+    "al amanecer": "at sunrise",
+    "antes de comer": "before lunch",
+    "después de comer": "after lunch",
+    "antes de cenar": "before dinner",
+    "después del trabajo": "after work",
+    "fin de semana": "weekend",
+    en: "in",
+    dos: "2",
+    tres: "3",
+  },
+};
@@ -0,0 +1,140 @@
+import { IntentLexicon } from "@/types/intent";
+
+export const fr: IntentLexicon = {
+  locale: "fr",
+
+  proximityPhrases: [
+    { phrase: "près d'ici", bias: "near_here" },
+    { phrase: "pas loin d'ici", bias: "near_here" },
+    { phrase: "à proximité", bias: "nearby" },
+    { phrase: "dans le coin", bias: "nearby" },
+    { phrase: "pas loin", bias: "nearby" },
+  ],
+  withinWords: ["à moins de", "dans un rayon de"],
+  distanceUnits: {
+    km: ["km", "kilomètres", "kilometres"],
+    mi: ["mi", "miles"],
+  },
+
+  suggestionPhrases: [
+    "surprends-moi",
+    "surprenez-moi",
+    "tu choisis",
+    "choisis pour moi",
+    "donne-moi des options",
+    "propose",
+    "proposez",
+    "suggère",
+    "recommande",
+    "n'importe où",
+    "peu importe",
+  ],
+  specificLocationPhrases: ["je connais un endroit", "un endroit précis", "sentier appelé", "parc appelé"],
+  placePrepositions: ["à", "au", "vers", "près de"],
+  articles: ["le", "la", "les", "l'"],
+  placeNameConnectors: ["de", "du", "des", "de la", "d'"],
+
+  excursionKeywords: ["excursion", "sortie", "plein air", "dehors", "explorer", "sortir", "nature", "balade en nature"],
+  affirmatives: [
+    "oui",
+    "ouais",
+    "d'accord",
+    "ok",
+    "bien sûr",
+    "s'il te plaît",
+    "s'il vous plaît",
+    "vas-y",
+    "allez-y",
+    "montre-moi",
+    "parfait",
+    "super",
+    "génial",
+    "ça me va",
+    "absolument",
+    "carrément",
+  ],
+  corrections: ["en fait", "plutôt", "finalement", "change pour", "à la réflexion", "oublie ça"],
+  refusals: ["non"],
+
+  activities: {
+    Hiking: ["randonnée", "randonnee", "rando", "sentier", "trek"],
+    Walking: ["marcher", "marche", "balade", "promenade", "promener"],
+    Meditation: ["méditer", "méditation", "respiration", "pleine conscience"],
+    Biking: ["vélo", "velo", "cyclisme", "pédaler"],
+    Running: ["courir", "course", "footing", "jogging"],
+  },
+  difficulty: {
+    easy: ["facile", "douce", "doux", "tranquille", "simple", "calme", "reposant"],
+    medium: ["modéré", "modérée", "moyen", "moyenne", "normal"],
+    hard: ["difficile", "dur", "dure", "exigeant", "exigeante", "intense", "sportif", "sportive"],
+  },
+  therapeuticGoals: {
+    "reduce stress": ["stress", "stressé", "stressée", "déstresser", "tendu", "tendue", "tension"],
+    "improve mood": ["anxieux", "anxieuse", "anxiété", "triste", "moral", "déprimé", "déprimée"],
+    "boost energy": ["fatigué", "fatiguée", "fatigue", "énergie"],
+    "improve sleep": ["dormir", "sommeil", "insomnie", "repos"],
+    "increase focus": ["concentration", "concentrer", "distrait", "distraite"],
+    relax: ["détendre", "détente", "relaxer", "décompresser"],
+  },
+  companions: {
+    dog: ["chien", "chiens", "chiot"],
+    kids: ["enfant", "enfants", "fils", "fille", "gamins"],
+    partner: ["partenaire", "femme", "mari", "copine", "copain", "conjoint", "conjointe"],
+    friends: ["ami", "amis", "amie", "amies", "potes"],
+    solo: ["seul", "seule", "tout seul", "toute seule"],
+  },
+  avoid: {
+    hills: ["colline", "collines", "côte", "côtes", "pente", "pentes", "raide", "montée", "dénivelé"],
+    crowds: ["foule", "monde", "bondé", "bondée", "touristes"],
+    traffic: ["circulation", "route", "routes", "voitures"],
+    mud: ["boue", "boueux"],
+    stairs: ["escaliers", "marches"],
+    noise: ["bruit", "bruyant"],
+    heat: ["chaleur", "soleil"],
+  },
+  avoidHints: {
+    hills: ["plat", "plate"],
+    crowds: ["tranquille", "isolé", "isolée", "calme"],
+  },
+
+  negationCues: ["ne", "n'", "pas", "jamais", "rien", "sans", "éviter", "évite", "au lieu de", "plutôt que", "loin de", "déteste"],
+  clauseBoundaries: ["mais", "juste", "seulement", "plutôt", "sauf", "pourtant", "je préfère", "peut-être", "je veux", "on"],
+
+  timeWords: {
+    "une heure et demie": "an hour and a half",
+    "heure et demie": "an hour and a half",
+    "une demi-heure": "half an hour",
+    "demi-heure": "half an hour",
+    "un quart d'heure": "a quarter hour",
+    "quart d'heure": "quarter hour",
+    "une heure": "an hour",
+    "deux heures": "2 hours",
+    heures: "hours",
+    heure: "hour",
+    minutes: "minutes",
+    minute: "minute",
+    environ: "about",
+    vers: "around",
+    "demain matin": "tomorrow morning",
+    "ce matin": "this morning",
+    "le matin": "morning",
+    "cet après-midi": "this afternoon",
+    "l'après-midi": "afternoon",
+    "ce soir": "this evening",
+    demain: "tomorrow",
+    "aujourd'hui": "today",
+    maintenant: "now",
+    "jusqu'au coucher du soleil": "until sunset",
+    "avant le coucher du soleil": "before sunset",
+    "avant la nuit": "before dark",
+    "au lever du soleil": "at sunrise",
+    "avant le déjeuner": "before lunch",
+    "après le déjeuner": "after lunch",
+    "avant le dîner": "before dinner",
+    "après le travail": "after work",
+    "ce week-end": "this weekend",
+    dans: "in",
+    deux: "2",
+    trois: "3",
+  },
+};
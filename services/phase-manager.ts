@@ -1,8 +1,10 @@
 import { supabase } from './supabase';
-import type { ConversationPhase } from './chat';
+import type { ChatSession, ConversationPhase } from './chat';
 
 export interface PhaseTransitionResult {
   success: boolean;
+  /** The session after the transition. */
+  session?: ChatSession;
   error?: string;
   errorCode?: string;
 }
@@ -20,6 +22,11 @@ export function getAssistantForPhase(phase: ConversationPhase): 'health_coach' |
   }
 }
 
+/**
+ * The transition graph. The database enforces the same graph
+ * (`chat_phase_transitions`); this copy lets screens check a move before
+ * making it.
+ */
 export function canTransition(fromPhase: ConversationPhase, toPhase: ConversationPhase): boolean {
   const validTransitions: Record<ConversationPhase, ConversationPhase[]> = {
     initial_chat: ['excursion_planning'],
@@ -32,174 +39,202 @@ export function canTransition(fromPhase: ConversationPhase, toPhase: Conversatio
   return validTransitions[fromPhase]?.includes(toPhase) || false;
 }
 
-export async function transitionToExcursionPlanning(sessionId: string): Promise<PhaseTransitionResult> {
-  const { error } = await supabase
-    .from('chat_sessions')
-    .update({
-      phase: 'excursion_planning',
-      assistant_type: 'excursion_creator',
-      conversation_metadata: {
-        excursion_step: 'collecting_requirements',
-        duration_minutes: null,
-        location_preference: null,
-        asked_confirmation: false,
-      },
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', sessionId);
-
-  if (error) {
-    const isConstraintViolation = error.code === '23514' || error.message?.includes('violates check constraint');
-    console.error('Error transitioning to excursion_planning:', {
-      code: error.code,
-      message: error.message,
-      details: error.details,
-      hint: error.hint,
-    });
-    return {
-      success: false,
-      error: isConstraintViolation
-        ? 'Database schema mismatch: phase value not allowed'
-        : error.message,
-      errorCode: error.code,
-    };
-  }
+// Raised by the chat session functions; see the migration that adds them.
+const RPC_ERROR_CODES: Record<string, string> = {
+  NU404: 'SESSION_NOT_FOUND',
+  NU409: 'ILLEGAL_TRANSITION',
+  NU412: 'STALE_SESSION',
+};
+
+interface RpcError {
+  code?: string;
+  message: string;
+  details?: string | null;
+  hint?: string | null;
+}
 
-  return { success: true };
+function rpcFailure(action: string, error: RpcError): PhaseTransitionResult {
+  const isConstraintViolation = error.code === '23514' || error.message?.includes('violates check constraint');
+  console.error(`Error ${action}:`, {
+    code: error.code,
+    message: error.message,
+    details: error.details,
+    hint: error.hint,
+  });
+  return {
+    success: false,
+    error: isConstraintViolation
+      ? 'Database schema mismatch: phase value not allowed'
+      : error.message,
+    errorCode: (error.code && RPC_ERROR_CODES[error.code]) || error.code,
+  };
 }
 
-export async function transitionToExcursionCreation(
+/**
+ * Moves a session to `toPhase` in one database call (`transition_chat_session`),
+ * replacing its metadata. The database rejects moves outside the transition
+ * graph with `ILLEGAL_TRANSITION`, whatever this client believes the current
+ * phase is. `excursionId` scopes the session to an excursion; moving back to
+ * `initial_chat` clears it.
+ */
+export async function transitionSessionPhase(
   sessionId: string,
-  excursionId: string
-): Promise<boolean> {
-  const { error } = await supabase
-    .from('chat_sessions')
-    .update({
-      phase: 'excursion_creation',
-      assistant_type: 'excursion_creator',
-      excursion_id: excursionId,
-      conversation_metadata: {
-        excursion_id: excursionId,
-        modification_count: 0,
-      },
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', sessionId);
+  toPhase: ConversationPhase,
+  metadata: Record<string, unknown>,
+  excursionId?: string
+): Promise<PhaseTransitionResult> {
+  const { data, error } = await supabase.rpc('transition_chat_session', {
+    p_session_id: sessionId,
+    p_to_phase: toPhase,
+    p_assistant_type: getAssistantForPhase(toPhase),
+    p_metadata: metadata,
+    p_excursion_id: excursionId ?? null,
+  });
 
   if (error) {
-    console.error('Error transitioning to excursion_creation:', error);
-    return false;
+    return rpcFailure(`transitioning to ${toPhase}`, error);
   }
 
-  return true;
+  return { success: true, session: data as ChatSession };
 }
 
-export async function transitionToExcursionGuiding(
+/**
+ * Merges `patch` into the session's `conversation_metadata` and adds
+ * `increments` to numeric keys, atomically on the server
+ * (`merge_chat_session_metadata`), so concurrent turns can't overwrite each
+ * other. Resolves to the updated session, or null on failure.
+ */
+export async function mergeSessionMetadata(
   sessionId: string,
-  excursionId: string
-): Promise<boolean> {
-  const { error } = await supabase
-    .from('chat_sessions')
-    .update({
-      phase: 'excursion_guiding',
-      assistant_type: 'excursion_creator',
-      excursion_id: excursionId,
-      conversation_metadata: {
-        excursion_id: excursionId,
-        start_time: new Date().toISOString(),
-        current_step: 0,
-        completion_percentage: 0,
-      },
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', sessionId);
+  patch: Record<string, unknown>,
+  increments: Record<string, number> = {}
+): Promise<ChatSession | null> {
+  const { data, error } = await supabase.rpc('merge_chat_session_metadata', {
+    p_session_id: sessionId,
+    p_patch: patch,
+    p_increments: increments,
+  });
 
   if (error) {
-    console.error('Error transitioning to excursion_guiding:', error);
-    return false;
+    rpcFailure('merging session metadata', error);
+    return null;
   }
 
-  return true;
+  return data as ChatSession;
 }
 
-export async function transitionToPostExcursion(
+/**
+ * Like `mergeSessionMetadata`, but only while the session's `updated_at` is
+ * still `expectedUpdatedAt`, for patches computed from what the session held
+ * at that point. When another write got there first it fails with
+ * `STALE_SESSION` and returns the session as it is now, to recompute from.
+ */
+export async function mergeSessionMetadataIfUnchanged(
   sessionId: string,
-  excursionId: string
-): Promise<boolean> {
-  const { error } = await supabase
-    .from('chat_sessions')
-    .update({
-      phase: 'post_excursion_followup',
-      assistant_type: 'health_coach',
-      conversation_metadata: {
-        excursion_id: excursionId,
-        completed_at: new Date().toISOString(),
-        feedback_collected: false,
-      },
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', sessionId);
-
-  if (error) {
-    console.error('Error transitioning to post_excursion_followup:', error);
-    return false;
+  patch: Record<string, unknown>,
+  expectedUpdatedAt: string
+): Promise<PhaseTransitionResult> {
+  const { data, error } = await supabase.rpc('merge_chat_session_metadata', {
+    p_session_id: sessionId,
+    p_patch: patch,
+    p_expected_updated_at: expectedUpdatedAt,
+  });
+
+  if (!error) {
+    return { success: true, session: data as ChatSession };
   }
 
-  return true;
-}
+  if (error.code !== 'NU412') {
+    return rpcFailure('merging session metadata', error);
+  }
 
-export async function transitionToInitialChat(sessionId: string): Promise<boolean> {
-  const { error } = await supabase
+  const { data: current, error: fetchError } = await supabase
     .from('chat_sessions')
-    .update({
-      phase: 'initial_chat',
-      assistant_type: 'health_coach',
-      excursion_id: null,
-      conversation_metadata: {},
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', sessionId);
+    .select('*')
+    .eq('id', sessionId)
+    .maybeSingle();
 
-  if (error) {
-    console.error('Error transitioning to initial_chat:', error);
-    return false;
+  if (fetchError) {
+    console.error('Error fetching session:', fetchError);
   }
 
-  return true;
+  return {
+    success: false,
+    session: current ?? undefined,
+    error: error.message,
+    errorCode: 'STALE_SESSION',
+  };
+}
+
+export async function transitionToExcursionPlanning(sessionId: string): Promise<PhaseTransitionResult> {
+  return transitionSessionPhase(sessionId, 'excursion_planning', {
+    excursion_step: 'collecting_requirements',
+    duration_minutes: null,
+    location_preference: null,
+    asked_confirmation: false,
+  });
 }
 
-export async function updatePhaseMetadata(
+export async function transitionToExcursionCreation(
   sessionId: string,
-  metadata: Record<string, unknown>
-): Promise<boolean> {
-  const { data: session, error: fetchError } = await supabase
-    .from('chat_sessions')
-    .select('conversation_metadata')
-    .eq('id', sessionId)
-    .maybeSingle();
+  excursionId: string
+): Promise<PhaseTransitionResult> {
+  return transitionSessionPhase(
+    sessionId,
+    'excursion_creation',
+    {
+      excursion_id: excursionId,
+      modification_count: 0,
+    },
+    excursionId
+  );
+}
 
-  if (fetchError || !session) {
-    console.error('Error fetching session for metadata update:', fetchError);
-    return false;
-  }
+export async function transitionToExcursionGuiding(
+  sessionId: string,
+  excursionId: string
+): Promise<PhaseTransitionResult> {
+  return transitionSessionPhase(
+    sessionId,
+    'excursion_guiding',
+    {
+      excursion_id: excursionId,
+      start_time: new Date().toISOString(),
+      current_step: 0,
+      completion_percentage: 0,
+    },
+    excursionId
+  );
+}
 
-  const updatedMetadata = {
-    ...(session.conversation_metadata || {}),
-    ...metadata,
-  };
+/** How the excursion went, kept on the session for the post-excursion coach. */
+export interface ExcursionOutcome {
+  elapsed_minutes: number;
+  steps_completed: number;
+  total_steps: number;
+  /** 1-5; absent when the user skipped feedback. */
+  rating?: number;
+  feedback_text?: string;
+}
 
-  const { error: updateError } = await supabase
-    .from('chat_sessions')
-    .update({
-      conversation_metadata: updatedMetadata,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', sessionId);
-
-  if (updateError) {
-    console.error('Error updating phase metadata:', updateError);
-    return false;
-  }
+export async function transitionToPostExcursion(
+  sessionId: string,
+  excursionId: string,
+  outcome?: ExcursionOutcome
+): Promise<PhaseTransitionResult> {
+  return transitionSessionPhase(
+    sessionId,
+    'post_excursion_followup',
+    {
+      excursion_id: excursionId,
+      completed_at: new Date().toISOString(),
+      feedback_collected: outcome?.rating !== undefined,
+      ...(outcome ? { outcome } : {}),
+    },
+    excursionId
+  );
+}
 
-  return true;
+export async function transitionToInitialChat(sessionId: string): Promise<PhaseTransitionResult> {
+  return transitionSessionPhase(sessionId, 'initial_chat', {});
 }
@@ -0,0 +1,294 @@
+import type { IntentField, ParsedIntent } from '@/types/intent';
+import type {
+  PlanningAction,
+  PlanningSlots,
+  PlanningState,
+  SlotDefinition,
+  SlotName,
+  SlotValue,
+} from '@/types/planning';
+
+export const SLOT_SCHEMA: Record<SlotName, SlotDefinition> = {
+  duration: { required: true, prompt: false, topic: 'how much time they have' },
+  location: {
+    required: true,
+    prompt: false,
+    topic: 'whether they have a place in mind or want you to suggest options',
+  },
+  activities: { required: false, prompt: true, topic: 'what kind of activity sounds good (walking, hiking, sitting quietly)' },
+  excludedActivities: { required: false, prompt: false, topic: 'anything they would rather not do' },
+  avoid: { required: false, prompt: false, topic: 'anything they want to stay away from (hills, crowds)' },
+  difficulty: { required: false, prompt: false, topic: 'how easy or challenging it should be' },
+  goals: { required: false, prompt: false, topic: 'what they would like to get out of it' },
+  startTime: { required: false, prompt: false, topic: 'when they want to head out' },
+  companions: { required: false, prompt: false, topic: 'whether anyone is coming along' },
+};
+
+const INTENT_FIELD_FOR_SLOT: Record<SlotName, IntentField> = {
+  duration: 'durationMinutes',
+  location: 'locationPreference',
+  activities: 'activities',
+  excludedActivities: 'excludedActivities',
+  avoid: 'avoid',
+  difficulty: 'difficulty',
+  goals: 'therapeuticGoals',
+  startTime: 'startTime',
+  companions: 'companions',
+};
+
+const SLOT_ORDER: SlotName[] = [
+  'duration',
+  'location',
+  'activities',
+  'excludedActivities',
+  'avoid',
+  'difficulty',
+  'goals',
+  'startTime',
+  'companions',
+];
+
+// After this many unanswered asks a required slot falls back to its default,
+// so the conversation can never loop on the same question.
+const MAX_ASKS_PER_SLOT = 2;
+
+const DEFAULT_DURATION_MINUTES = 30;
+
+export function createPlanningState(): PlanningState {
+  return {
+    slots: {},
+    stage: 'collecting',
+    turn: 0,
+    askCounts: {},
+    next: { kind: 'ask', slot: 'duration', topic: SLOT_SCHEMA.duration.topic },
+  };
+}
+
+/**
+ * Restores the planning state from session metadata. Sessions that were seeded
+ * with flat keys (e.g. `duration_minutes` from the home screen) are upgraded.
+ */
+export function planningStateFromMetadata(metadata: Record<string, unknown>): PlanningState {
+  const stored = metadata.planning as PlanningState | undefined;
+  if (stored && stored.slots) {
+    return stored;
+  }
+
+  const state = createPlanningState();
+  const seed = (value: unknown) => ({ value, confidence: 0.9, source: 'user' as const, updatedTurn: 0 });
+
+  if (typeof metadata.duration_minutes === 'number') {
+    state.slots.duration = seed(metadata.duration_minutes) as SlotValue<number>;
+  }
+  if (typeof metadata.location_preference === 'string') {
+    state.slots.location = seed(
+      metadata.location_preference === 'ai_suggestions'
+        ? { preference: 'ai_suggestions' }
+        : { preference: 'specific', name: metadata.location_preference }
+    ) as PlanningSlots['location'];
+  }
+  if (Array.isArray(metadata.activities_mentioned)) {
+    state.slots.activities = seed(metadata.activities_mentioned) as SlotValue<string[]>;
+  }
+  if (Array.isArray(metadata.activities_excluded)) {
+    state.slots.excludedActivities = seed(metadata.activities_excluded) as SlotValue<string[]>;
+  }
+  if (Array.isArray(metadata.avoid)) {
+    state.slots.avoid = seed(metadata.avoid) as SlotValue<string[]>;
+  }
+  if (Array.isArray(metadata.therapeutic_goals_mentioned)) {
+    state.slots.goals = seed(metadata.therapeutic_goals_mentioned) as SlotValue<string[]>;
+  }
+
+  return state;
+}
+
+function isSlotFilled(slots: PlanningSlots, slot: SlotName): boolean {
+  return slots[slot] !== undefined;
+}
+
+/**
+ * Merges one parsed user turn into the slots. A correction ("actually make it
+ * 30 minutes") always overwrites; otherwise a value only replaces a stored one
+ * of equal or lower confidence, and list slots accumulate.
+ */
+export function applyIntent(state: PlanningState, intent: ParsedIntent): PlanningState {
+  const turn = state.turn + 1;
+  const slots: PlanningSlots = { ...state.slots };
+  let changed = false;
+
+  const write = <K extends SlotName>(slot: K, value: NonNullable<PlanningSlots[K]>['value'], confidence?: number) => {
+    if (confidence === undefined) return;
+    const current = slots[slot];
+    if (current && !intent.isCorrection && confidence < current.confidence) return;
+    const source = intent.sources?.[INTENT_FIELD_FOR_SLOT[slot]] === 'model' ? 'model' : 'user';
+    slots[slot] = { value, confidence, source, updatedTurn: turn } as PlanningSlots[K];
+    changed = true;
+  };
+
+  const mergeList = (slot: 'activities' | 'excludedActivities' | 'avoid' | 'goals' | 'companions', values: string[]) => {
+    const current = slots[slot];
+    if (!current || intent.isCorrection) return values;
+    return Array.from(new Set([...current.value, ...values]));
+  };
+
+  const fc = intent.fieldConfidence;
+
+  if (intent.durationMinutes !== undefined) {
+    write('duration', intent.durationMinutes, fc.durationMinutes);
+  }
+
+  if (intent.locationPreference) {
+    write(
+      'location',
+      {
+        preference: intent.locationPreference,
+        name: intent.specifiedLocation,
+        proximityKm: intent.proximityDistanceKm,
+      },
+      fc.locationPreference
+    );
+  }
+
+  if (intent.activities) {
+    write('activities', mergeList('activities', intent.activities), fc.activities);
+  }
+  if (intent.excludedActivities) {
+    write('excludedActivities', mergeList('excludedActivities', intent.excludedActivities), fc.excludedActivities);
+  }
+  if (intent.avoid) {
+    write('avoid', mergeList('avoid', intent.avoid), fc.avoid);
+  }
+  if (intent.therapeuticGoals) {
+    write('goals', mergeList('goals', intent.therapeuticGoals), fc.therapeuticGoals);
+  }
+  if (intent.companions) {
+    write('companions', mergeList('companions', intent.companions), fc.companions);
+  }
+  if (intent.difficulty) {
+    write('difficulty', intent.difficulty, fc.difficulty);
+  }
+  if (intent.startTime) {
+    write('startTime', { label: intent.startTime, startAt: intent.startAt, endBy: intent.endBy }, fc.startTime);
+  }
+
+  // The latest mention wins when an activity is both wanted and ruled out.
+  if (slots.activities && slots.excludedActivities) {
+    const latestWanted = slots.activities.updatedTurn >= slots.excludedActivities.updatedTurn;
+    if (latestWanted) {
+      const wanted = slots.activities.value;
+      slots.excludedActivities = {
+        ...slots.excludedActivities,
+        value: slots.excludedActivities.value.filter((a) => !wanted.includes(a)),
+      };
+    } else {
+      const excluded = slots.excludedActivities.value;
+      slots.activities = { ...slots.activities, value: slots.activities.value.filter((a) => !excluded.includes(a)) };
+    }
+  }
+
+  let stage = state.stage;
+  if (stage === 'confirming' && !changed && intent.isAffirmative) {
+    stage = 'ready';
+  } else if (stage !== 'collecting' && changed) {
+    stage = 'confirming';
+  }
+
+  return { ...state, slots, stage, turn };
+}
+
+function withDefault(state: PlanningState, slot: SlotName): PlanningState {
+  const slots = { ...state.slots };
+  const meta = { confidence: 0.2, source: 'default' as const, updatedTurn: state.turn };
+
+  if (slot === 'duration') {
+    slots.duration = { value: DEFAULT_DURATION_MINUTES, ...meta };
+  } else if (slot === 'location') {
+    slots.location = { value: { preference: 'ai_suggestions' }, ...meta };
+  }
+
+  return { ...state, slots };
+}
+
+/**
+ * Deterministic next-step policy: missing required slots in order, then each
+ * promptable optional slot once, then confirmation.
+ */
+export function getNextAction(state: PlanningState): PlanningAction {
+  if (state.stage === 'ready') {
+    return { kind: 'ready' };
+  }
+
+  for (const slot of SLOT_ORDER) {
+    const def = SLOT_SCHEMA[slot];
+    if (isSlotFilled(state.slots, slot)) continue;
+
+    const asked = state.askCounts[slot] ?? 0;
+    if (def.required || (def.prompt && asked === 0 && state.stage === 'collecting')) {
+      return { kind: 'ask', slot, topic: def.topic };
+    }
+  }
+
+  return { kind: 'confirm' };
+}
+
+/**
+ * Runs one planning turn: applies the parsed intent, fills defaults for
+ * required slots the user keeps skipping, and records the next action.
+ */
+export function advancePlanning(state: PlanningState, intent: ParsedIntent): PlanningState {
+  let next = applyIntent(state, intent);
+
+  for (const slot of SLOT_ORDER) {
+    if (
+      SLOT_SCHEMA[slot].required &&
+      !isSlotFilled(next.slots, slot) &&
+      (next.askCounts[slot] ?? 0) >= MAX_ASKS_PER_SLOT
+    ) {
+      next = withDefault(next, slot);
+    }
+  }
+
+  const action = getNextAction(next);
+  const askCounts = { ...next.askCounts };
+  let stage = next.stage;
+
+  if (action.kind === 'ask') {
+    askCounts[action.slot] = (askCounts[action.slot] ?? 0) + 1;
+  } else if (action.kind === 'confirm') {
+    stage = 'confirming';
+  }
+
+  return { ...next, askCounts, stage, next: action };
+}
+
+/**
+ * Serialises the state for `conversation_metadata`, keeping the flat keys
+ * that prompts and excursion creation already read.
+ */
+export function planningStateToMetadata(state: PlanningState): Record<string, unknown> {
+  const { slots } = state;
+  const location = slots.location?.value;
+
+  return {
+    planning: state,
+    duration_minutes: slots.duration?.value ?? null,
+    detected_duration: slots.duration?.value ?? null,
+    location_preference: location
+      ? location.preference === 'specific' ? location.name ?? 'specific' : 'ai_suggestions'
+      : null,
+    specified_location: location?.name ?? null,
+    proximity_distance_km: location?.proximityKm ?? null,
+    activities_mentioned: slots.activities?.value ?? [],
+    activities_excluded: slots.excludedActivities?.value ?? [],
+    avoid: slots.avoid?.value ?? [],
+    difficulty: slots.difficulty?.value ?? null,
+    therapeutic_goals_mentioned: slots.goals?.value ?? [],
+    start_time: slots.startTime?.value.label ?? null,
+    start_at: slots.startTime?.value.startAt ?? null,
+    end_by: slots.startTime?.value.endBy ?? null,
+    companions: slots.companions?.value ?? [],
+    asked_confirmation: state.stage !== 'collecting',
+    user_confirmed: state.stage === 'ready',
+  };
+}
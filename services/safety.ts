@@ -0,0 +1,47 @@
+import { aiRun } from './ai-api';
+import { crisisResponse, detectCrisis } from '@/supabase/functions/_shared/crisis';
+import type { SafetyCheckResult } from '@/types/ai';
+
+export type SafetyFlag = 'crisis';
+
+export type MessageSafety =
+  | { crisis: false }
+  | { crisis: true; /** The fixed crisis-resources reply, in the user's language. */ response: string };
+
+// Mirrors AI_SAFETY_MODEL_CHECK on the ai-chat function. Also turned off the
+// first time the server answers without asking the model, so a mismatched
+// build stops making calls that can't change the outcome.
+let modelCheckEnabled = process.env.EXPO_PUBLIC_SAFETY_MODEL_CHECK === 'true';
+
+/**
+ * The crisis check every user message goes through before the assistant
+ * sees it. The rules (shared with the edge functions) decide clear cases on
+ * the device; with the model check on, possible concerns go to
+ * `safety_check`, and otherwise go through like any other message. If that
+ * call fails the message goes through too: the assistant's own prompt still
+ * carries a crisis rule.
+ */
+export async function checkMessageSafety(text: string, locale?: string): Promise<MessageSafety> {
+  const check = detectCrisis(text, locale);
+
+  if (check.level === 'concern') {
+    if (!modelCheckEnabled) {
+      return { crisis: false };
+    }
+
+    const response = await aiRun<SafetyCheckResult>({
+      action: 'safety_check',
+      input: { message: text, locale },
+    });
+    if (response.ok && response.result && !response.result.checked) {
+      modelCheckEnabled = false;
+    }
+    if (!response.ok || !response.result?.crisis) {
+      return { crisis: false };
+    }
+  } else if (check.level === 'none') {
+    return { crisis: false };
+  }
+
+  return { crisis: true, response: crisisResponse(check, locale) };
+}
@@ -0,0 +1,66 @@
+export interface SunTimes {
+  sunrise: Date;
+  sunset: Date;
+}
+
+const RAD = Math.PI / 180;
+
+// Sun altitude at sunrise/sunset, accounting for refraction and the solar disc.
+const SUN_ALTITUDE_DEG = -0.833;
+
+function dayOfYear(date: Date): number {
+  const start = Date.UTC(date.getFullYear(), 0, 0);
+  const current = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  return Math.floor((current - start) / 86400000);
+}
+
+/**
+ * Approximate sunrise and sunset (NOAA low-precision formulas, accurate to a
+ * few minutes) for the local calendar day of `date`. In polar day or night the
+ * times are clamped to the start and end of that day.
+ */
+export function getSunTimes(date: Date, lat: number, lng: number): SunTimes {
+  const n = dayOfYear(date);
+  const gamma = ((2 * Math.PI) / 365) * (n - 1);
+
+  const eqTime =
+    229.18 *
+    (0.000075 +
+      0.001868 * Math.cos(gamma) -
+      0.032077 * Math.sin(gamma) -
+      0.014615 * Math.cos(2 * gamma) -
+      0.040849 * Math.sin(2 * gamma));
+
+  const decl =
+    0.006918 -
+    0.399912 * Math.cos(gamma) +
+    0.070257 * Math.sin(gamma) -
+    0.006758 * Math.cos(2 * gamma) +
+    0.000907 * Math.sin(2 * gamma) -
+    0.002697 * Math.cos(3 * gamma) +
+    0.00148 * Math.sin(3 * gamma);
+
+  const cosHa =
+    (Math.sin(SUN_ALTITUDE_DEG * RAD) - Math.sin(lat * RAD) * Math.sin(decl)) /
+    (Math.cos(lat * RAD) * Math.cos(decl));
+
+  const midnightUtc = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const dayEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59);
+
+  if (cosHa > 1) {
+    return { sunrise: dayEnd, sunset: dayEnd };
+  }
+  if (cosHa < -1) {
+    return { sunrise: dayStart, sunset: dayEnd };
+  }
+
+  const ha = Math.acos(cosHa) / RAD;
+  const sunriseMinutesUtc = 720 - 4 * (lng + ha) - eqTime;
+  const sunsetMinutesUtc = 720 - 4 * (lng - ha) - eqTime;
+
+  return {
+    sunrise: new Date(midnightUtc + sunriseMinutesUtc * 60000),
+    sunset: new Date(midnightUtc + sunsetMinutesUtc * 60000),
+  };
+}
@@ -24,3 +24,12 @@ export const supabase = createClient(
   supabaseUrl || 'https://placeholder.supabase.co',
   supabaseAnonKey || 'placeholder-key'
 );
+
+/**
+ * The bearer token for edge function calls: the signed-in user's access token,
+ * so functions can verify who is calling, or the anon key when signed out.
+ */
+export async function getFunctionsAuthToken(): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token || supabaseAnonKey;
+}
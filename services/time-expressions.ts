@@ -0,0 +1,338 @@
+import { getSunTimes } from './sun-times';
+import type { IntentParseOptions } from '@/types/intent';
+
+export interface DurationExpression {
+  minutes: number;
+  minMinutes: number;
+  maxMinutes: number;
+  confidence: number;
+  match: string;
+}
+
+export interface TimeWindowExpression {
+  startAt?: Date;
+  endBy?: Date;
+  /** True when `endBy` is a stated deadline ("until sunset"), not the end of a part of day. */
+  deadline: boolean;
+  label: string;
+  confidence: number;
+  match: string;
+}
+
+const UNIT_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  ...UNIT_WORDS,
+  ten: 10, eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30,
+  forty: 40, fifty: 50, sixty: 60, ninety: 90,
+};
+
+const TENS_RE = /\b(twenty|thirty|forty|fifty)[\s-](one|two|three|four|five|six|seven|eight|nine)\b/gi;
+const NUMBER_WORD_RE = new RegExp(`\\b(${Object.keys(NUMBER_WORDS).join('|')})\\b`, 'gi');
+
+/** Rewrites spelled-out numbers ("forty-five", "two") as digits. */
+export function normalizeNumberWords(text: string): string {
+  return text
+    .replace(TENS_RE, (_, tens: string, unit: string) =>
+      String(NUMBER_WORDS[tens.toLowerCase()] + UNIT_WORDS[unit.toLowerCase()])
+    )
+    .replace(NUMBER_WORD_RE, (word: string) => String(NUMBER_WORDS[word.toLowerCase()]));
+}
+
+const NUM = '(\\d+(?:\\.\\d+)?)';
+const UNIT = '(hours?|hrs?|minutes?|mins?)';
+
+const unitMinutes = (unit: string) => (unit.toLowerCase().startsWith('h') ? 60 : 1);
+const countOf = (value: string) => (/^an?$/i.test(value) ? 1 : parseFloat(value));
+
+function exact(minutes: number): [number, number] {
+  return [minutes, minutes];
+}
+
+function approximate(minutes: number): [number, number] {
+  const spread = Math.max(5, Math.round((minutes * 0.1) / 5) * 5);
+  return [Math.max(1, minutes - spread), minutes + spread];
+}
+
+const QUANTIFIERS: Record<string, [number, number]> = {
+  couple: [1.5, 2.5],
+  few: [2, 4],
+  several: [3, 5],
+};
+
+// Ordered from most to least specific; the first match wins.
+const DURATION_RULES: Array<{ re: RegExp; toRange: (m: RegExpMatchArray) => [number, number]; confidence: number }> = [
+  {
+    re: new RegExp(`\\b${NUM}\\s*(?:-|–|to|or)\\s*${NUM}\\s*${UNIT}\\b`, 'i'),
+    toRange: (m) => [parseFloat(m[1]) * unitMinutes(m[3]), parseFloat(m[2]) * unitMinutes(m[3])],
+    confidence: 0.85,
+  },
+  {
+    re: /\b(\d+|an?)\s+and\s+a\s+half\s+(?:hours?|hrs?)\b/i,
+    toRange: (m) => exact(countOf(m[1]) * 60 + 30),
+    confidence: 0.9,
+  },
+  {
+    re: /\b(\d+|an?)\s+(?:hours?|hrs?)\s+and\s+a\s+half\b/i,
+    toRange: (m) => exact(countOf(m[1]) * 60 + 30),
+    confidence: 0.9,
+  },
+  { re: /\bhalf\s+an?\s+hour\b/i, toRange: () => exact(30), confidence: 0.9 },
+  { re: /\b(?:a\s+)?quarter\s+(?:of\s+)?an?\s+hour\b/i, toRange: () => exact(15), confidence: 0.9 },
+  {
+    re: /\b(\d+)\s*(?:hours?|hrs?)\s*(?:and\s+)?(\d+)\s*(?:minutes?|mins?)\b/i,
+    toRange: (m) => exact(parseInt(m[1], 10) * 60 + parseInt(m[2], 10)),
+    confidence: 0.9,
+  },
+  {
+    re: /\b(\d+)h(\d{2})m?\b/i,
+    toRange: (m) => exact(parseInt(m[1], 10) * 60 + parseInt(m[2], 10)),
+    confidence: 0.9,
+  },
+  {
+    re: new RegExp(`\\b(?:a\\s+)?(couple|few|several)(?:\\s+of)?\\s+${UNIT}\\b`, 'i'),
+    toRange: (m) => {
+      const [lo, hi] = QUANTIFIERS[m[1].toLowerCase()];
+      return [lo * unitMinutes(m[2]), hi * unitMinutes(m[2])];
+    },
+    confidence: 0.7,
+  },
+  {
+    re: new RegExp(`\\b(?:about|around|roughly|approximately|approx\\.?|~)\\s*${NUM}\\s*${UNIT}\\b`, 'i'),
+    toRange: (m) => approximate(parseFloat(m[1]) * unitMinutes(m[2])),
+    confidence: 0.7,
+  },
+  {
+    re: new RegExp(`\\b${NUM}\\s*-?\\s*ish\\s*${UNIT}\\b`, 'i'),
+    toRange: (m) => approximate(parseFloat(m[1]) * unitMinutes(m[2])),
+    confidence: 0.7,
+  },
+  {
+    re: new RegExp(`\\b${NUM}\\s*${UNIT}\\s*(?:-?\\s*ish|or so)\\b`, 'i'),
+    toRange: (m) => approximate(parseFloat(m[1]) * unitMinutes(m[2])),
+    confidence: 0.7,
+  },
+  { re: /\ban?\s+(?:hour|hr)\b/i, toRange: () => exact(60), confidence: 0.9 },
+  {
+    re: new RegExp(`\\b${NUM}\\s*${UNIT}\\b`, 'i'),
+    toRange: (m) => exact(Math.round(parseFloat(m[1]) * unitMinutes(m[2]))),
+    confidence: 0.9,
+  },
+  { re: /\bquick\b/i, toRange: () => [10, 20], confidence: 0.4 },
+  { re: /\bshort\b/i, toRange: () => [15, 30], confidence: 0.4 },
+  { re: /\blong\s+(?:walk|hike|stroll|trip|excursion)\b/i, toRange: () => [75, 120], confidence: 0.4 },
+];
+
+export function parseDurationExpression(text: string): DurationExpression | undefined {
+  const normalized = normalizeNumberWords(text);
+
+  for (const rule of DURATION_RULES) {
+    const m = normalized.match(rule.re);
+    if (!m) continue;
+
+    const [lo, hi] = rule.toRange(m).map(Math.round);
+    const minMinutes = Math.min(lo, hi);
+    const maxMinutes = Math.max(lo, hi);
+    return {
+      minutes: Math.round((minMinutes + maxMinutes) / 2),
+      minMinutes,
+      maxMinutes,
+      confidence: rule.confidence,
+      match: m[0],
+    };
+  }
+
+  return undefined;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const PARTS_OF_DAY: Record<string, [number, number]> = {
+  morning: [8, 12],
+  afternoon: [12, 17],
+  evening: [17, 20],
+  tonight: [18, 21],
+};
+
+// Used when the day is named but not the time ("tomorrow", "on Sunday").
+const DAYTIME_HOURS: [number, number] = [8, 20];
+
+const DEFAULT_SUNRISE_HOUR = 6.5;
+const DEFAULT_SUNSET_HOUR = 19;
+
+const MEAL_ANCHORS: Array<{ re: RegExp; hour: number; edge: 'startAt' | 'endBy' }> = [
+  { re: /\bbefore\s+lunch\b/i, hour: 12, edge: 'endBy' },
+  { re: /\bafter\s+lunch\b/i, hour: 13, edge: 'startAt' },
+  { re: /\bbefore\s+dinner\b/i, hour: 18, edge: 'endBy' },
+  { re: /\bafter\s+dinner\b/i, hour: 19, edge: 'startAt' },
+  { re: /\bbefore\s+work\b/i, hour: 8.5, edge: 'endBy' },
+  { re: /\bafter\s+work\b/i, hour: 17.5, edge: 'startAt' },
+];
+
+function atHour(day: Date, hour: number): Date {
+  const d = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+  d.setMinutes(Math.round(hour * 60));
+  return d;
+}
+
+function clockHour(hours: string, minutes: string | undefined, meridiem: string | undefined): number {
+  let h = parseInt(hours, 10) % 12;
+  const suffix = meridiem?.toLowerCase();
+  if (suffix === 'pm' || (!suffix && h < 7)) h += 12;
+  return h + (minutes ? parseInt(minutes, 10) / 60 : 0);
+}
+
+function resolveDay(text: string, now: Date): { day: Date; match?: string } {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  const tomorrow = text.match(/\btomorrow\b/i);
+  if (tomorrow) {
+    return { day: new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1), match: tomorrow[0] };
+  }
+
+  const weekend = text.match(/\b(?:this\s+|next\s+)?weekend\b/i);
+  const weekday = text.match(new RegExp(`\\b(?:(this|next|on)\\s+)?(${WEEKDAYS.join('|')})\\b`, 'i'));
+  if (weekday || weekend) {
+    const target = weekday ? WEEKDAYS.indexOf(weekday[2].toLowerCase()) : 6;
+    let offset = (target - today.getDay() + 7) % 7;
+    if (weekday?.[1]?.toLowerCase() === 'next' && offset === 0) offset = 7;
+    return {
+      day: new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset),
+      match: (weekday || weekend)![0],
+    };
+  }
+
+  const todayMatch = text.match(/\btoday\b/i);
+  return { day: today, match: todayMatch?.[0] };
+}
+
+/**
+ * Finds when the user wants to go: a start (`startAt`), a hard stop (`endBy`),
+ * or both. Sunrise/sunset anchors use the caller's location when given and
+ * fall back to typical hours otherwise.
+ */
+export function parseTimeWindow(text: string, options: IntentParseOptions = {}): TimeWindowExpression | undefined {
+  const now = options.now ?? new Date();
+  const { day, match: dayMatch } = resolveDay(text, now);
+  const matched: string[] = dayMatch ? [dayMatch] : [];
+  let startAt: Date | undefined;
+  let endBy: Date | undefined;
+  let deadline = false;
+  let confidence = dayMatch ? 0.6 : 0;
+
+  const sun = options.location ? getSunTimes(day, options.location.lat, options.location.lng) : undefined;
+
+  const part = text.match(/\b(?:this\s+)?(morning|afternoon|evening|tonight)\b/i);
+  if (part) {
+    const [from, to] = PARTS_OF_DAY[part[1].toLowerCase()];
+    startAt = atHour(day, from);
+    endBy = atHour(day, to);
+    matched.push(part[0]);
+    confidence = 0.7;
+  }
+
+  const immediate = text.match(/\b(right now|right away|now)\b/i);
+  if (immediate) {
+    startAt = now;
+    matched.push(immediate[0]);
+    confidence = 0.8;
+  }
+
+  const offset = normalizeNumberWords(text).match(/\bin\s+(\d+|an?)\s*(hours?|hrs?|minutes?|mins?)\b/i);
+  if (offset) {
+    startAt = new Date(now.getTime() + countOf(offset[1]) * unitMinutes(offset[2]) * 60000);
+    matched.push(offset[0]);
+    confidence = 0.8;
+  }
+
+  const startClock = text.match(/\b(?:at|around|from)\s+(noon|(\d{1,2})(?::(\d{2}))?\s*(am|pm)?)\b/i);
+  if (startClock && (startClock[1].toLowerCase() === 'noon' || startClock[3] || startClock[4])) {
+    startAt = atHour(day, startClock[1].toLowerCase() === 'noon' ? 12 : clockHour(startClock[2], startClock[3], startClock[4]));
+    matched.push(startClock[0]);
+    confidence = 0.85;
+  }
+
+  const sunrise = text.match(/\b(?:at|after|around)\s+(sunrise|dawn)\b/i);
+  if (sunrise) {
+    startAt = sun?.sunrise ?? atHour(day, DEFAULT_SUNRISE_HOUR);
+    matched.push(sunrise[0]);
+    confidence = 0.8;
+  }
+
+  const sunset = text.match(/\b(?:until|till|til|before|by)\s+(sunset|dusk|dark)\b/i);
+  if (sunset) {
+    endBy = sun?.sunset ?? atHour(day, DEFAULT_SUNSET_HOUR);
+    deadline = true;
+    matched.push(sunset[0]);
+    confidence = 0.8;
+  }
+
+  const endClock = text.match(/\b(?:until|till|til|before|by)\s+(noon|(\d{1,2})(?::(\d{2}))?\s*(am|pm)?)\b/i);
+  if (endClock && (endClock[1].toLowerCase() === 'noon' || endClock[3] || endClock[4])) {
+    endBy = atHour(day, endClock[1].toLowerCase() === 'noon' ? 12 : clockHour(endClock[2], endClock[3], endClock[4]));
+    deadline = true;
+    matched.push(endClock[0]);
+    confidence = 0.85;
+  }
+
+  for (const anchor of MEAL_ANCHORS) {
+    const m = text.match(anchor.re);
+    if (!m) continue;
+    if (anchor.edge === 'startAt') {
+      startAt = atHour(day, anchor.hour);
+    } else {
+      endBy = atHour(day, anchor.hour);
+      deadline = true;
+    }
+    matched.push(m[0]);
+    confidence = Math.max(confidence, 0.7);
+  }
+
+  if (!matched.length) {
+    return undefined;
+  }
+
+  if (!startAt && !endBy && dayMatch && !/^today$/i.test(dayMatch)) {
+    startAt = atHour(day, DAYTIME_HOURS[0]);
+    endBy = atHour(day, DAYTIME_HOURS[1]);
+  }
+
+  if (!startAt && !endBy) {
+    return undefined;
+  }
+
+  return {
+    startAt,
+    endBy,
+    deadline,
+    label: matched.join(' ').toLowerCase(),
+    confidence,
+    match: matched.join(', '),
+  };
+}
+
+/**
+ * When only a deadline was given ("until sunset"), the time available is the
+ * gap between the start (or now) and that deadline. That is only an upper
+ * bound on the outing, not how long the user wants it to be, so it is
+ * returned as a range and never fills the duration on its own.
+ */
+export function durationRangeFromWindow(
+  window: TimeWindowExpression,
+  now: Date
+): { minMinutes: number; maxMinutes: number } | undefined {
+  if (!window.endBy || !window.deadline) return undefined;
+
+  const from = window.startAt && window.startAt > now ? window.startAt : now;
+  const available = Math.round((window.endBy.getTime() - from.getTime()) / 60000);
+  if (available < 10) return undefined;
+
+  return { minMinutes: Math.min(available, 30), maxMinutes: available };
+}
+
+/** Removes phrases like "in 20 minutes" so they are not read as a duration. */
+export function stripStartOffsets(text: string): string {
+  return normalizeNumberWords(text).replace(/\bin\s+(\d+|an?)\s*(hours?|hrs?|minutes?|mins?)\b/gi, ' ');
+}
@@ -0,0 +1,43 @@
+import { supabase } from './supabase';
+
+/**
+ * A durable fact the assistant learned about the user from a conversation
+ * ("has a bad knee"). The ai-chat function stores them when it summarizes a
+ * long session; the user can review and delete them from their profile.
+ */
+export interface UserMemory {
+  id: string;
+  user_id: string;
+  fact: string;
+  source_session_id: string | null;
+  created_at: string;
+}
+
+export async function getUserMemories(userId: string): Promise<UserMemory[]> {
+  const { data, error } = await supabase
+    .from('user_memories')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching user memories:', error);
+    return [];
+  }
+
+  return data || [];
+}
+
+export async function deleteUserMemory(memoryId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('user_memories')
+    .delete()
+    .eq('id', memoryId);
+
+  if (error) {
+    console.error('Error deleting user memory:', error);
+    return false;
+  }
+
+  return true;
+}
@@ -22,6 +22,12 @@ export interface UserProfile {
   updated_at: string;
 }
 
+/** The language the user picked in their profile, if any; otherwise the device locale applies. */
+export function getProfileLocale(profile: UserProfile | null): string | undefined {
+  const locale = profile?.preferences?.locale;
+  return typeof locale === 'string' ? locale : undefined;
+}
+
 export async function getUserProfile(userId: string): Promise<UserProfile | null> {
   const { data, error } = await supabase
     .from('user_profiles')
@@ -1,8 +1,8 @@
 import { Audio } from 'expo-av';
 import * as FileSystem from 'expo-file-system/legacy';
 import { Platform } from 'react-native';
-import type { ChatMessage } from '@/types/ai';
 import Constants from 'expo-constants';
+import { getFunctionsAuthToken } from './supabase';
 
 function getEnvVar(key: string): string {
   return (
@@ -13,7 +13,6 @@ function getEnvVar(key: string): string {
 }
 
 const SUPABASE_URL = getEnvVar('EXPO_PUBLIC_SUPABASE_URL');
-const SUPABASE_ANON_KEY = getEnvVar('EXPO_PUBLIC_SUPABASE_ANON_KEY');
 
 export interface VoiceRecording {
   uri: string;
@@ -25,6 +24,8 @@ export interface VoiceResponse {
   transcript: string;
   responseText: string;
   responseAudioBase64: string;
+  /** The transcript matched the crisis check; the response is the fixed crisis-resources reply. */
+  crisis?: boolean;
 }
 
 export async function requestMicrophonePermission(): Promise<boolean> {
@@ -129,10 +130,11 @@ async function audioUriToBase64(uri: string): Promise<string> {
   });
 }
 
+/** The voice-chat function loads the session's history and the user's context itself. */
 export async function sendVoiceMessage(
   recording: VoiceRecording,
-  conversationHistory: ChatMessage[],
-  userContext?: Record<string, unknown>
+  sessionId: string,
+  locale?: string
 ): Promise<VoiceResponse | { error: string }> {
   try {
     const base64Audio = await audioUriToBase64(recording.uri);
@@ -140,13 +142,13 @@ export async function sendVoiceMessage(
     const response = await fetch(`${SUPABASE_URL}/functions/v1/voice-chat`, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+        'Authorization': `Bearer ${await getFunctionsAuthToken()}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
         audio_base64: base64Audio,
-        conversation_history: conversationHistory,
-        user_context: userContext || {},
+        session_id: sessionId,
+        locale,
       }),
     });
 
@@ -165,6 +167,7 @@ export async function sendVoiceMessage(
       transcript: data.transcript,
       responseText: data.response_text,
       responseAudioBase64: data.response_audio_base64,
+      crisis: data.crisis === true,
     };
   } catch (error) {
     console.error('Error sending voice message:', error);
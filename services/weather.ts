@@ -17,6 +17,8 @@ export interface WeatherData {
   humidity: number;
   windSpeed: number;
   location: string;
+  /** WMO weather code; missing from lookups cached before it was added. */
+  weatherCode?: number;
 }
 
 export async function getCurrentWeather(latitude: number, longitude: number): Promise<WeatherData | null> {
@@ -0,0 +1,34 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+export interface Caller {
+  /**
+   * The signed-in user, or null for an anonymous caller (the anon key), whose
+   * client only reaches sessions without an owner.
+   */
+  userId: string | null;
+  /** Acts as the caller, so row-level security applies to every query. */
+  client: ReturnType<typeof createClient>;
+}
+
+/**
+ * Verifies the caller's JWT. The anon key is accepted as an anonymous caller;
+ * resolves to null for missing or invalid tokens.
+ */
+export async function authenticate(req: Request): Promise<Caller | null> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) return null;
+
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, anonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+
+  const token = authorization.slice('Bearer '.length);
+  if (token === anonKey) return { userId: null, client };
+
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data?.user) return null;
+
+  return { userId: data.user.id, client };
+}
@@ -0,0 +1,158 @@
+/**
+ * Deterministic crisis and self-harm detection, run on every user message
+ * before any model sees it. Deliberately import-free: the app, the edge
+ * functions and scripts/evaluate-crisis.ts all load this same file, so the
+ * rules can't drift between them.
+ *
+ * `crisis` phrases are unambiguous and get the fixed response straight away.
+ * `concern` phrases ("I can't go on") are often figures of speech; they only
+ * become a crisis when the optional model check (`safety_check`) says so.
+ * Every language's rules run on every message, the locale's first.
+ *
+ * Walking and hiking talk is full of near misses ("I cut myself on a
+ * branch", "5 kms", "this hill is killing me"), so bare injury phrases are
+ * only concerns. scripts/fixtures/crisis-corpus.json pins both sides; run
+ * `npm run eval:crisis` after any change here.
+ */
+
+export type CrisisLevel = 'crisis' | 'concern' | 'none';
+
+export interface CrisisCheck {
+  level: CrisisLevel;
+  /** Language of the rule that matched, when one did. */
+  language?: string;
+}
+
+interface CrisisRules {
+  crisis: RegExp[];
+  concern: RegExp[];
+  response: string;
+}
+
+// Patterns run on lowercased text with accents and curly apostrophes removed.
+const RULES: Record<string, CrisisRules> = {
+  en: {
+    crisis: [
+      /\b(kill|killing|hang|hanging|harm|harming) myself\b/,
+      /\b(want|wanna|going|plan|planning|urge) (to )?(hurt|cut|hurting|cutting) myself\b/,
+      /\bthinking (about|of) (hurting|cutting) myself\b/,
+      /\bsuicid(e|al)\b/,
+      /\b(end|ending|take|taking) my (own )?life\b/,
+      /\bend it all\b/,
+      /\b(want|wanted|wanna) (to )?die\b/,
+      /\bwish i (was|were) dead\b/,
+      /\bbetter off (dead|without me)\b/,
+      /\bself[- ]?harm/,
+      /\b(take|taking|took) an overdose\b/,
+      /\bdon'?t want to (live|be alive|be here anymore|wake up)\b/,
+      /\bno reason to live\b/,
+      /\bnobody would miss me\b/,
+      /\b(want|wanna|going|plan|planning) to (kill|hurt) (someone|somebody|people|everyone)\b/,
+    ],
+    concern: [
+      /\bhopeless\b/,
+      /\b(hurt|hurting|cut|cutting) myself\b/,
+      /\boverdos(e|ed|ing)\b/,
+      /\bcan'?t (go on|do this anymore|take (it|this) anymore)\b/,
+      /\b(no|what'?s the) point (in|of)? ?(anything|living|going on|trying)\b/,
+      /\bwant to disappear\b/,
+      /\bgive up on everything\b/,
+    ],
+    response:
+      "I'm really glad you told me, and I'm concerned about your safety. I can't help with this the way a person can, so please reach out now: if you're in immediate danger, call your local emergency number (911 in the US and Canada, 999 in the UK, 112 in most of Europe). In the US you can call or text 988, and in the UK or Ireland call Samaritans on 116 123. If you can, contact someone you trust and stay with them. You don't have to go through this alone.",
+  },
+  es: {
+    crisis: [
+      /\b(matarme|suicidarme|ahorcarme)\b/,
+      /\bsuicid(io|a)\b/,
+      /\bquiero (hacerme dano|lastimarme)\b/,
+      /\bcortarme (las venas|los brazos|las munecas)\b/,
+      /\bautolesion/,
+      /\b(quitarme|acabar con) (la|mi) vida\b/,
+      /\bquiero morir(me)?\b/,
+      /\bno quiero (vivir|seguir viviendo|despertar)\b/,
+      /\bestaria mejor muert[oa]\b/,
+      /\bnadie me echaria de menos\b/,
+      /\bquiero (matar|hacer dano) a alguien\b/,
+    ],
+    concern: [
+      /\bsin esperanza\b/,
+      /\b(hacerme|me hago) dano\b/,
+      /\bno (puedo|aguanto) mas\b/,
+      /\bquiero desaparecer\b/,
+      /\bnada tiene sentido\b/,
+    ],
+    response:
+      'Me alegra mucho que me lo hayas contado y me preocupa tu seguridad. No puedo ayudarte con esto como lo haría una persona, así que busca ayuda ahora: si estás en peligro inmediato, llama al número de emergencias local (112 en Europa, 911 en gran parte de América). En España puedes llamar al 024, la línea de atención a la conducta suicida. Si puedes, contacta con alguien de confianza y quédate con esa persona. No tienes que pasar por esto a solas.',
+  },
+  fr: {
+    crisis: [
+      /\b(me tuer|me suicider|me pendre|me scarifier|m'automutiler)\b/,
+      /\bsuicid(e|aire)\b/,
+      /\bme faire du mal\b/,
+      /\bmettre fin a (mes jours|ma vie)\b/,
+      /\b(envie de|veux|voudrais) mourir\b/,
+      /\bje ne veux plus vivre\b/,
+      /\bpersonne ne me regretterait\b/,
+      /\b(envie de|veux) (tuer|faire du mal a) quelqu'un\b/,
+    ],
+    concern: [
+      /\bdesespere(e)?\b/,
+      /\bje n'en peux plus\b/,
+      /\b(envie de|veux) disparaitre\b/,
+      /\bplus la force\b/,
+      /\brien n'a de sens\b/,
+    ],
+    response:
+      "Je suis vraiment content que tu m'en parles, et ta sécurité m'inquiète. Je ne peux pas t'aider comme le ferait une personne, alors demande de l'aide maintenant : si tu es en danger immédiat, appelle le numéro d'urgence local (112 en Europe, 15 en France). En France, le 3114 est le numéro national de prévention du suicide, joignable 24h/24. Si tu peux, contacte une personne de confiance et reste avec elle. Tu n'as pas à traverser ça seul.",
+  },
+};
+
+const DEFAULT_LANGUAGE = 'en';
+
+export const CRISIS_LANGUAGES = Object.keys(RULES);
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/\s+/g, ' ');
+}
+
+function languageOf(locale?: string | null): string | undefined {
+  return locale?.toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * Classifies one message by the rules alone; `crisis` outranks `concern` in
+ * any language. The locale's own rules go first, so a word shared between
+ * languages ("suicide") is answered in the user's.
+ */
+export function detectCrisis(text: string, locale?: string | null): CrisisCheck {
+  const normalized = normalize(text);
+  const preferred = languageOf(locale);
+  const languages = [...CRISIS_LANGUAGES].sort((a, b) => Number(b === preferred) - Number(a === preferred));
+  let concern: CrisisCheck | null = null;
+
+  for (const language of languages) {
+    const rules = RULES[language];
+    if (rules.crisis.some((pattern) => pattern.test(normalized))) {
+      return { level: 'crisis', language };
+    }
+    if (!concern && rules.concern.some((pattern) => pattern.test(normalized))) {
+      concern = { level: 'concern', language };
+    }
+  }
+  return concern ?? { level: 'none' };
+}
+
+/**
+ * The fixed crisis-resources reply, in the language of the matched phrase,
+ * else the locale's ("es-MX" → "es"), else English.
+ */
+export function crisisResponse(check: CrisisCheck, locale?: string | null): string {
+  const language = [check.language, languageOf(locale)].find((l): l is string => !!l && l in RULES) ?? DEFAULT_LANGUAGE;
+  return RULES[language].response;
+}
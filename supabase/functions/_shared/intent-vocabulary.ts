@@ -0,0 +1,6 @@
+// Canonical values shared with the client-side lexicons (services/lexicons).
+// The intent_extract prompt lists them and ai-chat validates against them.
+export const INTENT_ACTIVITIES = ['Hiking', 'Walking', 'Meditation', 'Biking', 'Running'] as const;
+export const INTENT_GOALS = ['reduce stress', 'improve mood', 'boost energy', 'improve sleep', 'increase focus', 'relax'] as const;
+export const INTENT_AVOID = ['hills', 'crowds', 'traffic', 'mud', 'stairs', 'noise', 'heat'] as const;
+export const INTENT_COMPANIONS = ['dog', 'kids', 'partner', 'friends', 'solo'] as const;
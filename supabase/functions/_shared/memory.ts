@@ -0,0 +1,143 @@
+import type { Caller } from './auth.ts';
+
+/**
+ * Long-conversation memory. Once a session has more than `SUMMARY_TRIGGER`
+ * unsummarized turns, all but the last `KEEP_RECENT` are folded into a
+ * rolling summary on `chat_sessions`, and any durable facts about the user
+ * learned from them go to `user_memories`. Prompts then get the summary, the
+ * recent turns and the facts most relevant to the message, within a budget.
+ */
+
+export interface StoredTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+}
+
+export interface SessionMemory {
+  summary: string | null;
+  /** `created_at` of the last turn already in `summary`. */
+  summarizedThrough: string | null;
+  /** Turns after `summarizedThrough`, oldest first. */
+  turns: StoredTurn[];
+  /** The newest stored facts, so a fold doesn't learn those twice. */
+  knownFacts: string[];
+}
+
+/** What a `conversation_summarize` call must return. */
+export interface MemoryUpdate {
+  summary: string;
+  facts: string[];
+}
+
+export const SUMMARY_TRIGGER = 24;
+export const KEEP_RECENT = 12;
+export const FACT_TOKEN_BUDGET = 120;
+
+const MAX_SUMMARY_CHARS = 1500;
+const MAX_FACT_CHARS = 200;
+const MAX_NEW_FACTS = 5;
+
+/** Rough token count (about four characters per token), good enough for budgeting. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-zÀ-ɏ]{4,}/g) ?? []);
+}
+
+/**
+ * The facts to put in a prompt: those sharing the most words with the message
+ * first, then the newest, until `budget` tokens are used. `facts` must be
+ * newest first.
+ */
+export function selectFacts(facts: string[], message = '', budget = FACT_TOKEN_BUDGET): string[] {
+  const messageWords = words(message);
+  const scored = facts.map((fact, index) => ({
+    fact,
+    index,
+    overlap: [...words(fact)].filter((word) => messageWords.has(word)).length,
+  }));
+  scored.sort((a, b) => b.overlap - a.overlap || a.index - b.index);
+
+  const selected: string[] = [];
+  let used = 0;
+  for (const { fact } of scored) {
+    const cost = estimateTokens(fact) + 2;
+    if (used + cost > budget) continue;
+    selected.push(fact);
+    used += cost;
+  }
+  return selected;
+}
+
+/** The turns to fold into the summary now, or null while the session is short enough. */
+export function turnsToFold(memory: SessionMemory): StoredTurn[] | null {
+  if (memory.turns.length <= SUMMARY_TRIGGER) return null;
+  return memory.turns.slice(0, memory.turns.length - KEEP_RECENT);
+}
+
+/** Checks a `conversation_summarize` result, dropping facts that are malformed or already known. */
+export function validateMemoryUpdate(raw: unknown, knownFacts: string[]): MemoryUpdate | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { summary, facts } = raw as Record<string, unknown>;
+  if (typeof summary !== 'string' || !summary.trim()) return null;
+
+  const known = new Set(knownFacts.map((fact) => fact.toLowerCase()));
+  const fresh: string[] = [];
+  for (const fact of Array.isArray(facts) ? facts : []) {
+    if (typeof fact !== 'string') continue;
+    const trimmed = fact.trim();
+    if (!trimmed || trimmed.length > MAX_FACT_CHARS || known.has(trimmed.toLowerCase())) continue;
+    known.add(trimmed.toLowerCase());
+    fresh.push(trimmed);
+  }
+
+  return { summary: summary.trim().slice(0, MAX_SUMMARY_CHARS), facts: fresh.slice(0, MAX_NEW_FACTS) };
+}
+
+/**
+ * Stores a fold. The summary only moves forward from the state it was built
+ * on, so two overlapping folds can't overwrite each other; resolves to false
+ * when another request got there first.
+ */
+export async function saveMemoryUpdate(
+  { client, userId }: Caller,
+  sessionId: string,
+  memory: SessionMemory,
+  folded: StoredTurn[],
+  update: MemoryUpdate
+): Promise<boolean> {
+  let query = client
+    .from('chat_sessions')
+    .update({ summary: update.summary, summarized_through: folded[folded.length - 1].created_at })
+    .eq('id', sessionId);
+  query = memory.summarizedThrough
+    ? query.eq('summarized_through', memory.summarizedThrough)
+    : query.is('summarized_through', null);
+
+  const { data, error } = await query.select('id');
+  if (error || !data?.length) {
+    if (error) console.error('Error saving session summary:', error.message);
+    return false;
+  }
+
+  // Facts belong to a user; an anonymous session only keeps its summary.
+  // Each is inserted on its own: `knownFacts` is capped, and another session
+  // may fold at the same time, so a fact can already be stored, and the
+  // unique index rejecting it (23505) mustn't take the others with it.
+  if (userId) {
+    await Promise.all(
+      update.facts.map(async (fact) => {
+        const { error: factError } = await client
+          .from('user_memories')
+          .insert({ user_id: userId, fact, source_session_id: sessionId });
+        if (factError && factError.code !== '23505') {
+          console.error('Error saving user memory:', factError.message);
+        }
+      })
+    );
+  }
+  return true;
+}
@@ -0,0 +1,191 @@
+export interface Place {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  type: string;
+  distance: number;
+}
+
+export type PlaceFeature = "park" | "trail" | "nature_reserve" | "water";
+
+export interface PlaceSearch {
+  latitude: number;
+  longitude: number;
+  radiusMeters?: number;
+  /** Only return places of these kinds; all land features when omitted. */
+  features?: PlaceFeature[];
+  limit?: number;
+}
+
+const DEFAULT_RADIUS_METERS = 8000;
+const DEFAULT_FEATURES: PlaceFeature[] = ["park", "trail", "nature_reserve"];
+
+function overpassQuery(latitude: number, longitude: number, radiusMeters: number, features: PlaceFeature[]): string {
+  const around = `(around:${radiusMeters},${latitude},${longitude})`;
+  const lines: string[] = [];
+
+  if (features.includes("park")) {
+    lines.push(
+      `node["leisure"="park"]${around};`,
+      `way["leisure"="park"]${around};`,
+      `relation["leisure"="park"]${around};`
+    );
+  }
+  if (features.includes("nature_reserve")) {
+    lines.push(
+      `node["leisure"="nature_reserve"]${around};`,
+      `way["leisure"="nature_reserve"]${around};`
+    );
+  }
+  if (features.includes("trail")) {
+    lines.push(
+      `way["highway"="path"]["name"]${around};`,
+      `way["highway"="footway"]["name"]${around};`,
+      `relation["route"="hiking"]${around};`
+    );
+  }
+  if (features.includes("water")) {
+    lines.push(
+      `way["natural"="water"]["name"]${around};`,
+      `relation["natural"="water"]["name"]${around};`,
+      `way["waterway"="river"]["name"]${around};`,
+      `node["natural"="beach"]["name"]${around};`,
+      `way["natural"="beach"]["name"]${around};`
+    );
+  }
+
+  return `
+      [out:json][timeout:15];
+      (
+        ${lines.join("\n        ")}
+      );
+      out center 20;
+    `.trim();
+}
+
+function placeType(tags: Record<string, string> | undefined): string {
+  if (tags?.highway === "path" || tags?.highway === "footway") return "trail";
+  if (tags?.route === "hiking") return "hiking trail";
+  if (tags?.leisure === "nature_reserve") return "nature reserve";
+  if (tags?.natural === "beach") return "beach";
+  if (tags?.natural === "water" || tags?.waterway) return "water";
+  return "park";
+}
+
+/**
+ * Parks, trails and (optionally) water near a point, nearest first, from the
+ * OpenStreetMap Overpass API. Throws when Overpass fails so callers can decide
+ * whether to fall back.
+ */
+export async function searchNaturePlaces(search: PlaceSearch): Promise<Place[]> {
+  const { latitude, longitude } = search;
+  const radiusMeters = search.radiusMeters ?? DEFAULT_RADIUS_METERS;
+  const features = search.features?.length ? search.features : DEFAULT_FEATURES;
+  const query = overpassQuery(latitude, longitude, radiusMeters, features);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 12000);
+
+  try {
+    const response = await fetch(
+      `https://overpass-api.de/api/interpreter`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: `data=${encodeURIComponent(query)}`,
+        signal: controller.signal,
+      }
+    );
+
+    if (!response.ok) {
+      console.error("OSM API error:", response.status);
+      throw new Error(`OSM API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    console.log(`OSM returned ${data.elements?.length || 0} elements`);
+
+    const places: Place[] = [];
+
+    for (const element of data.elements ?? []) {
+      const lat = element.lat || element.center?.lat;
+      const lng = element.lon || element.center?.lon;
+      const name = element.tags?.name;
+
+      if (!lat || !lng || !name) continue;
+
+      places.push({
+        id: `osm-${element.id}`,
+        name,
+        latitude: lat,
+        longitude: lng,
+        type: placeType(element.tags),
+        distance: calculateDistance(latitude, longitude, lat, lng),
+      });
+    }
+
+    places.sort((a, b) => a.distance - b.distance);
+    return Array.from(
+      new Map(places.map((p) => [p.name, p])).values()
+    ).slice(0, search.limit ?? 10);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export function calculateDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const R = 6371e3;
+  const p1 = (lat1 * Math.PI) / 180;
+  const p2 = (lat2 * Math.PI) / 180;
+  const dp = ((lat2 - lat1) * Math.PI) / 180;
+  const dl = ((lon2 - lon1) * Math.PI) / 180;
+
+  const a =
+    Math.sin(dp / 2) * Math.sin(dp / 2) +
+    Math.cos(p1) * Math.cos(p2) * Math.sin(dl / 2) * Math.sin(dl / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+}
+
+export function generateFallbackPlaces(latitude: number, longitude: number): Place[] {
+  if (!latitude || !longitude) {
+    return [
+      { id: "fallback-1", name: "Local Park", latitude: 37.7749, longitude: -122.4194, type: "park", distance: 500 },
+      { id: "fallback-2", name: "Nature Trail", latitude: 37.7739, longitude: -122.4184, type: "trail", distance: 1200 },
+    ];
+  }
+
+  return [
+    {
+      id: "fallback-1",
+      name: "Nearby Park",
+      latitude: latitude + 0.008,
+      longitude: longitude + 0.008,
+      type: "park",
+      distance: 1000,
+    },
+    {
+      id: "fallback-2",
+      name: "Nature Trail",
+      latitude: latitude - 0.012,
+      longitude: longitude + 0.015,
+      type: "trail",
+      distance: 2000,
+    },
+    {
+      id: "fallback-3",
+      name: "Community Park",
+      latitude: latitude + 0.015,
+      longitude: longitude - 0.01,
+      type: "park",
+      distance: 2200,
+    },
+  ];
+}
@@ -0,0 +1,126 @@
+import {
+  CAPABILITIES,
+  CONTEXT_AWARENESS,
+  CORE_PRINCIPLES,
+  excursionOutcomeBlock,
+  IDENTITY,
+  jsonReplyFormat,
+  memoryBlock,
+  PURPOSE,
+  recentActivityBlock,
+  RESPONSE_RULES,
+  SAFETY,
+  TONE,
+  userPreferencesBlock,
+} from './fragments.ts';
+
+/** `health_coach_message`: the chat coach. Short on purpose; it's read on a phone. */
+export function healthCoachText(context: Record<string, unknown>): string {
+  return `${IDENTITY}
+
+${PURPOSE}
+
+${TONE}
+
+CRITICAL COMMUNICATION RULES:
+- Keep responses VERY SHORT: 1-2 sentences maximum
+- No lists, no bullet points
+- Ask ONE simple question if needed
+- Sound natural, like texting a friend
+
+${SAFETY}
+
+${RESPONSE_RULES}
+
+RESPONSE STRUCTURE:
+Brief acknowledgment + one simple suggestion OR question.
+
+${jsonReplyFormat('Your very short, conversational response here')}${userPreferencesBlock(context)}`;
+}
+
+/** `health_coach_message` v2: v1 plus the user's recent excursions, feedback and health data. */
+export function healthCoachWithActivity(context: Record<string, unknown>): string {
+  return healthCoachText(context) + recentActivityBlock(context);
+}
+
+/** `health_coach_message` v3: v2 plus remembered facts and the session summary. */
+export function healthCoachWithMemory(context: Record<string, unknown>): string {
+  return healthCoachWithActivity(context) + memoryBlock(context);
+}
+
+/** `health_coach_message` during `post_excursion_followup`: reflecting on the excursion just finished. */
+export function postExcursionCoach(context: Record<string, unknown>): string {
+  return `${healthCoachWithMemory(context)}${excursionOutcomeBlock(context)}
+
+CURRENT PHASE: Post-Excursion Follow-up
+The user has just come back. Help them notice how they feel now, reflect on what they enjoyed or found hard, and carry it into next time.
+Use the stats and rating above; don't ask for what you already know. If they rated it low or stopped early, be curious, not disappointed.`;
+}
+
+function voiceCoachBase(): string {
+  return `${IDENTITY}
+
+${PURPOSE}
+
+${CORE_PRINCIPLES}
+
+${TONE}
+- Short responses by default (1-4 paragraphs or bullets)
+
+${SAFETY}
+
+${CONTEXT_AWARENESS}
+
+${CAPABILITIES}
+
+${RESPONSE_RULES}
+
+DEFAULT RESPONSE STRUCTURE:
+1. Brief acknowledgment
+2. One simple suggestion or practice
+3. Optional follow-up question
+
+You exist to help the user feel more present, more regulated, and more gently connected to the natural world. Nothing more. Nothing less.
+
+For voice interactions, keep responses conversational and concise (2-3 sentences typically).`;
+}
+
+/** `voice_message`: the spoken coach. Plain text out; it goes straight to TTS. */
+export function voiceCoach(context: Record<string, unknown>): string {
+  return voiceCoachBase() + userPreferencesBlock(context);
+}
+
+/** `voice_message` v2: v1 plus the user's recent activity. */
+export function voiceCoachWithActivity(context: Record<string, unknown>): string {
+  return voiceCoach(context) + recentActivityBlock(context);
+}
+
+/** `voice_message` v3: v2 plus remembered facts and the session summary. */
+export function voiceCoachWithMemory(context: Record<string, unknown>): string {
+  return voiceCoachWithActivity(context) + memoryBlock(context);
+}
+
+/** `voice_message` during `excursion_guiding`. */
+export function voiceGuiding(context: Record<string, unknown>): string {
+  const excursionTitle = context.excursion_title as string || 'your excursion';
+  const currentStep = context.current_step as number || 1;
+  const totalSteps = context.total_steps as number || 0;
+
+  return `${voiceCoachBase()}
+
+CURRENT CONTEXT:
+You are providing real-time guidance during an active nature excursion: "${excursionTitle}".
+Progress: Step ${currentStep}${totalSteps > 0 ? ` of ${totalSteps}` : ''}
+
+Focus on:
+- Real-time encouragement and mindfulness cues
+- Responding to what the user is experiencing right now
+- Safety awareness and pacing
+- Noticing their immediate surroundings
+- Keeping responses brief and conversational (1-2 sentences)${userPreferencesBlock(context)}`;
+}
+
+/** `voice_message` during `excursion_guiding`, v2: plus remembered facts. */
+export function voiceGuidingWithMemory(context: Record<string, unknown>): string {
+  return voiceGuiding(context) + memoryBlock(context);
+}
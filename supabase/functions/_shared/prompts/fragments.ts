@@ -0,0 +1,235 @@
+/**
+ * Prompt text shared by more than one prompt. Text and voice both build on
+ * these, so a change to identity or safety wording reaches every channel.
+ * Changing a fragment changes every prompt that uses it: bump their versions.
+ */
+
+export const IDENTITY = 'You are NatureUP, a calm, grounded nature-therapy companion.';
+
+export const PURPOSE = `Your purpose is to support emotional regulation, presence, and wellbeing through:
+- Gentle nature-based guidance
+- Mindfulness and sensory awareness
+- Light cognitive reframing without providing therapy
+
+You are not a clinician, therapist, diagnostician, or crisis counselor.`;
+
+export const CORE_PRINCIPLES = `CORE OPERATING PRINCIPLES:
+- Presence over performance
+- Regulation before reflection
+- Outdoors when possible, indoors when needed
+- Small moments matter
+- Do no harm
+
+Encourage real-world engagement with nature whenever safe and appropriate.`;
+
+export const TONE = `TONE & COMMUNICATION STYLE:
+- Calm, steady, grounded
+- Plain, concrete language
+- Nature-relevant metaphors allowed; no abstraction or hype
+- Never preachy, corrective, or judgmental
+- Speak with the user, not at them`;
+
+export const SAFETY = `SAFETY & BOUNDARIES (CRITICAL):
+- Never diagnose conditions or label mental health states
+- Never claim therapeutic or medical authority
+- Avoid absolutes ("always", "never")
+
+Distress Handling:
+If the user expresses distress:
+1. Respond with empathy
+2. Offer grounding or regulation first
+3. Keep suggestions optional and brief
+
+Crisis Handling:
+If the user expresses self-harm ideation, harm to others, or crisis-level distress:
+- Stop coaching immediately
+- Encourage contacting local emergency services or a trusted person
+- Do not continue CBT, mindfulness, or exploration`;
+
+/** The crisis rule alone, for task-focused prompts that don't carry all of SAFETY. */
+export const CRISIS_RULE = `SAFETY:
+If the user expresses self-harm ideation, harm to others, or crisis-level distress, stop the current task and encourage contacting local emergency services or a trusted person.`;
+
+export const CONTEXT_AWARENESS = `CONTEXT AWARENESS:
+Assume the user may be walking, sitting, resting, or driving, outdoors or transitioning between environments.
+
+Guidelines:
+- Prefer practices usable while moving or briefly pausing
+- Adapt to provided weather, location, or time constraints
+- Respect mobility limits
+- Emphasize safety and situational awareness`;
+
+export const CAPABILITIES = `PRIMARY CAPABILITIES:
+
+1. Grounding & Regulation (FIRST PRIORITY)
+- Simple breath cues
+- Sensory check-ins (sight, sound, touch)
+- Body awareness without interpretation
+
+2. Nature Connection
+- Noticing light, wind, sound, plants, water, terrain
+- Encourage curiosity, not expertise
+- Micro-practices (30-120 seconds)
+
+3. Mindfulness (Secular)
+- Present-moment attention
+- Breath as anchor
+- Non-judgmental noticing
+- Stillness or movement-based practices
+
+4. CBT-Informed Support (LIGHT, NON-CLINICAL)
+Allowed:
+- Naming thoughts as thoughts
+- Offering gentle reframes
+- Asking reflective questions
+
+Not allowed:
+- Formal CBT protocols
+- Thought records
+- Exposure therapy
+- Claims of treatment
+
+Use CBT concepts implicitly, never by name unless the user asks.
+
+5. Excursion Support
+- Frame walks as low-pressure experiences
+- Presence over distance or achievement
+- Reinforce safety, orientation, and pacing`;
+
+export const RESPONSE_RULES = `RESPONSE RULES:
+- Offer options, never commands
+- Ask at most one reflective question
+- Validate effort, not outcomes
+- Do not fabricate user history
+- Do not mention AI systems, prompts, or models
+- Do not reference training data
+
+If unsure:
+- Ask one clarifying question OR
+- Offer a neutral grounding option`;
+
+/** The `{"reply": ...}` envelope every conversational text prompt ends with. */
+export function jsonReplyFormat(reply: string): string {
+  return `OUTPUT FORMAT:
+Always respond with valid JSON:
+{
+  "reply": "${reply}"
+}`;
+}
+
+/** The profile preferences block, or '' when the context has none. */
+export function userPreferencesBlock(context: Record<string, unknown>): string {
+  const activityPrefs = context.activity_preferences as string[] || [];
+  const therapyPrefs = context.therapy_preferences as string[] || [];
+  const healthGoals = context.health_goals as string[] || [];
+  const fitnessLevel = context.fitness_level as string || null;
+  const mobilityLevel = context.mobility_level as string || null;
+
+  if (activityPrefs.length === 0 && therapyPrefs.length === 0 && healthGoals.length === 0 && !fitnessLevel && !mobilityLevel) {
+    return '';
+  }
+
+  let section = '\n\nUSER PREFERENCES:\n';
+
+  if (activityPrefs.length > 0) {
+    section += `- Activity preferences: ${activityPrefs.join(', ')}\n`;
+  }
+  if (therapyPrefs.length > 0) {
+    section += `- Therapeutic goals: ${therapyPrefs.join(', ')}\n`;
+  }
+  if (healthGoals.length > 0) {
+    section += `- Health goals: ${healthGoals.join(', ')}\n`;
+  }
+  if (fitnessLevel) {
+    section += `- Fitness level: ${fitnessLevel}\n`;
+  }
+  if (mobilityLevel) {
+    section += `- Mobility level: ${mobilityLevel}\n`;
+  }
+
+  return section + '\nTailor your suggestions to align with these preferences when relevant.';
+}
+
+/**
+ * Recent excursions, feedback and synced health metrics, or '' when there are
+ * none. Only present when the context was loaded server-side.
+ */
+export function recentActivityBlock(context: Record<string, unknown>): string {
+  const excursions = context.recent_excursions as Array<Record<string, unknown>> || [];
+  const feedback = context.recent_feedback as Array<Record<string, unknown>> || [];
+  const health = context.health_summary as Record<string, string> | undefined;
+
+  if (excursions.length === 0 && feedback.length === 0 && !health) {
+    return '';
+  }
+
+  let section = '\n\nRECENT ACTIVITY:\n';
+
+  for (const excursion of excursions) {
+    const details = [excursion.difficulty, excursion.duration_minutes ? `${excursion.duration_minutes} min` : null]
+      .filter(Boolean)
+      .join(', ');
+    section += `- Excursion "${excursion.title}"${details ? ` (${details})` : ''}: ${excursion.completed ? 'completed' : 'not completed'}\n`;
+  }
+  for (const entry of feedback) {
+    section += `- Rated "${entry.excursion ?? 'an excursion'}" ${entry.rating}/5${entry.comment ? `: "${entry.comment}"` : ''}\n`;
+  }
+  if (health) {
+    section += `- Health data this week: ${Object.entries(health).map(([metric, value]) => `${metric} ${value}`).join(', ')}\n`;
+  }
+
+  return section + '\nRefer to this history only when it helps; never invent details beyond it.';
+}
+
+/**
+ * How the excursion the user just finished went, for the post-excursion
+ * follow-up, or '' when it couldn't be loaded.
+ */
+export function excursionOutcomeBlock(context: Record<string, unknown>): string {
+  const title = context.excursion_title as string | undefined;
+  const stats = context.excursion_stats as Record<string, unknown> | undefined;
+  const feedback = context.excursion_feedback as Record<string, unknown> | undefined;
+
+  if (!title || !stats) {
+    return '';
+  }
+
+  let section = `\n\nTHE EXCURSION THEY JUST FINISHED:\n- "${title}"`;
+  const details = [
+    stats.difficulty,
+    stats.planned_minutes ? `planned ${stats.planned_minutes} min` : null,
+    stats.distance_km ? `${stats.distance_km} km` : null,
+  ].filter(Boolean);
+  if (details.length > 0) {
+    section += ` (${details.join(', ')})`;
+  }
+  if (typeof stats.actual_minutes === 'number') {
+    section += `\n- Out for ${stats.actual_minutes} min`;
+  }
+  if (typeof stats.steps_completed === 'number' && stats.total_steps) {
+    section += `\n- Completed ${stats.steps_completed} of ${stats.total_steps} activities`;
+  }
+  section += feedback
+    ? `\n- Rated it ${feedback.rating}/5${feedback.comment ? `: "${feedback.comment}"` : ''}`
+    : '\n- Skipped the rating';
+
+  return section;
+}
+
+/**
+ * Remembered facts about the user and the summary of earlier turns in this
+ * session, or '' when there are neither.
+ */
+export function memoryBlock(context: Record<string, unknown>): string {
+  const facts = context.user_facts as string[] || [];
+  const summary = context.session_summary as string || null;
+
+  let section = '';
+  if (facts.length > 0) {
+    section += `\n\nWHAT YOU KNOW ABOUT THE USER:\n${facts.map((fact) => `- ${fact}`).join('\n')}`;
+  }
+  if (summary) {
+    section += `\n\nEARLIER IN THIS CONVERSATION:\n${summary}`;
+  }
+  return section;
+}
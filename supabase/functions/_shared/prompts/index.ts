@@ -0,0 +1,136 @@
+import {
+  healthCoachText,
+  healthCoachWithActivity,
+  healthCoachWithMemory,
+  postExcursionCoach,
+  voiceCoach,
+  voiceCoachWithActivity,
+  voiceCoachWithMemory,
+  voiceGuiding,
+  voiceGuidingWithMemory,
+} from './coach.ts';
+import {
+  excursionGuiding,
+  excursionPlan,
+  excursionPlanWithSafety,
+  excursionPlanning,
+  excursionPlanningWithMemory,
+  excursionRefinement,
+  excursionRevise,
+} from './excursion.ts';
+import { intentExtract } from './intent.ts';
+import { conversationSummarize, conversationTitle } from './memory.ts';
+import { safetyCheck } from './safety.ts';
+
+export type { PlanningAction } from './excursion.ts';
+
+/**
+ * Every system prompt, keyed by action and (optionally) conversation phase,
+ * with explicit versions. Edit a prompt by adding a version rather than
+ * changing one in place, so `meta.prompt_version` always names the exact
+ * text that produced a reply.
+ *
+ * `AI_PROMPT_VERSIONS` pins or splits versions per prompt id, comma-separated:
+ *   health_coach_message@1       serve v1 instead of `current`
+ *   health_coach_message@1:20    serve v1 to 20% of requests, `current` to the rest
+ */
+
+type PromptBuilder = (context: Record<string, unknown>) => string;
+
+interface PromptDefinition {
+  current: number;
+  versions: Record<number, PromptBuilder>;
+}
+
+export interface ResolvedPrompt {
+  /** `action` or `action/phase`. */
+  id: string;
+  version: number;
+  text: string;
+}
+
+const PROMPTS: Record<string, PromptDefinition> = {
+  'health_coach_message/post_excursion_followup': { current: 1, versions: { 1: postExcursionCoach } },
+  'health_coach_message': {
+    current: 3,
+    versions: { 1: healthCoachText, 2: healthCoachWithActivity, 3: healthCoachWithMemory },
+  },
+  'excursion_creator_message/excursion_planning': {
+    current: 2,
+    versions: { 1: excursionPlanning, 2: excursionPlanningWithMemory },
+  },
+  'excursion_creator_message/excursion_creation': { current: 1, versions: { 1: excursionRefinement } },
+  'excursion_creator_message/excursion_guiding': { current: 1, versions: { 1: excursionGuiding } },
+  'excursion_creator_message': {
+    current: 1,
+    versions: { 1: () => 'You are a helpful AI assistant for nature excursions. Output JSON only.' },
+  },
+  'excursion_plan': { current: 2, versions: { 1: excursionPlan, 2: excursionPlanWithSafety } },
+  'excursion_revise': { current: 1, versions: { 1: excursionRevise } },
+  'intent_extract': { current: 1, versions: { 1: intentExtract } },
+  'conversation_summarize': { current: 1, versions: { 1: conversationSummarize } },
+  'conversation_title': { current: 1, versions: { 1: conversationTitle } },
+  'safety_check': { current: 1, versions: { 1: safetyCheck } },
+  'voice_message/excursion_guiding': { current: 2, versions: { 1: voiceGuiding, 2: voiceGuidingWithMemory } },
+  'voice_message': { current: 3, versions: { 1: voiceCoach, 2: voiceCoachWithActivity, 3: voiceCoachWithMemory } },
+  'default': { current: 1, versions: { 1: () => 'You are a helpful AI assistant. Output JSON only.' } },
+};
+
+interface VersionOverride {
+  version: number;
+  /** Share of requests (0-100) that get `version`. */
+  percent: number;
+}
+
+let overrides: Map<string, VersionOverride> | null = null;
+
+function getOverrides(): Map<string, VersionOverride> {
+  if (overrides) return overrides;
+  overrides = new Map();
+
+  for (const entry of (Deno.env.get('AI_PROMPT_VERSIONS') || '').split(',')) {
+    const match = entry.trim().match(/^([\w/]+)@(\d+)(?::(\d{1,3}))?$/);
+    if (!match) {
+      if (entry.trim()) console.warn(`Ignoring malformed AI_PROMPT_VERSIONS entry "${entry.trim()}"`);
+      continue;
+    }
+    const [, id, version, percent] = match;
+    if (!PROMPTS[id]?.versions[Number(version)]) {
+      console.warn(`Ignoring AI_PROMPT_VERSIONS entry for unknown prompt ${id}@${version}`);
+      continue;
+    }
+    overrides.set(id, { version: Number(version), percent: percent ? Math.min(100, Number(percent)) : 100 });
+  }
+  return overrides;
+}
+
+// Stable 0-99 bucket, so one conversation keeps getting the same variant.
+function bucketOf(key: string): number {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash) % 100;
+}
+
+/**
+ * The system prompt for an action in the context's phase, falling back to the
+ * action's phase-less prompt. `bucketKey` decides which side of a percentage
+ * split a request falls on; pass the session id when there is one.
+ */
+export function resolvePrompt(
+  action: string,
+  context: Record<string, unknown> = {},
+  bucketKey: string = crypto.randomUUID()
+): ResolvedPrompt {
+  const phase = context.phase as string | undefined;
+  const id = [phase ? `${action}/${phase}` : null, action, 'default'].find(
+    (key): key is string => !!key && key in PROMPTS
+  )!;
+  const definition = PROMPTS[id];
+
+  const override = getOverrides().get(id);
+  const version = override && bucketOf(bucketKey) < override.percent ? override.version : definition.current;
+
+  return { id, version, text: definition.versions[version](context) };
+}
@@ -0,0 +1,34 @@
+import { INTENT_ACTIVITIES, INTENT_AVOID, INTENT_COMPANIONS, INTENT_GOALS } from '../intent-vocabulary.ts';
+
+/** `intent_extract`: structured fields from one message, in any language. */
+export function intentExtract(): string {
+  return `You extract structured intent from one message sent to a nature-wellness app. The message may be in any language and may be messy, indirect or misspelled.
+
+The input has "text" (the message), and optionally "locale" and "now" (ISO timestamp). Return ONLY the fields the message actually supports; omit anything not stated or clearly implied. Never guess.
+
+FIELDS (all optional):
+- durationMinutes: number of minutes available (1-480)
+- proximityBias: "near_here" | "nearby" | "within_distance"
+- proximityDistanceKm: number, when a distance limit is given
+- locationPreference: "ai_suggestions" (wants you to pick) | "specific" (names a place)
+- specifiedLocation: the place name as written, when locationPreference is "specific"
+- activities: subset of ${JSON.stringify(INTENT_ACTIVITIES)} the user wants
+- excludedActivities: subset of the same list the user does NOT want
+- avoid: subset of ${JSON.stringify(INTENT_AVOID)}
+- difficulty: "easy" | "medium" | "hard"
+- therapeuticGoals: subset of ${JSON.stringify(INTENT_GOALS)}
+- companions: subset of ${JSON.stringify(INTENT_COMPANIONS)}
+- startTime: short English label for when they want to go ("tomorrow morning")
+- wantsExcursion: true if they want to go outside / plan an outing
+- isAffirmative: true if the message is agreeing to a proposal
+- isCorrection: true if it changes something said earlier
+- fieldConfidence: object mapping each returned field name to your confidence from 0 to 1
+
+Output format (JSON):
+{
+  "durationMinutes": 45,
+  "activities": ["Walking"],
+  "wantsExcursion": true,
+  "fieldConfidence": { "durationMinutes": 0.9, "activities": 0.8, "wantsExcursion": 0.9 }
+}`;
+}
@@ -0,0 +1,39 @@
+/** `conversation_summarize`: folds older turns into the session summary and picks out durable facts. */
+export function conversationSummarize(): string {
+  return `You maintain the memory of a conversation between a user and NatureUP, a nature-therapy companion.
+
+The input has "summary" (what earlier turns already covered, or null), "messages" (the next turns, oldest first) and "known_facts" (what is already remembered about the user).
+
+TASKS:
+1. Write an updated summary covering the old summary and the new messages: what the user talked about, how they were feeling, what was suggested and what they decided. At most 120 words, third person ("The user..."), no quotes.
+2. List durable facts about the user that will still be true next week and would change future suggestions: health or mobility limits ("has a bad knee"), likes and dislikes ("loves lakes"), routines and companions ("walks with their dog"). Short phrases, each under 15 words.
+
+FACT RULES:
+- Only facts the user stated about themselves; never infer or guess
+- Skip moods, one-off plans and anything in known_facts
+- Skip diagnoses, medications and other sensitive medical detail unless the user asked you to remember them
+- An empty list is normal
+
+Output format (JSON):
+{
+  "summary": "The user...",
+  "facts": ["has a bad knee"]
+}`;
+}
+
+/** `conversation_title`: names a conversation in the history list from its opening turns. */
+export function conversationTitle(): string {
+  return `You name conversations between a user and NatureUP, a nature-therapy companion, for the user's list of past conversations.
+
+The input has "messages": the opening turns, oldest first.
+
+RULES:
+- 2 to 6 words that say what the user wanted, e.g. "Lunchtime walk by the lake" or "Unwinding after a stressful week"
+- Use the language the user wrote in
+- Sentence case, no quotes, no emoji, no trailing punctuation
+- Keep it gentle and neutral; never repeat distressing details, health conditions or names of people
+- If the user only said hello, describe the conversation as a check-in
+
+Output format (JSON):
+{"title": "Lunchtime walk by the lake"}`;
+}
@@ -0,0 +1,62 @@
+export interface RouteWaypoint {
+  lat: number;
+  lng: number;
+}
+
+export type RouteMode = 'foot' | 'driving';
+
+export interface RouteResult {
+  coordinates: Array<{ latitude: number; longitude: number }>;
+  /** Meters. */
+  distance: number;
+  /** Seconds. */
+  duration: number;
+}
+
+interface OSRMResponse {
+  code: string;
+  routes: Array<{
+    geometry: {
+      coordinates: Array<[number, number]>;
+    };
+    distance: number;
+    duration: number;
+  }>;
+}
+
+/**
+ * Routes through the waypoints with the public OSRM server. Resolves to null
+ * when OSRM finds no route; throws when the request itself fails.
+ */
+export async function calculateRoute(
+  waypoints: RouteWaypoint[],
+  mode: RouteMode = 'foot'
+): Promise<RouteResult | null> {
+  const coordinates = waypoints
+    .map(wp => `${wp.lng},${wp.lat}`)
+    .join(';');
+
+  const osrmUrl = `https://router.project-osrm.org/route/v1/${mode}/${coordinates}?overview=full&geometries=geojson`;
+
+  const response = await fetch(osrmUrl);
+
+  if (!response.ok) {
+    throw new Error(`OSRM API error: ${response.statusText}`);
+  }
+
+  const data: OSRMResponse = await response.json();
+
+  if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) {
+    return null;
+  }
+
+  const route = data.routes[0];
+  return {
+    coordinates: route.geometry.coordinates.map(([lng, lat]) => ({
+      latitude: lat,
+      longitude: lng,
+    })),
+    distance: route.distance,
+    duration: route.duration,
+  };
+}
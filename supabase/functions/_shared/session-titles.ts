@@ -0,0 +1,71 @@
+import type { Caller } from './auth.ts';
+import type { HistoryMessage } from './user-context.ts';
+
+/**
+ * Conversation titles for the history list. Sessions start with
+ * `DEFAULT_SESSION_TITLE`; once the user has said something, the first few
+ * turns are titled by the model in the background, and a session keeps that
+ * title from then on.
+ */
+
+/** What `createSession` in services/chat.ts names every new session. */
+export const DEFAULT_SESSION_TITLE = 'New Conversation';
+
+/** How many opening turns the title is written from. */
+export const TITLE_TURNS = 4;
+
+const MAX_TITLE_CHARS = 60;
+
+/**
+ * The opening turns to title the session from, including the message being
+ * answered, or null when it already has a title or nothing has been said.
+ */
+export function turnsToTitle(
+  title: string | null,
+  history: HistoryMessage[],
+  message?: string
+): HistoryMessage[] | null {
+  if (title && title !== DEFAULT_SESSION_TITLE) return null;
+
+  const turns = message ? [...history, { role: 'user' as const, content: message }] : history;
+  if (!turns.some((turn) => turn.role === 'user')) return null;
+  return turns.slice(0, TITLE_TURNS);
+}
+
+/** Checks a `conversation_title` result: a short single line, without quotes or a trailing full stop. */
+export function validateSessionTitle(raw: unknown): string | null {
+  const title = (raw as { title?: unknown } | null)?.title;
+  if (typeof title !== 'string') return null;
+
+  const cleaned = title
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^["'“”‘’]+|["'“”‘’.]+$/g, '')
+    .trim();
+  if (!cleaned || cleaned === DEFAULT_SESSION_TITLE) return null;
+  return cleaned.length > MAX_TITLE_CHARS ? `${cleaned.slice(0, MAX_TITLE_CHARS - 1).trimEnd()}…` : cleaned;
+}
+
+/**
+ * Stores a generated title, only while the session still has the default one,
+ * so a title the session already got is never replaced; resolves to false
+ * when there was nothing to update.
+ */
+export async function saveSessionTitle(
+  { client }: Caller,
+  sessionId: string,
+  title: string
+): Promise<boolean> {
+  const { data, error } = await client
+    .from('chat_sessions')
+    .update({ title })
+    .eq('id', sessionId)
+    .eq('title', DEFAULT_SESSION_TITLE)
+    .select('id');
+
+  if (error) {
+    console.error('Error saving session title:', error.message);
+    return false;
+  }
+  return !!data?.length;
+}
@@ -0,0 +1,291 @@
+import type { Caller } from './auth.ts';
+import { selectFacts, type SessionMemory, type StoredTurn } from './memory.ts';
+
+/**
+ * Everything the assistants know about the user, loaded from the database
+ * for a verified caller rather than taken from the request, so text and
+ * voice are grounded in the same facts and a client can't claim a phase or
+ * profile it doesn't have.
+ */
+
+export interface HistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface SessionContext {
+  context: Record<string, unknown>;
+  /** Unsummarized turns of the session, oldest first, without the message being answered. */
+  history: HistoryMessage[];
+  memory: SessionMemory;
+  title: string | null;
+}
+
+// Folding keeps sessions well under this; it only bounds a fold that keeps failing.
+const MAX_UNSUMMARIZED = 40;
+const MAX_FACTS = 50;
+const RECENT_LIMIT = 3;
+const HEALTH_DAYS = 7;
+
+type Client = Caller['client'];
+
+async function loadProfile(client: Client, userId: string): Promise<Record<string, unknown>> {
+  const { data: profile } = await client
+    .from('user_profiles')
+    .select(
+      'activity_preferences, therapy_preferences, health_goals, fitness_level, mobility_level, risk_tolerance, preferences, apple_health_enabled'
+    )
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!profile) return {};
+
+  const locale = profile.preferences?.locale;
+  return {
+    activity_preferences: profile.activity_preferences || [],
+    therapy_preferences: profile.therapy_preferences || [],
+    health_goals: profile.health_goals || [],
+    fitness_level: profile.fitness_level,
+    mobility_level: profile.mobility_level,
+    risk_tolerance: profile.risk_tolerance,
+    ...(typeof locale === 'string' ? { locale } : {}),
+    apple_health_enabled: !!profile.apple_health_enabled,
+  };
+}
+
+async function loadRecentExcursions(client: Client, userId: string) {
+  const { data } = await client
+    .from('excursions')
+    .select('title, difficulty, duration_minutes, created_at, completed_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(RECENT_LIMIT);
+
+  return (data ?? []).map((excursion: Record<string, unknown>) => ({
+    title: excursion.title,
+    difficulty: excursion.difficulty,
+    duration_minutes: excursion.duration_minutes,
+    completed: !!excursion.completed_at,
+  }));
+}
+
+async function loadRecentFeedback(client: Client, userId: string) {
+  const { data } = await client
+    .from('excursion_feedback')
+    .select('rating, feedback_text, excursions(title)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(RECENT_LIMIT);
+
+  return (data ?? []).map((feedback: Record<string, unknown>) => ({
+    excursion: (feedback.excursions as { title?: string } | null)?.title,
+    rating: feedback.rating,
+    ...(feedback.feedback_text ? { comment: feedback.feedback_text } : {}),
+  }));
+}
+
+/** Latest synced value per metric over the last week, or null when nothing synced. */
+async function loadHealthSummary(client: Client, userId: string) {
+  const since = new Date(Date.now() - HEALTH_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data } = await client
+    .from('health_data_sync')
+    .select('metric_type, value, unit')
+    .eq('user_id', userId)
+    .gte('recorded_at', since.toISOString())
+    .order('recorded_at', { ascending: false });
+
+  const latest: Record<string, string> = {};
+  for (const metric of data ?? []) {
+    if (!(metric.metric_type in latest)) {
+      latest[metric.metric_type] = `${metric.value} ${metric.unit}`;
+    }
+  }
+  return Object.keys(latest).length > 0 ? latest : null;
+}
+
+/** Title and progress of the excursion a guiding session is for. */
+async function loadActiveExcursion(client: Client, excursionId: string, metadata: Record<string, unknown>) {
+  const { data: excursion } = await client
+    .from('excursions')
+    .select('title, route_data')
+    .eq('id', excursionId)
+    .maybeSingle();
+
+  if (!excursion) return {};
+
+  const steps = excursion.route_data?.steps;
+  return {
+    excursion_title: excursion.title,
+    current_step: typeof metadata.current_step === 'number' ? metadata.current_step + 1 : 1,
+    total_steps: Array.isArray(steps) ? steps.length : 0,
+  };
+}
+
+/** The finished excursion, how the run went and its rating, for the post-excursion coach. */
+async function loadExcursionOutcome(
+  client: Client,
+  excursionId: string,
+  metadata: Record<string, unknown>
+) {
+  const [{ data: excursion }, { data: feedback }] = await Promise.all([
+    client
+      .from('excursions')
+      .select('title, duration_minutes, distance_km, difficulty')
+      .eq('id', excursionId)
+      .maybeSingle(),
+    client
+      .from('excursion_feedback')
+      .select('rating, feedback_text')
+      .eq('excursion_id', excursionId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (!excursion) return {};
+
+  const outcome = (metadata.outcome as Record<string, unknown>) || {};
+  return {
+    excursion_title: excursion.title,
+    excursion_stats: {
+      planned_minutes: excursion.duration_minutes,
+      distance_km: excursion.distance_km,
+      difficulty: excursion.difficulty,
+      actual_minutes: outcome.elapsed_minutes,
+      steps_completed: outcome.steps_completed,
+      total_steps: outcome.total_steps,
+    },
+    ...(feedback
+      ? { excursion_feedback: { rating: feedback.rating, ...(feedback.feedback_text ? { comment: feedback.feedback_text } : {}) } }
+      : {}),
+  };
+}
+
+async function loadTurns(
+  client: Client,
+  sessionId: string,
+  summarizedThrough: string | null,
+  message?: string
+): Promise<StoredTurn[]> {
+  let query = client
+    .from('chat_messages')
+    .select('role, content, created_at')
+    .eq('session_id', sessionId)
+    .in('role', ['user', 'assistant']);
+  if (summarizedThrough) {
+    query = query.gt('created_at', summarizedThrough);
+  }
+
+  const { data } = await query.order('created_at', { ascending: false }).limit(MAX_UNSUMMARIZED + 1);
+  const turns: StoredTurn[] = (data ?? []).reverse();
+
+  // Clients store the user's message before asking for a reply; it is sent
+  // again as the message being answered.
+  const last = turns[turns.length - 1];
+  if (last && last.role === 'user' && last.content === message) {
+    turns.pop();
+  }
+  return turns.slice(-MAX_UNSUMMARIZED);
+}
+
+/** Stored facts about the user, newest first. */
+async function loadFacts(client: Client, userId: string): Promise<string[]> {
+  const { data } = await client
+    .from('user_memories')
+    .select('fact')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(MAX_FACTS);
+
+  return (data ?? []).map((row: { fact: string }) => row.fact);
+}
+
+/**
+ * What the assistants know about the caller outside any one session: the
+ * profile, recent excursions and feedback, the health summary and the facts
+ * relevant to `message`. An anonymous caller has none of these.
+ */
+async function loadCallerContext(
+  { client, userId }: Caller,
+  message?: string
+): Promise<{ context: Record<string, unknown>; facts: string[] }> {
+  if (!userId) return { context: {}, facts: [] };
+
+  const [profile, recentExcursions, recentFeedback, facts] = await Promise.all([
+    loadProfile(client, userId),
+    loadRecentExcursions(client, userId),
+    loadRecentFeedback(client, userId),
+    loadFacts(client, userId),
+  ]);
+
+  const { apple_health_enabled: healthEnabled, ...preferences } = profile;
+  const healthSummary = healthEnabled ? await loadHealthSummary(client, userId) : null;
+
+  return {
+    context: {
+      ...preferences,
+      recent_excursions: recentExcursions,
+      recent_feedback: recentFeedback,
+      ...(healthSummary ? { health_summary: healthSummary } : {}),
+      user_facts: selectFacts(facts, message),
+    },
+    facts,
+  };
+}
+
+/** The context for a request that isn't part of a session. */
+export async function loadUserContext(caller: Caller, message?: string): Promise<Record<string, unknown>> {
+  return (await loadCallerContext(caller, message)).context;
+}
+
+/**
+ * The context and history for a reply in `sessionId`. Resolves to null when
+ * the session doesn't exist or belongs to someone else; an anonymous caller
+ * only gets sessions without an owner.
+ */
+export async function loadSessionContext(
+  caller: Caller,
+  sessionId: string,
+  message?: string
+): Promise<SessionContext | null> {
+  const { client, userId } = caller;
+  const query = client
+    .from('chat_sessions')
+    .select('id, title, phase, conversation_metadata, excursion_id, summary, summarized_through')
+    .eq('id', sessionId);
+  const { data: session } = await (userId ? query.eq('user_id', userId) : query.is('user_id', null)).maybeSingle();
+
+  if (!session) return null;
+
+  const metadata = (session.conversation_metadata as Record<string, unknown>) || {};
+
+  const [user, turns, excursion] = await Promise.all([
+    loadCallerContext(caller, message),
+    loadTurns(client, sessionId, session.summarized_through, message),
+    !session.excursion_id
+      ? Promise.resolve({})
+      : session.phase === 'post_excursion_followup'
+      ? loadExcursionOutcome(client, session.excursion_id, metadata)
+      : loadActiveExcursion(client, session.excursion_id, metadata),
+  ]);
+
+  return {
+    context: {
+      session_id: session.id,
+      phase: session.phase,
+      session_metadata: metadata,
+      ...user.context,
+      ...excursion,
+      ...(session.summary ? { session_summary: session.summary } : {}),
+    },
+    history: turns.map(({ role, content }) => ({ role, content })),
+    memory: {
+      summary: session.summary,
+      summarizedThrough: session.summarized_through,
+      turns,
+      knownFacts: user.facts,
+    },
+    title: session.title,
+  };
+}
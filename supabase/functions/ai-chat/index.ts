@@ -1,4 +1,28 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { authenticate, type Caller } from '../_shared/auth.ts';
+import { crisisResponse, detectCrisis } from '../_shared/crisis.ts';
+import { INTENT_ACTIVITIES, INTENT_AVOID, INTENT_COMPANIONS, INTENT_GOALS } from '../_shared/intent-vocabulary.ts';
+import { saveMemoryUpdate, turnsToFold, validateMemoryUpdate, type SessionMemory } from '../_shared/memory.ts';
+import { resolvePrompt, type ResolvedPrompt } from '../_shared/prompts/index.ts';
+import { saveSessionTitle, turnsToTitle, validateSessionTitle } from '../_shared/session-titles.ts';
+import { loadSessionContext, loadUserContext, type HistoryMessage } from '../_shared/user-context.ts';
+import { mockProvider } from './mock-provider.ts';
+import {
+  planRepairMessage,
+  revisionRepairMessage,
+  validateExcursionPlan,
+  validateExcursionRevision,
+} from './plan-validation.ts';
+import {
+  createToolSession,
+  executeTool,
+  geminiTools,
+  MAX_TOOL_ROUNDS,
+  openAiTools,
+  TOOL_PROMPT,
+  type ToolCall,
+  type ToolSession,
+} from './tools.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,421 +30,837 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-type AiAction = 'health_coach_message' | 'excursion_plan' | 'excursion_creator_message';
+type AiAction =
+  | 'health_coach_message'
+  | 'excursion_plan'
+  | 'excursion_revise'
+  | 'excursion_creator_message'
+  | 'intent_extract'
+  | 'conversation_summarize'
+  | 'conversation_title'
+  | 'safety_check';
 
 interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
 }
 
-interface AiRequest {
+export interface AiRequest {
   action: AiAction;
   input: Record<string, unknown>;
+  /**
+   * Chat turns name their session. Context and history are loaded for the
+   * verified caller, from the session when there is one; any sent by the
+   * client are ignored.
+   */
+  session_id?: string;
   context?: Record<string, unknown>;
   conversation_history?: ChatMessage[];
+  /** Stream the reply as server-sent events (conversational actions only). */
+  stream?: boolean;
+  /** Replaces the final user message; used for repair round-trips. */
+  followUp?: string;
 }
 
 interface AiResponse<T = unknown> {
   ok: boolean;
   result?: T;
-  error?: { message: string; code?: string };
+  error?: { message: string; code?: string; issues?: string[] };
   meta?: {
     provider?: string;
     model?: string;
     latency_ms?: number;
     trace_id?: string;
+    retries?: number;
+    fallback_from?: string[];
+    repaired?: boolean;
+    tool_calls?: string[];
+    prompt_id?: string;
+    prompt_version?: number;
+    /** Set when the crisis check matched and `result` is the fixed response. */
+    safety?: 'crisis';
   };
 }
 
-interface Provider {
-  id: string;
-  model: string;
-  run: (req: AiRequest, traceId: string) => Promise<unknown>;
-}
+export type { PlanningAction } from '../_shared/prompts/index.ts';
+
+type IntentFieldSpec =
+  | { type: 'number'; min: number; max: number }
+  | { type: 'string'; enum?: readonly string[] }
+  | { type: 'boolean' }
+  | { type: 'string[]'; enum: readonly string[] };
+
+const INTENT_SCHEMA: Record<string, IntentFieldSpec> = {
+  durationMinutes: { type: 'number', min: 1, max: 480 },
+  proximityBias: { type: 'string', enum: ['none', 'near_here', 'nearby', 'within_distance'] },
+  proximityDistanceKm: { type: 'number', min: 0.1, max: 200 },
+  locationPreference: { type: 'string', enum: ['ai_suggestions', 'specific'] },
+  specifiedLocation: { type: 'string' },
+  activities: { type: 'string[]', enum: INTENT_ACTIVITIES },
+  excludedActivities: { type: 'string[]', enum: INTENT_ACTIVITIES },
+  avoid: { type: 'string[]', enum: INTENT_AVOID },
+  difficulty: { type: 'string', enum: ['easy', 'medium', 'hard'] },
+  therapeuticGoals: { type: 'string[]', enum: INTENT_GOALS },
+  companions: { type: 'string[]', enum: INTENT_COMPANIONS },
+  startTime: { type: 'string' },
+  wantsExcursion: { type: 'boolean' },
+  isAffirmative: { type: 'boolean' },
+  isCorrection: { type: 'boolean' },
+};
 
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-const OPENAI_MODEL = Deno.env.get('OPENAI_MODEL') || 'gpt-4o-mini';
+/**
+ * Keeps only schema-valid fields from the model's intent JSON. Invalid values
+ * are dropped rather than failing the whole response, and reported back.
+ */
+function validateIntentExtract(raw: unknown): { result: Record<string, unknown>; dropped: string[] } | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return null;
+  }
+
+  const input = raw as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  const dropped: string[] = [];
 
-const NATUREUP_SYSTEM_PROMPT = `You are NatureUP, a calm nature-therapy companion.
+  for (const [field, value] of Object.entries(input)) {
+    if (field === 'fieldConfidence') continue;
+    const spec = INTENT_SCHEMA[field];
+    if (!spec || value === null || value === undefined) {
+      if (spec === undefined) dropped.push(field);
+      continue;
+    }
 
-CRITICAL COMMUNICATION RULES:
-- Keep responses VERY SHORT: 1-2 sentences maximum
-- Use simple, conversational language
-- No lists, no bullet points
-- Ask ONE simple question if needed
-- Sound natural, like texting a friend
+    let valid = false;
+    switch (spec.type) {
+      case 'number':
+        valid = typeof value === 'number' && Number.isFinite(value) && value >= spec.min && value <= spec.max;
+        break;
+      case 'string':
+        valid = typeof value === 'string' && value.trim().length > 0 && (!spec.enum || spec.enum.includes(value));
+        break;
+      case 'boolean':
+        valid = typeof value === 'boolean';
+        break;
+      case 'string[]':
+        valid = Array.isArray(value) && value.every((v) => typeof v === 'string' && spec.enum.includes(v));
+        break;
+    }
 
-YOUR PURPOSE:
-Help users connect with nature for emotional regulation and presence.
+    if (valid) {
+      result[field] = value;
+    } else {
+      dropped.push(field);
+    }
+  }
 
-WHAT YOU DO:
-- Suggest simple nature practices (breathwork, sensory awareness)
-- Offer light reframing when helpful
-- Keep things optional and low-pressure
+  const confidence: Record<string, number> = {};
+  const rawConfidence = input.fieldConfidence;
+  if (rawConfidence && typeof rawConfidence === 'object') {
+    for (const [field, value] of Object.entries(rawConfidence as Record<string, unknown>)) {
+      if (typeof value === 'number' && value >= 0 && value <= 1) {
+        confidence[field] = value;
+      }
+    }
+  }
+  result.fieldConfidence = confidence;
 
-WHAT YOU DON'T DO:
-- Diagnose or provide therapy
-- Give commands or lectures
-- Write long responses
+  return { result, dropped };
+}
 
-SAFETY:
-- If user expresses crisis-level distress, encourage contacting emergency services
-- Keep suggestions safe and situational
+export interface ProviderContext {
+  traceId: string;
+  /** The system prompt for this request, from the registry in _shared/prompts. */
+  prompt: ResolvedPrompt;
+  signal?: AbortSignal;
+  /** Offered to the model when set; see tools.ts. */
+  tools?: ToolSession;
+  /** Called while tools run, so slow lookups don't count against the model's timeout. */
+  heartbeat?: () => void;
+}
 
-RESPONSE STRUCTURE:
-Brief acknowledgment + one simple suggestion OR question.
+export interface Provider {
+  id: string;
+  model: string;
+  run: (req: AiRequest, ctx: ProviderContext) => Promise<unknown>;
+  /**
+   * Same as `run`, but calls `onText` with each chunk of raw model output as
+   * it arrives. Resolves with the parsed result once the model is done.
+   */
+  stream?: (req: AiRequest, ctx: ProviderContext, onText: (chunk: string) => void) => Promise<unknown>;
+}
 
-OUTPUT FORMAT:
-Always respond with valid JSON:
-{
-  "reply": "Your very short, conversational response here"
-}`;
+// The optional model stage of the crisis check (see _shared/crisis.ts). Off
+// by default: the rules alone decide, and `concern` messages reach the
+// assistant, whose prompts carry their own crisis rule.
+const SAFETY_MODEL_CHECK = Deno.env.get('AI_SAFETY_MODEL_CHECK') === 'true';
 
-const openaiProvider: Provider = {
-  id: 'openai',
-  model: OPENAI_MODEL,
-  run: async (req: AiRequest, traceId: string) => {
-    if (!OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured');
-    }
+// Actions where the model may call tools (see tools.ts).
+const TOOL_ACTIONS: AiAction[] = ['excursion_creator_message', 'excursion_plan', 'excursion_revise'];
 
-    const systemPrompt = getSystemPrompt(req.action, req.context);
-    const messages: ChatMessage[] = [
-      { role: 'system', content: systemPrompt },
-    ];
+/** One model response: its text and any tool calls it asked for. */
+interface ModelTurn {
+  text: string;
+  toolCalls: ToolCall[];
+}
 
-    if (req.conversation_history && req.conversation_history.length > 0) {
-      messages.push(...req.conversation_history);
+/**
+ * Drives the tool-call loop shared by the providers: asks for a turn, runs
+ * any requested tools, hands the results back and repeats until the model
+ * answers. Tools are withdrawn after MAX_TOOL_ROUNDS so it has to.
+ */
+async function runToolLoop(
+  ctx: ProviderContext,
+  nextTurn: (offerTools: boolean) => Promise<ModelTurn>,
+  addResults: (turn: ModelTurn, results: unknown[]) => void
+): Promise<string> {
+  for (let round = 0; ; round++) {
+    const turn = await nextTurn(!!ctx.tools && round < MAX_TOOL_ROUNDS);
+    if (!ctx.tools || turn.toolCalls.length === 0) {
+      return turn.text;
     }
 
-    const userMessage = (req.action === 'health_coach_message' || req.action === 'excursion_creator_message')
-      ? (req.input.message as string) || ''
-      : JSON.stringify({ input: req.input, context: req.context || {} });
+    const results: unknown[] = [];
+    for (const call of turn.toolCalls) {
+      ctx.heartbeat?.();
+      results.push(await executeTool(call, ctx.tools, ctx.traceId));
+      ctx.heartbeat?.();
+    }
+    addResults(turn, results);
+  }
+}
 
-    messages.push({ role: 'user', content: userMessage });
+function parseToolArguments(raw: unknown): Record<string, unknown> {
+  if (raw && typeof raw === 'object') return raw as Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(String(raw || '{}'));
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: OPENAI_MODEL,
-        messages,
-        response_format: { type: 'json_object' },
-      }),
-    });
+function systemPromptFor(ctx: ProviderContext): string {
+  return ctx.prompt.text + (ctx.tools ? TOOL_PROMPT : '');
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
-    }
+/**
+ * A failed provider call. `retryable` marks failures worth another attempt
+ * (rate limits, 5xx, timeouts); anything else moves straight on to the next
+ * provider in the chain.
+ */
+class ProviderError extends Error {
+  status?: number;
+  retryable: boolean;
+  retryAfterMs?: number;
+
+  constructor(message: string, options: { status?: number; retryable?: boolean; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
 
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
+async function providerHttpError(name: string, response: Response): Promise<ProviderError> {
+  const errorText = await response.text();
+  const retryAfter = Number(response.headers.get('retry-after'));
 
-    if (!content) {
-      throw new Error('No content in OpenAI response');
-    }
+  return new ProviderError(`${name} API error: ${response.status} ${errorText}`, {
+    status: response.status,
+    retryable: response.status === 429 || response.status >= 500,
+    retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+  });
+}
 
-    try {
-      return JSON.parse(content);
-    } catch {
-      return { reply: content };
-    }
+interface ResultCheck {
+  validate: (raw: unknown, input: Record<string, unknown>) => { value: unknown; issues: string[] };
+  repairMessage: (issues: string[]) => string;
+  error: { message: string; code: string };
+}
+
+// Actions whose results are validated server-side, with one repair
+// round-trip when they fail.
+const RESULT_CHECKS: Partial<Record<AiAction, ResultCheck>> = {
+  excursion_plan: {
+    validate: (raw, input) => {
+      const checked = validateExcursionPlan(raw, input);
+      return { value: checked.plan, issues: checked.issues };
+    },
+    repairMessage: planRepairMessage,
+    error: { message: 'Model returned an invalid excursion plan', code: 'INVALID_PLAN' },
+  },
+  excursion_revise: {
+    validate: (raw, input) => {
+      const checked = validateExcursionRevision(raw, input);
+      return { value: checked.revision, issues: checked.issues };
+    },
+    repairMessage: revisionRepairMessage,
+    error: { message: 'Model returned an invalid excursion revision', code: 'INVALID_REVISION' },
   },
 };
 
-function getSystemPrompt(action: AiAction, context?: Record<string, unknown>): string {
-  let userPrefsSection = '';
-  const phase = (context?.phase as string) || 'initial_chat';
-  const sessionMetadata = (context?.session_metadata as Record<string, unknown>) || {};
+// Actions whose result has a user-facing `reply` worth streaming.
+const STREAMABLE_ACTIONS: AiAction[] = ['health_coach_message', 'excursion_creator_message'];
 
-  if (context) {
-    const activityPrefs = context.activity_preferences as string[] || [];
-    const therapyPrefs = context.therapy_preferences as string[] || [];
-    const healthGoals = context.health_goals as string[] || [];
-    const fitnessLevel = context.fitness_level as string || null;
-    const mobilityLevel = context.mobility_level as string || null;
+function getUserMessage(req: AiRequest): string {
+  if (req.followUp) return req.followUp;
+  return STREAMABLE_ACTIONS.includes(req.action)
+    ? (req.input.message as string) || ''
+    : JSON.stringify({ input: req.input, context: req.context || {} });
+}
 
-    if (activityPrefs.length > 0 || therapyPrefs.length > 0 || healthGoals.length > 0 || fitnessLevel || mobilityLevel) {
-      userPrefsSection = '\n\nUSER PREFERENCES:\n';
+function parseModelJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { reply: text };
+  }
+}
 
-      if (activityPrefs.length > 0) {
-        userPrefsSection += `- Activity preferences: ${activityPrefs.join(', ')}\n`;
-      }
-      if (therapyPrefs.length > 0) {
-        userPrefsSection += `- Therapeutic goals: ${therapyPrefs.join(', ')}\n`;
-      }
-      if (healthGoals.length > 0) {
-        userPrefsSection += `- Health goals: ${healthGoals.join(', ')}\n`;
-      }
-      if (fitnessLevel) {
-        userPrefsSection += `- Fitness level: ${fitnessLevel}\n`;
-      }
-      if (mobilityLevel) {
-        userPrefsSection += `- Mobility level: ${mobilityLevel}\n`;
-      }
+/**
+ * Yields the `data:` payload of each server-sent event in a provider
+ * response, as the bytes arrive.
+ */
+async function* readEventData(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer = (buffer + value).replace(/\r\n?/g, '\n');
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const event = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = event
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (data) yield data;
+    }
+  }
+}
 
-      userPrefsSection += '\nTailor your suggestions to align with these preferences when relevant.';
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+/**
+ * Decodes as much of the `"reply"` string as has arrived in a partial JSON
+ * document, or null if the key hasn't started yet. Stops before an escape
+ * sequence that is still incomplete.
+ */
+function partialReply(json: string): string | null {
+  const start = /"reply"\s*:\s*"/.exec(json);
+  if (!start) return null;
+
+  let out = '';
+  for (let i = start.index + start[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      out += char;
+      continue;
+    }
+    const next = json[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      if (i + 5 >= json.length) break;
+      out += String.fromCharCode(parseInt(json.slice(i + 2, i + 6), 16));
+      i += 5;
+    } else {
+      out += JSON_ESCAPES[next] ?? next;
+      i += 1;
     }
   }
+  return out;
+}
+
+const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
+const OPENAI_MODEL = Deno.env.get('OPENAI_MODEL') || 'gpt-4o-mini';
 
-  switch (action) {
-    case 'health_coach_message':
-      return NATUREUP_SYSTEM_PROMPT + userPrefsSection;
+type OpenAiMessage =
+  | ChatMessage
+  | {
+      role: 'assistant';
+      content: string | null;
+      tool_calls: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+    }
+  | { role: 'tool'; tool_call_id: string; content: string };
 
-    case 'excursion_creator_message':
-      if (phase === 'excursion_creation') {
-        return `You are NatureUP, helping users refine and customize their nature excursions.
+function buildOpenAiMessages(req: AiRequest, ctx: ProviderContext): OpenAiMessage[] {
+  const messages: OpenAiMessage[] = [
+    { role: 'system', content: systemPromptFor(ctx) },
+  ];
 
-CURRENT PHASE: Excursion Refinement
+  if (req.conversation_history && req.conversation_history.length > 0) {
+    messages.push(...req.conversation_history);
+  }
 
-The user has created an excursion and is now viewing it. They can ask questions about it or request changes.
+  messages.push({ role: 'user', content: getUserMessage(req) });
+  return messages;
+}
 
-YOUR ROLE:
-- Answer questions about the excursion
-- Help modify the route, duration, difficulty, or steps
-- Suggest alternatives if requested
-- Clarify directions or activities
-- Provide additional wellness tips for the excursion
+async function openAiRequest(
+  messages: OpenAiMessage[],
+  options: { stream: boolean; offerTools: boolean },
+  signal?: AbortSignal
+): Promise<Response> {
+  if (!OPENAI_API_KEY) {
+    throw new ProviderError('OPENAI_API_KEY not configured');
+  }
 
-COMMUNICATION STYLE:
-- Keep responses SHORT and conversational (2-3 sentences)
-- Be helpful and accommodating
-- Confirm changes clearly
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${OPENAI_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: OPENAI_MODEL,
+      messages,
+      response_format: { type: 'json_object' },
+      ...(options.offerTools ? { tools: openAiTools(), tool_choice: 'auto' } : {}),
+      ...(options.stream ? { stream: true } : {}),
+    }),
+    signal,
+  });
 
-WHEN USER REQUESTS CHANGES:
-Acknowledge the request and confirm you'll help modify it. Then provide the updated excursion details.
+  if (!response.ok) {
+    throw await providerHttpError('OpenAI', response);
+  }
 
-OUTPUT FORMAT:
-Always respond with valid JSON:
-{
-  "reply": "Your response acknowledging their question or confirming changes"
+  return response;
 }
 
-If the user requests specific changes to the excursion (duration, location, difficulty, steps), include:
-{
-  "reply": "Confirming message",
-  "requires_excursion_update": true,
-  "update_suggestions": "What needs to be changed"
-}${userPrefsSection}`;
-      }
+function addOpenAiToolResults(messages: OpenAiMessage[], turn: ModelTurn, results: unknown[]) {
+  messages.push({
+    role: 'assistant',
+    content: turn.text || null,
+    tool_calls: turn.toolCalls.map((call) => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+    })),
+  });
+  turn.toolCalls.forEach((call, i) => {
+    messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(results[i]) });
+  });
+}
 
-      if (phase === 'excursion_planning') {
-        const hasDuration = sessionMetadata.duration_minutes || sessionMetadata.detected_duration;
-        const hasLocation = sessionMetadata.location_preference || sessionMetadata.specified_location;
-        const askedConfirmation = sessionMetadata.asked_confirmation || false;
+const openaiProvider: Provider = {
+  id: 'openai',
+  model: OPENAI_MODEL,
+  run: async (req: AiRequest, ctx: ProviderContext) => {
+    const messages = buildOpenAiMessages(req, ctx);
+
+    const content = await runToolLoop(
+      ctx,
+      async (offerTools) => {
+        const response = await openAiRequest(messages, { stream: false, offerTools }, ctx.signal);
+        const data = await response.json();
+        const message = data.choices?.[0]?.message;
+        const toolCalls = (message?.tool_calls ?? []) as Array<{ id: string; function: { name: string; arguments: string } }>;
+
+        return {
+          text: message?.content ?? '',
+          toolCalls: toolCalls.map((call) => ({
+            id: call.id,
+            name: call.function.name,
+            arguments: parseToolArguments(call.function.arguments),
+          })),
+        };
+      },
+      (turn, results) => addOpenAiToolResults(messages, turn, results)
+    );
 
-        let metadataContext = '';
-        if (hasDuration) {
-          metadataContext += `\nCOLLECTED INFO:\n- Duration: ${sessionMetadata.duration_minutes || sessionMetadata.detected_duration} minutes\n`;
-        }
-        if (hasLocation) {
-          metadataContext += `- Location preference: ${sessionMetadata.location_preference || sessionMetadata.specified_location}\n`;
-        }
-        if (askedConfirmation) {
-          metadataContext += `- Already asked for confirmation\n`;
+    if (!content) {
+      throw new Error('No content in OpenAI response');
+    }
+
+    return parseModelJson(content);
+  },
+  stream: async (req: AiRequest, ctx: ProviderContext, onText: (chunk: string) => void) => {
+    const messages = buildOpenAiMessages(req, ctx);
+
+    const content = await runToolLoop(
+      ctx,
+      async (offerTools) => {
+        const response = await openAiRequest(messages, { stream: true, offerTools }, ctx.signal);
+        // Tool calls stream in pieces keyed by index; the arguments arrive as
+        // JSON text split across chunks.
+        const pending: Array<{ id: string; name: string; arguments: string }> = [];
+        let text = '';
+
+        for await (const data of readEventData(response)) {
+          if (data === '[DONE]') break;
+          const delta = JSON.parse(data)?.choices?.[0]?.delta;
+
+          if (typeof delta?.content === 'string' && delta.content) {
+            text += delta.content;
+            onText(delta.content);
+          }
+          for (const part of delta?.tool_calls ?? []) {
+            const call = (pending[part.index] ??= { id: '', name: '', arguments: '' });
+            if (part.id) call.id = part.id;
+            if (part.function?.name) call.name += part.function.name;
+            if (part.function?.arguments) call.arguments += part.function.arguments;
+          }
         }
 
-        return `You are helping someone plan a nature excursion. CURRENT PHASE: Excursion Planning
-
-CRITICAL RULES:
-- Write 1 short sentence
-- Sound natural, like texting a friend
-- DO NOT give hiking instructions or wellness tips yet
-
-YOUR GOAL:
-Get THREE things in order:
-1. Duration (how long they have)
-2. Location preference (specific place OR want suggestions)
-3. Confirmation to show options
-${metadataContext}
-CONVERSATION FLOW:
-Step 1: If duration NOT collected → Ask "How long do you have?"
-Step 2: If duration collected but location preference NOT clear → Ask "Do you have a trail in mind or want me to give you some options?"
-Step 3: If BOTH collected but haven't asked confirmation → Ask "Can I show you some options?" and set askedConfirmation=true
-Step 4: If confirmation given → Set readyToCreate=true
-
-LOCATION PREFERENCE EXAMPLES:
-- "surprise me" / "you choose" / "give me options" = wants AI suggestions
-- "I know a place" / specific trail name = has their own location
-- ANY clear indication of where they want to go
-
-CONFIRMATION DETECTION:
-If user responds with ANY affirmative response after you asked "Can I show you some options?":
-- "yes" / "yeah" / "sure" / "ok" / "please" / "go ahead" / "show me" = confirmed
-- Set readyToCreate=true
-
-WHEN TO SET readyToCreate=true:
-ONLY when ALL THREE are done:
-1. Duration collected
-2. Location preference collected
-3. User confirmed they want to see options${userPrefsSection}
-
-RESPONSE FORMAT (JSON):
-Always respond with valid JSON:
-{"reply": "Your short question here", "readyToCreate": false}
-
-When asking for confirmation:
-{"reply": "Can I show you some options?", "readyToCreate": false, "askedConfirmation": true}
-
-When user confirms:
-{"reply": "Perfect! You can tell me your excursion recipe or use the button below to get started.", "readyToCreate": true}`;
-      }
+        return {
+          text,
+          toolCalls: pending.filter(Boolean).map((call) => ({
+            id: call.id,
+            name: call.name,
+            arguments: parseToolArguments(call.arguments),
+          })),
+        };
+      },
+      (turn, results) => addOpenAiToolResults(messages, turn, results)
+    );
 
-      if (phase === 'excursion_guiding') {
-        return `You are NatureUP, guiding users during their active nature excursion.
+    if (!content) {
+      throw new Error('No content in OpenAI response');
+    }
 
-CURRENT PHASE: Active Excursion Guidance
+    return parseModelJson(content);
+  },
+};
 
-The user is currently on their excursion. Provide real-time support and encouragement.
+const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
+const GEMINI_MODEL = Deno.env.get('GEMINI_MODEL') || 'gemini-1.5-flash';
 
-YOUR ROLE:
-- Offer mindfulness prompts and sensory awareness exercises
-- Provide encouragement and motivation
-- Answer questions about the route or activities
-- Help with pacing and rest breaks
-- Enhance the therapeutic experience
+type GeminiPart =
+  | { text: string }
+  | { functionCall: { name: string; args?: Record<string, unknown> } }
+  | { functionResponse: { name: string; response: Record<string, unknown> } };
+
+type GeminiContent = { role: string; parts: GeminiPart[] };
+
+/** The text and function calls in one Gemini response (or stream chunk). */
+function geminiTurn(data: unknown): ModelTurn {
+  const parts = (data as { candidates?: Array<{ content?: { parts?: Array<Partial<Record<string, unknown>>> } }> })
+    ?.candidates?.[0]?.content?.parts ?? [];
+  let text = '';
+  const toolCalls: ToolCall[] = [];
+
+  for (const part of parts) {
+    if (typeof part?.text === 'string') text += part.text;
+    const call = part?.functionCall as { name?: string; args?: unknown } | undefined;
+    if (call?.name) {
+      toolCalls.push({ id: `${call.name}-${toolCalls.length}`, name: call.name, arguments: parseToolArguments(call.args) });
+    }
+  }
+  return { text, toolCalls };
+}
 
-COMMUNICATION STYLE:
-- Keep responses SHORT and uplifting (1-2 sentences)
-- Be present and supportive
-- Focus on the current moment
+function buildGeminiContents(req: AiRequest): GeminiContent[] {
+  const contents: GeminiContent[] = [];
 
-OUTPUT FORMAT:
-Always respond with valid JSON:
-{
-  "reply": "Your supportive, present-moment response"
-}${userPrefsSection}`;
+  if (req.conversation_history && req.conversation_history.length > 0) {
+    for (const msg of req.conversation_history) {
+      if (msg.role !== 'system') {
+        contents.push({
+          role: msg.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: msg.content }],
+        });
       }
-
-      return 'You are a helpful AI assistant for nature excursions. Output JSON only.';
-
-    case 'excursion_plan':
-      return `You are an AI assistant that creates personalized nature therapy excursions.
-
-ABSOLUTE REQUIREMENT - READ CAREFULLY:
-You will receive a "nearbyPlaces" array in the input. This contains parks and trails within 5 miles of the user.
-YOU MUST PICK THE DESTINATION FROM THIS LIST. DO NOT CREATE YOUR OWN DESTINATION.
-DO NOT USE ANY LOCATION NOT IN THE nearbyPlaces LIST.
-If the nearbyPlaces list is empty or missing, return an error.
-
-Your role:
-- Design safe, enjoyable outdoor routes
-- Consider user location, preferences, and duration
-- Focus on wellness benefits (stress reduction, mindfulness, physical activity)
-- Provide clear, actionable steps${userPrefsSection}
-
-HOW TO SELECT DESTINATION:
-1. Look at the nearbyPlaces array provided in the input
-2. Pick ONE place from that list based on:
-   - User's activity preferences
-   - Risk tolerance (low = easy access, medium = moderate, high = adventurous)
-   - Duration (shorter duration = closer place)
-   - Therapeutic goals
-3. Use the EXACT name, lat, and lng from the chosen place
-
-Output format (JSON):
-{
-  "title": "Excursion name",
-  "description": "Brief overview with wellness benefits",
-  "steps": ["Step 1: ...", "Step 2: ...", "Step 3: ..."],
-  "duration_minutes": 60,
-  "distance_km": 3.5,
-  "difficulty": "easy",
-  "destination": {
-    "name": "EXACT name from nearbyPlaces list",
-    "lat": EXACT latitude from nearbyPlaces list,
-    "lng": EXACT longitude from nearbyPlaces list
+    }
   }
+
+  contents.push({ role: 'user', parts: [{ text: getUserMessage(req) }] });
+  return contents;
 }
 
-VALIDATION CHECKLIST BEFORE RESPONDING:
-✓ Is the destination.name in the nearbyPlaces list?
-✓ Are the lat/lng copied EXACTLY from the nearbyPlaces list?
-✓ If NO, you MUST go back and pick from the list.`;
+async function geminiRequest(
+  req: AiRequest,
+  ctx: ProviderContext,
+  contents: GeminiContent[],
+  options: { stream: boolean; offerTools: boolean }
+): Promise<Response> {
+  if (!GEMINI_API_KEY) {
+    throw new ProviderError('GEMINI_API_KEY not configured');
+  }
+
+  const method = options.stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+  const url = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:${method}key=${GEMINI_API_KEY}`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      systemInstruction: { parts: [{ text: systemPromptFor(ctx) }] },
+      contents,
+      // Gemini rejects JSON mode together with function calling; the prompt
+      // still asks for JSON and parseModelJson copes if it isn't.
+      ...(options.offerTools
+        ? { tools: geminiTools() }
+        : { generationConfig: { responseMimeType: 'application/json' } }),
+    }),
+    signal: ctx.signal,
+  });
 
-    default:
-      return 'You are a helpful AI assistant. Output JSON only.';
+  if (!response.ok) {
+    throw await providerHttpError('Gemini', response);
   }
+
+  return response;
 }
 
-const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
-const GEMINI_MODEL = Deno.env.get('GEMINI_MODEL') || 'gemini-1.5-flash';
+function addGeminiToolResults(contents: GeminiContent[], turn: ModelTurn, results: unknown[]) {
+  contents.push({
+    role: 'model',
+    parts: turn.toolCalls.map((call) => ({ functionCall: { name: call.name, args: call.arguments } })),
+  });
+  contents.push({
+    role: 'user',
+    parts: turn.toolCalls.map((call, i) => ({
+      functionResponse: { name: call.name, response: { content: results[i] } },
+    })),
+  });
+}
 
 const geminiProvider: Provider = {
   id: 'gemini',
   model: GEMINI_MODEL,
-  run: async (req: AiRequest, traceId: string) => {
-    if (!GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY not configured');
-    }
+  run: async (req: AiRequest, ctx: ProviderContext) => {
+    const contents = buildGeminiContents(req);
+
+    const text = await runToolLoop(
+      ctx,
+      async (offerTools) => {
+        const response = await geminiRequest(req, ctx, contents, { stream: false, offerTools });
+        return geminiTurn(await response.json());
+      },
+      (turn, results) => addGeminiToolResults(contents, turn, results)
+    );
 
-    const systemPrompt = getSystemPrompt(req.action, req.context);
-    const contents: Array<{ role: string; parts: Array<{ text: string }> }> = [];
+    if (!text) {
+      throw new Error('No content in Gemini response');
+    }
 
-    if (req.conversation_history && req.conversation_history.length > 0) {
-      for (const msg of req.conversation_history) {
-        if (msg.role !== 'system') {
-          contents.push({
-            role: msg.role === 'assistant' ? 'model' : 'user',
-            parts: [{ text: msg.content }],
-          });
+    return parseModelJson(text);
+  },
+  stream: async (req: AiRequest, ctx: ProviderContext, onText: (chunk: string) => void) => {
+    const contents = buildGeminiContents(req);
+
+    const text = await runToolLoop(
+      ctx,
+      async (offerTools) => {
+        const response = await geminiRequest(req, ctx, contents, { stream: true, offerTools });
+        const turn: ModelTurn = { text: '', toolCalls: [] };
+
+        for await (const data of readEventData(response)) {
+          const chunk = geminiTurn(JSON.parse(data));
+          if (chunk.text) {
+            turn.text += chunk.text;
+            onText(chunk.text);
+          }
+          turn.toolCalls.push(...chunk.toolCalls);
         }
-      }
-    }
+        return turn;
+      },
+      (turn, results) => addGeminiToolResults(contents, turn, results)
+    );
 
-    const userMessage = (req.action === 'health_coach_message' || req.action === 'excursion_creator_message')
-      ? (req.input.message as string) || ''
-      : JSON.stringify({ input: req.input, context: req.context || {} });
+    if (!text) {
+      throw new Error('No content in Gemini response');
+    }
 
-    contents.push({ role: 'user', parts: [{ text: userMessage }] });
+    return parseModelJson(text);
+  },
+};
 
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent?key=${GEMINI_API_KEY}`;
+const PROVIDERS: Record<string, Provider> = {
+  openai: openaiProvider,
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        systemInstruction: { parts: [{ text: systemPrompt }] },
-        contents,
-        generationConfig: { responseMimeType: 'application/json' },
-      }),
-    });
+function envNumber(key: string, fallback: number): number {
+  const value = Number(Deno.env.get(key));
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Gemini API error: ${response.status} ${errorText}`);
+const PROVIDER_TIMEOUT_MS = envNumber('AI_PROVIDER_TIMEOUT_MS', 15000);
+const MAX_RETRIES = envNumber('AI_MAX_RETRIES', 2);
+const RETRY_BASE_MS = 300;
+const RETRY_MAX_MS = 4000;
+const CIRCUIT_FAILURE_THRESHOLD = envNumber('AI_CIRCUIT_FAILURE_THRESHOLD', 3);
+const CIRCUIT_COOLDOWN_MS = envNumber('AI_CIRCUIT_COOLDOWN_MS', 60000);
+
+/**
+ * Providers to try, in order. `AI_PROVIDERS` takes a comma-separated chain
+ * ("openai,gemini"); a single `AI_PROVIDER` still works on its own.
+ */
+function getProviderChain(): Provider[] {
+  const ids = (Deno.env.get('AI_PROVIDERS') || Deno.env.get('AI_PROVIDER') || 'openai')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  return ids.map((id) => {
+    const provider = PROVIDERS[id];
+    if (!provider) {
+      throw new Error(`Unsupported AI provider: ${id}`);
     }
+    return provider;
+  });
+}
 
-    const data = await response.json();
-    const text = data?.candidates?.[0]?.content?.parts?.map((p: { text?: string }) => p?.text ?? '').join('') ?? '';
+// Circuit state lives for the life of the function instance. After
+// CIRCUIT_FAILURE_THRESHOLD failed requests in a row a provider is skipped
+// until the cooldown passes; the next request is then a trial, and one more
+// failure opens the circuit again.
+const circuits = new Map<string, { failures: number; openUntil: number }>();
 
-    if (!text) {
-      throw new Error('No content in Gemini response');
+function isCircuitOpen(providerId: string): boolean {
+  const circuit = circuits.get(providerId);
+  return !!circuit && circuit.openUntil > Date.now();
+}
+
+function recordFailure(providerId: string, traceId: string) {
+  const circuit = circuits.get(providerId) ?? { failures: 0, openUntil: 0 };
+  circuit.failures += 1;
+
+  if (circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+    console.warn(`[${traceId}] circuit open for ${providerId} for ${CIRCUIT_COOLDOWN_MS}ms`);
+  }
+  circuits.set(providerId, circuit);
+}
+
+function recordSuccess(providerId: string) {
+  circuits.delete(providerId);
+}
+
+function isRetryable(error: unknown): boolean {
+  // Errors that aren't ProviderErrors are network failures or malformed
+  // model output, both of which are worth another try.
+  return error instanceof ProviderError ? error.retryable : true;
+}
+
+/** Exponential backoff with full jitter, stretched to honor `Retry-After`. */
+function retryDelay(attempt: number, error: unknown): number {
+  const ceiling = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempt - 1));
+  const jittered = Math.random() * ceiling;
+  const retryAfter = error instanceof ProviderError ? error.retryAfterMs ?? 0 : 0;
+  return Math.min(RETRY_MAX_MS, Math.max(jittered, retryAfter));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+interface ChainResult<T> {
+  result: T;
+  provider: Provider;
+  retries: number;
+  fallbackFrom: string[];
+}
+
+class ChainError extends Error {
+  code: string;
+  retries: number;
+
+  constructor(message: string, code: string, retries: number) {
+    super(message);
+    this.name = 'ChainError';
+    this.code = code;
+    this.retries = retries;
+  }
+}
+
+interface Attempt {
+  signal: AbortSignal;
+  /** First user-visible output: stops the clock and rules out a retry. */
+  onOutput: () => void;
+  /** Restarts the clock, e.g. around tool calls. */
+  heartbeat: () => void;
+}
+
+/**
+ * Runs `call` against each provider in the chain until one succeeds, retrying
+ * retryable failures with backoff and skipping providers whose circuit is
+ * open. Each attempt is cut off after PROVIDER_TIMEOUT_MS without progress; a
+ * streaming call reports its first output through `onOutput`, which stops the
+ * clock and also means a later failure can't be retried, since text has
+ * already been sent.
+ */
+async function runWithFailover<T>(
+  traceId: string,
+  call: (provider: Provider, attempt: Attempt) => Promise<T>
+): Promise<ChainResult<T>> {
+  const fallbackFrom: string[] = [];
+  let retries = 0;
+  let attempted = false;
+  let lastError: unknown;
+
+  for (const provider of getProviderChain()) {
+    if (isCircuitOpen(provider.id)) {
+      console.warn(`[${traceId}] skipping ${provider.id}: circuit open`);
+      fallbackFrom.push(provider.id);
+      continue;
     }
+    attempted = true;
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      if (attempt > 0) {
+        retries += 1;
+        await new Promise((resolve) => setTimeout(resolve, retryDelay(attempt, lastError)));
+      }
 
-    try {
-      return JSON.parse(text);
-    } catch {
-      return { reply: text };
+      const controller = new AbortController();
+      let timer = setTimeout(() => controller.abort(), PROVIDER_TIMEOUT_MS);
+      let started = false;
+
+      try {
+        const result = await call(provider, {
+          signal: controller.signal,
+          onOutput: () => {
+            started = true;
+            clearTimeout(timer);
+          },
+          heartbeat: () => {
+            if (started) return;
+            clearTimeout(timer);
+            timer = setTimeout(() => controller.abort(), PROVIDER_TIMEOUT_MS);
+          },
+        });
+        recordSuccess(provider.id);
+        return { result, provider, retries, fallbackFrom };
+      } catch (error) {
+        lastError = controller.signal.aborted && !started
+          ? new ProviderError(`${provider.id} timed out after ${PROVIDER_TIMEOUT_MS}ms`, { retryable: true })
+          : error;
+        console.warn(`[${traceId}] ${provider.id} attempt ${attempt + 1} failed:`, errorMessage(lastError));
+
+        if (started) {
+          recordFailure(provider.id, traceId);
+          throw new ChainError(errorMessage(lastError), 'AI_RUN_FAILED', retries);
+        }
+        if (!isRetryable(lastError)) break;
+      } finally {
+        clearTimeout(timer);
+      }
     }
-  },
-};
 
-function getProvider(): Provider {
-  const providerId = (Deno.env.get('AI_PROVIDER') || 'openai').toLowerCase();
+    // Only failures that say something about the provider's health count
+    // towards its circuit; a rejected request or missing key does not.
+    if (isRetryable(lastError)) {
+      recordFailure(provider.id, traceId);
+    }
+    fallbackFrom.push(provider.id);
+  }
 
-  switch (providerId) {
-    case 'openai':
-      return openaiProvider;
-    case 'gemini':
-      return geminiProvider;
-    default:
-      throw new Error(`Unsupported AI_PROVIDER: ${providerId}`);
+  if (!attempted) {
+    throw new ChainError('All AI providers are temporarily unavailable', 'AI_UNAVAILABLE', retries);
   }
+  throw new ChainError(errorMessage(lastError), 'AI_RUN_FAILED', retries);
 }
 
 function jsonResponse(data: unknown, status = 200): Response {
@@ -433,6 +873,213 @@ function jsonResponse(data: unknown, status = 200): Response {
   });
 }
 
+function sseEvent(event: string, data: unknown): Uint8Array {
+  return new TextEncoder().encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function successMeta(
+  outcome: ChainResult<unknown>,
+  traceId: string,
+  start: number,
+  prompt: ResolvedPrompt,
+  tools?: ToolSession
+): AiResponse['meta'] {
+  return {
+    provider: outcome.provider.id,
+    model: outcome.provider.model,
+    latency_ms: Date.now() - start,
+    trace_id: traceId,
+    prompt_id: prompt.id,
+    prompt_version: prompt.version,
+    retries: outcome.retries,
+    ...(outcome.fallbackFrom.length > 0 ? { fallback_from: outcome.fallbackFrom } : {}),
+    ...(tools?.calls.length ? { tool_calls: tools.calls } : {}),
+  };
+}
+
+function failureResponse(error: unknown, traceId: string, start: number): AiResponse {
+  return {
+    ok: false,
+    error: {
+      message: errorMessage(error),
+      code: error instanceof ChainError ? error.code : 'AI_RUN_FAILED',
+    },
+    meta: {
+      latency_ms: Date.now() - start,
+      trace_id: traceId,
+      ...(error instanceof ChainError ? { retries: error.retries } : {}),
+    },
+  };
+}
+
+/**
+ * Streams a conversational reply as server-sent events: `delta` events carry
+ * the decoded `reply` text as it arrives, and a final `done` event carries the
+ * same `{ ok, result, meta }` envelope a non-streaming call would return, so
+ * structured fields like `readyToCreate` still arrive intact. Failures after
+ * the stream has started are sent as an `error` event.
+ */
+function streamResponse(
+  body: AiRequest,
+  prompt: ResolvedPrompt,
+  tools: ToolSession | undefined,
+  traceId: string,
+  start: number
+): Response {
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        const outcome = await runWithFailover(traceId, (provider, { signal, onOutput, heartbeat }) => {
+          const ctx: ProviderContext = { traceId, prompt, signal, tools, heartbeat };
+          if (!provider.stream) {
+            return provider.run(body, ctx);
+          }
+
+          let raw = '';
+          let sent = 0;
+          return provider.stream(body, ctx, (chunk) => {
+            onOutput();
+            raw += chunk;
+            const reply = partialReply(raw);
+            if (reply !== null && reply.length > sent) {
+              controller.enqueue(sseEvent('delta', { text: reply.slice(sent) }));
+              sent = reply.length;
+            }
+          });
+        });
+
+        console.log(JSON.stringify({ tag: 'perf', streamed: true, elapsed_ms: Date.now() - start }));
+
+        controller.enqueue(sseEvent('done', {
+          ok: true,
+          result: outcome.result,
+          meta: successMeta(outcome, traceId, start, prompt, tools),
+        }));
+      } catch (error) {
+        console.error(`[${traceId}] AI stream failed:`, errorMessage(error));
+        controller.enqueue(sseEvent('error', failureResponse(error, traceId, start)));
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+/**
+ * `safety_check`: the crisis rules, then the model for `concern` messages
+ * when AI_SAFETY_MODEL_CHECK is on. `checked` says whether the model was asked.
+ */
+async function runSafetyCheck(
+  body: AiRequest,
+  prompt: ResolvedPrompt,
+  traceId: string,
+  start: number
+): Promise<AiResponse> {
+  const check = detectCrisis(String(body.input.message ?? ''), body.input.locale as string | undefined);
+  if (check.level !== 'concern' || !SAFETY_MODEL_CHECK) {
+    return {
+      ok: true,
+      result: { crisis: check.level === 'crisis', checked: false },
+      meta: { latency_ms: Date.now() - start, trace_id: traceId },
+    };
+  }
+
+  const outcome = await runWithFailover(traceId, (provider, { signal, heartbeat }) =>
+    provider.run(body, { traceId, prompt, signal, heartbeat })
+  );
+  // Anything but a clear "no" counts as a crisis, as the prompt asks when unsure.
+  const crisis = (outcome.result as { crisis?: unknown } | null)?.crisis !== false;
+
+  return {
+    ok: true,
+    result: { crisis, checked: true },
+    meta: { ...successMeta(outcome, traceId, start, prompt), ...(crisis ? { safety: 'crisis' as const } : {}) },
+  };
+}
+
+/**
+ * Folds a long session's older turns into its summary and stores the facts
+ * learned from them. Runs in the background; replies never wait for it, and a
+ * failed fold is simply retried on the next turn.
+ */
+async function foldSessionMemory(
+  auth: Caller,
+  sessionId: string,
+  memory: SessionMemory,
+  traceId: string
+): Promise<void> {
+  const folded = turnsToFold(memory);
+  if (!folded) return;
+
+  try {
+    const prompt = resolvePrompt('conversation_summarize', {}, sessionId);
+    const outcome = await runWithFailover(traceId, (provider, { signal, heartbeat }) =>
+      provider.run(
+        {
+          action: 'conversation_summarize',
+          input: {
+            summary: memory.summary,
+            messages: folded.map(({ role, content }) => ({ role, content })),
+            known_facts: memory.knownFacts,
+          },
+        },
+        { traceId, prompt, signal, heartbeat }
+      )
+    );
+
+    const update = validateMemoryUpdate(outcome.result, memory.knownFacts);
+    if (!update) {
+      console.warn(`[${traceId}] conversation_summarize returned an invalid result`);
+      return;
+    }
+    if (await saveMemoryUpdate(auth, sessionId, memory, folded, update)) {
+      console.log(`[${traceId}] folded ${folded.length} turns into the summary, ${update.facts.length} new facts`);
+    }
+  } catch (error) {
+    console.error(`[${traceId}] Memory fold failed:`, errorMessage(error));
+  }
+}
+
+/**
+ * Names a session from its opening turns. Like the memory fold it runs in the
+ * background, and a session that didn't get a title is tried again next turn.
+ */
+async function titleSession(
+  auth: Caller,
+  sessionId: string,
+  turns: HistoryMessage[],
+  traceId: string
+): Promise<void> {
+  try {
+    const prompt = resolvePrompt('conversation_title', {}, sessionId);
+    const outcome = await runWithFailover(traceId, (provider, { signal, heartbeat }) =>
+      provider.run(
+        { action: 'conversation_title', input: { messages: turns } },
+        { traceId, prompt, signal, heartbeat }
+      )
+    );
+
+    const title = validateSessionTitle(outcome.result);
+    if (!title) {
+      console.warn(`[${traceId}] conversation_title returned an invalid result`);
+      return;
+    }
+    if (await saveSessionTitle(auth, sessionId, title)) {
+      console.log(`[${traceId}] titled the session "${title}"`);
+    }
+  } catch (error) {
+    console.error(`[${traceId}] Session title failed:`, errorMessage(error));
+  }
+}
+
 Deno.serve(async (req: Request) => {
   const traceId = crypto.randomUUID();
   const start = Date.now();
@@ -476,41 +1123,168 @@ Deno.serve(async (req: Request) => {
     );
   }
 
+  const auth = await authenticate(req);
+  if (!auth) {
+    return jsonResponse(
+      { ok: false, error: { message: 'Missing or invalid authorization', code: 'UNAUTHORIZED' }, meta: { trace_id: traceId } },
+      401
+    );
+  }
+
+  // Context and history always come from the database; whatever the client
+  // sent is replaced, as is `followUp`, which only repairs set. The device's
+  // location is the one thing only the client knows.
+  const message = body.input.message as string | undefined;
+  const { user_location } = body.input;
+  const location = user_location ? { user_location } : {};
+
+  let context: Record<string, unknown>;
+  let history: HistoryMessage[] = [];
+
+  const sessionId = body.session_id;
+  if (sessionId) {
+    const session = await loadSessionContext(auth, sessionId, message);
+    if (!session) {
+      return jsonResponse(
+        { ok: false, error: { message: 'Session not found', code: 'SESSION_NOT_FOUND' }, meta: { trace_id: traceId } },
+        404
+      );
+    }
+
+    context = session.context;
+    history = session.history;
+    EdgeRuntime.waitUntil(foldSessionMemory(auth, sessionId, session.memory, traceId));
+    const titleTurns = turnsToTitle(session.title, session.history, message);
+    if (titleTurns) {
+      EdgeRuntime.waitUntil(titleSession(auth, sessionId, titleTurns, traceId));
+    }
+  } else {
+    context = await loadUserContext(auth, message);
+  }
+
+  body = { ...body, context: { ...context, ...location }, conversation_history: history, followUp: undefined };
+  mark('after_context');
+
+  // A conversational turn that trips the crisis rules gets the fixed response
+  // and never reaches a model.
+  if (STREAMABLE_ACTIONS.includes(body.action)) {
+    const locale = body.context?.locale as string | undefined;
+    const check = detectCrisis(String(body.input.message ?? ''), locale);
+    if (check.level === 'crisis') {
+      console.warn(`[${traceId}] ${body.action} matched the crisis rules; sending the fixed response`);
+      return jsonResponse({
+        ok: true,
+        result: { reply: crisisResponse(check, locale), crisis: true },
+        meta: { latency_ms: Date.now() - start, trace_id: traceId, safety: 'crisis' },
+      });
+    }
+  }
+
   try {
     mark('before_ai');
-    const provider = getProvider();
-    const result = await provider.run(body, traceId);
+
+    // Bucketed by session so a prompt A/B split doesn't flip mid-conversation.
+    const prompt = resolvePrompt(body.action, body.context, (body.context?.session_id as string | undefined) ?? traceId);
+    const tools = TOOL_ACTIONS.includes(body.action) ? createToolSession(body.context) : undefined;
+
+    if (body.action === 'safety_check') {
+      return jsonResponse(await runSafetyCheck(body, prompt, traceId, start));
+    }
+
+    if (body.stream && STREAMABLE_ACTIONS.includes(body.action)) {
+      return streamResponse(body, prompt, tools, traceId, start);
+    }
+
+    const outcome = await runWithFailover(traceId, (provider, { signal, heartbeat }) =>
+      provider.run(body, { traceId, prompt, signal, tools, heartbeat })
+    );
+    let result = outcome.result;
     mark('after_ai');
 
+    if (body.action === 'intent_extract') {
+      const validated = validateIntentExtract(result);
+      if (!validated) {
+        return jsonResponse(
+          {
+            ok: false,
+            error: { message: 'Model returned an invalid intent', code: 'INVALID_MODEL_OUTPUT' },
+            meta: successMeta(outcome, traceId, start, prompt),
+          },
+          502
+        );
+      }
+      if (validated.dropped.length > 0) {
+        console.warn(`[${traceId}] intent_extract dropped invalid fields:`, validated.dropped.join(', '));
+      }
+      result = validated.result;
+    }
+
+    let repaired = false;
+    const check = RESULT_CHECKS[body.action];
+    if (check) {
+      // Places the model looked up itself are as valid a destination as the
+      // ones the client sent.
+      const checkInput = () => ({
+        ...body.input,
+        nearbyPlaces: [...((body.input.nearbyPlaces as unknown[]) ?? []), ...(tools?.places ?? [])],
+      });
+      let checked = check.validate(result, checkInput());
+
+      // One repair round-trip: show the model its answer and what is wrong
+      // with it, then validate again.
+      if (!checked.value) {
+        console.warn(`[${traceId}] ${body.action} failed validation:`, checked.issues.join('; '));
+        const repair = await runWithFailover(traceId, (provider, { signal, heartbeat }) =>
+          provider.run(
+            {
+              ...body,
+              conversation_history: [
+                ...(body.conversation_history ?? []),
+                { role: 'user', content: getUserMessage(body) },
+                { role: 'assistant', content: JSON.stringify(result) },
+              ],
+              followUp: check.repairMessage(checked.issues),
+            },
+            { traceId, prompt, signal, tools, heartbeat }
+          )
+        );
+        checked = check.validate(repair.result, checkInput());
+        repaired = true;
+      }
+
+      if (!checked.value) {
+        console.error(`[${traceId}] ${body.action} still invalid after repair:`, checked.issues.join('; '));
+        return jsonResponse(
+          {
+            ok: false,
+            error: { ...check.error, issues: checked.issues },
+            meta: { ...successMeta(outcome, traceId, start, prompt), repaired },
+          },
+          502
+        );
+      }
+      result = checked.value;
+    }
+
     const perfData = {
       tag: 'perf',
       marks,
       elapsed_ms: since('start'),
       ai_ms: since('before_ai'),
+      provider: outcome.provider.id,
+      retries: outcome.retries,
     };
     console.log(JSON.stringify(perfData));
 
     return jsonResponse({
       ok: true,
       result,
-      meta: {
-        provider: provider.id,
-        model: provider.model,
-        latency_ms: Date.now() - start,
-        trace_id: traceId,
-      },
+      meta: { ...successMeta(outcome, traceId, start, prompt, tools), ...(repaired ? { repaired } : {}) },
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`[${traceId}] AI run failed:`, message);
+    console.error(`[${traceId}] AI run failed:`, errorMessage(error));
 
-    return jsonResponse(
-      {
-        ok: false,
-        error: { message, code: 'AI_RUN_FAILED' },
-        meta: { latency_ms: Date.now() - start, trace_id: traceId },
-      },
-      500
-    );
+    const unavailable = error instanceof ChainError && error.code === 'AI_UNAVAILABLE';
+    return jsonResponse(failureResponse(error, traceId, start), unavailable ? 503 : 500);
   }
 });
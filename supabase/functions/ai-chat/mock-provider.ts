@@ -0,0 +1,293 @@
+import defaultFixtures from './fixtures/mock-replies.json' with { type: 'json' };
+import type { AiRequest, PlanningAction, Provider, ProviderContext } from './index.ts';
+
+/**
+ * Offline provider for development and tests (`AI_PROVIDER=mock`). Replies
+ * are deterministic: chat turns are picked from fixture rules and plans are
+ * built from the request's `nearbyPlaces`, so the whole app flow runs with no
+ * network or API key.
+ *
+ * Fixtures come from ./fixtures/mock-replies.json, or from the file named by
+ * `AI_MOCK_FIXTURES` to script a specific scenario.
+ */
+
+type MockFixtures = typeof defaultFixtures;
+
+type PlanTemplate = {
+  title: string;
+  description: string;
+  steps: string[];
+  km_per_hour: number;
+};
+
+type NearbyPlace = { name: string; lat: number; lng: number; type?: string };
+
+let fixturesPromise: Promise<MockFixtures> | null = null;
+
+function loadFixtures(): Promise<MockFixtures> {
+  const path = Deno.env.get('AI_MOCK_FIXTURES');
+  if (!path) return Promise.resolve(defaultFixtures);
+
+  fixturesPromise ??= Deno.readTextFile(path).then((text) => JSON.parse(text) as MockFixtures);
+  return fixturesPromise;
+}
+
+function fill(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match));
+}
+
+function includesKeyword(text: string, keyword: string): boolean {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}\\b`, 'i').test(text);
+}
+
+function healthCoachReply(fixtures: MockFixtures, message: string): string {
+  const rules = fixtures.health_coach_message;
+  const rule = rules.rules.find((r) => r.keywords.some((k) => includesKeyword(message, k)));
+  return rule?.reply ?? rules.default;
+}
+
+function planSummary(metadata: Record<string, unknown>): string {
+  const parts: string[] = [];
+  const duration = metadata.duration_minutes ?? metadata.detected_duration;
+  const activities = metadata.activities_mentioned as string[] | undefined;
+
+  if (duration) parts.push(`${duration} minutes`);
+  if (activities?.length) parts.push(activities.join(' and ').toLowerCase());
+  if (metadata.specified_location) parts.push(`at ${metadata.specified_location}`);
+  else if (metadata.location_preference === 'ai_suggestions') parts.push('somewhere I pick nearby');
+
+  return parts.length ? parts.join(', ') : 'a short time outside';
+}
+
+function excursionCreatorReply(fixtures: MockFixtures, context: Record<string, unknown>): string {
+  const replies = fixtures.excursion_creator_message;
+  const phase = (context.phase as string) || 'initial_chat';
+  const metadata = (context.session_metadata as Record<string, unknown>) || {};
+
+  switch (phase) {
+    case 'excursion_guiding':
+      return replies.guiding;
+    case 'post_excursion_followup':
+      return replies.post_excursion;
+    case 'excursion_planning': {
+      const next = (metadata.planning as { next?: PlanningAction } | undefined)?.next;
+      if (!next || next.kind === 'ask') {
+        const slot = next?.slot ?? 'duration';
+        return (replies.ask as Record<string, string>)[slot] ?? replies.default;
+      }
+      return next.kind === 'confirm' ? fill(replies.confirm, { summary: planSummary(metadata) }) : replies.ready;
+    }
+    default:
+      return replies.default;
+  }
+}
+
+function distanceKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+const DIFFICULTY: Record<string, 'easy' | 'moderate' | 'challenging'> = {
+  low: 'easy',
+  easy: 'easy',
+  medium: 'moderate',
+  moderate: 'moderate',
+  high: 'challenging',
+  hard: 'challenging',
+};
+
+/**
+ * Builds a plan the way the prompt asks the model to: the closest nearby
+ * place that doesn't look like something the user wants to avoid, copied
+ * exactly, and the first wanted activity that isn't excluded.
+ */
+function excursionPlan(fixtures: MockFixtures, input: Record<string, unknown>) {
+  const plans = fixtures.excursion_plan;
+  const templates = plans.activities as Record<string, PlanTemplate>;
+  const preferences = (input.preferences as Record<string, unknown>) || {};
+  const excluded = (preferences.excludedActivities as string[]) || [];
+  const avoid = (preferences.avoid as string[]) || [];
+  const wanted = ((preferences.activities as string[]) || []).filter((a) => templates[a] && !excluded.includes(a));
+  const activity =
+    wanted[0] ??
+    [plans.default_activity, ...Object.keys(templates)].find((a) => templates[a] && !excluded.includes(a)) ??
+    plans.default_activity;
+  const template = templates[activity] ?? templates[plans.default_activity];
+
+  let duration = Number(input.durationMinutes) || 30;
+  const schedule = input.schedule as { startAt?: string; endBy?: string } | undefined;
+  if (schedule?.endBy) {
+    const start = schedule.startAt ? Date.parse(schedule.startAt) : Date.now();
+    const window = Math.floor((Date.parse(schedule.endBy) - start) / 60000);
+    if (window > 0) duration = Math.min(duration, window);
+  }
+
+  const origin = input.userLocation as { lat: number; lng: number } | undefined;
+  const avoidWords = avoid.flatMap((a) => (plans.avoid_place_words as Record<string, string[]>)[a] ?? []);
+  const places = ((input.nearbyPlaces as NearbyPlace[]) || []).filter(
+    (p) => !avoidWords.some((w) => includesKeyword(`${p.name} ${p.type ?? ''}`, w))
+  );
+  const place = origin
+    ? [...places].sort((a, b) => distanceKm(origin, a) - distanceKm(origin, b))[0]
+    : places[0];
+
+  const placeName = place?.name ?? 'a green space near you';
+  const values = { place: placeName, duration };
+
+  return {
+    title: fill(template.title, values),
+    description: fill(template.description, values),
+    steps: template.steps.map((step) => fill(step, values)),
+    duration_minutes: duration,
+    distance_km: Math.round((template.km_per_hour * duration) / 60 * 10) / 10,
+    difficulty: DIFFICULTY[String(preferences.energyLevel ?? preferences.difficulty)] ?? 'easy',
+    ...(place ? { destination: { name: place.name, lat: place.lat, lng: place.lng } } : {}),
+  };
+}
+
+/**
+ * Revises an excursion from keywords in the request: shorter or longer by a
+ * third (or to an explicit "N minutes"), easier or harder by one level, or the
+ * closest other nearby place.
+ */
+function excursionRevision(fixtures: MockFixtures, input: Record<string, unknown>) {
+  const revise = fixtures.excursion_revise;
+  const request = String(input.request ?? '');
+  const excursion = (input.excursion as Record<string, unknown>) || {};
+  const route = (excursion.route_data as { destination?: NearbyPlace } | undefined) || {};
+  const mentions = (words: string[]) => words.some((w) => includesKeyword(request, w));
+
+  const changes: Record<string, unknown> = {};
+  const summary: string[] = [];
+  const current = Number(excursion.duration_minutes) || 30;
+  const explicit = request.match(/(\d+)\s*(?:min|minutes?)\b/i);
+
+  let duration: number | undefined;
+  if (explicit) duration = Number(explicit[1]);
+  else if (mentions(revise.keywords.shorter)) duration = Math.max(10, Math.round((current * 2) / 3));
+  else if (mentions(revise.keywords.longer)) duration = Math.round(current * 1.5);
+  if (duration && duration !== current) {
+    changes.duration_minutes = duration;
+    summary.push(fill(revise.summary.duration, { duration }));
+  }
+
+  const levels = ['easy', 'moderate', 'challenging'] as const;
+  const level = Math.max(0, levels.indexOf(DIFFICULTY[String(excursion.difficulty)] ?? 'easy'));
+  const difficulty = mentions(revise.keywords.easier)
+    ? levels[Math.max(0, level - 1)]
+    : mentions(revise.keywords.harder)
+      ? levels[Math.min(levels.length - 1, level + 1)]
+      : undefined;
+  if (difficulty && difficulty !== levels[level]) {
+    changes.difficulty = difficulty;
+    summary.push(fill(revise.summary.difficulty, { difficulty }));
+  }
+
+  if (mentions(revise.keywords.elsewhere)) {
+    const from = route.destination;
+    const others = ((input.nearbyPlaces as NearbyPlace[]) || []).filter((p) => p.name !== from?.name);
+    const place = from ? [...others].sort((a, b) => distanceKm(from, a) - distanceKm(from, b))[0] : others[0];
+    if (place) {
+      changes.destination = { name: place.name, lat: place.lat, lng: place.lng };
+      summary.push(fill(revise.summary.destination, { place: place.name }));
+    }
+  }
+
+  if (summary.length === 0) {
+    return { summary: revise.unchanged, changes };
+  }
+  const text = summary.join(', ');
+  return { summary: text.charAt(0).toUpperCase() + text.slice(1), changes };
+}
+
+/**
+ * Summarizes by topic keywords across the turns and learns the fixture facts
+ * whose keywords appear in the user's own messages.
+ */
+function conversationSummary(fixtures: MockFixtures, input: Record<string, unknown>) {
+  const rules = fixtures.conversation_summarize;
+  const messages = (input.messages as Array<{ role: string; content: string }>) || [];
+  const known = ((input.known_facts as string[]) || []).map((fact) => fact.toLowerCase());
+  const all = messages.map((m) => m.content).join('\n');
+  const userText = messages.filter((m) => m.role === 'user').map((m) => m.content).join('\n');
+
+  const topics = rules.topics.filter((t) => t.keywords.some((k) => includesKeyword(all, k))).map((t) => t.topic);
+  const facts = rules.facts
+    .filter((f) => f.keywords.some((k) => includesKeyword(userText, k)) && !known.includes(f.fact))
+    .map((f) => f.fact);
+
+  return {
+    summary: fill(rules.summary, { topics: topics.join(', ') || rules.no_topics, count: messages.length }),
+    facts,
+  };
+}
+
+/** Titles by the first fixture rule whose keywords appear in the user's messages. */
+function conversationTitle(fixtures: MockFixtures, input: Record<string, unknown>) {
+  const rules = fixtures.conversation_title;
+  const messages = (input.messages as Array<{ role: string; content: string }>) || [];
+  const userText = messages.filter((m) => m.role === 'user').map((m) => m.content).join('\n');
+  const rule = rules.rules.find((r) => r.keywords.some((k) => includesKeyword(userText, k)));
+  return { title: rule?.title ?? rules.default };
+}
+
+async function mockResult(req: AiRequest): Promise<Record<string, unknown>> {
+  const fixtures = await loadFixtures();
+  const context = req.context || {};
+
+  switch (req.action) {
+    case 'health_coach_message':
+      return { reply: healthCoachReply(fixtures, String(req.input.message ?? '')) };
+    case 'excursion_creator_message': {
+      const message = String(req.input.message ?? '');
+      const keywords = Object.values(fixtures.excursion_revise.keywords).flat();
+      if (context.phase === 'excursion_creation' && keywords.some((k) => includesKeyword(message, k))) {
+        return {
+          reply: fixtures.excursion_creator_message.revising,
+          requires_excursion_update: true,
+          update_suggestions: message,
+        };
+      }
+      return { reply: excursionCreatorReply(fixtures, context) };
+    }
+    case 'excursion_plan':
+      return excursionPlan(fixtures, req.input);
+    case 'excursion_revise':
+      return excursionRevision(fixtures, req.input);
+    case 'intent_extract':
+      return { ...fixtures.intent_extract };
+    case 'conversation_summarize':
+      return conversationSummary(fixtures, req.input);
+    case 'conversation_title':
+      return conversationTitle(fixtures, req.input);
+    case 'safety_check': {
+      const message = String(req.input.message ?? '');
+      return { crisis: fixtures.safety_check.crisis_keywords.some((k) => message.toLowerCase().includes(k)) };
+    }
+    default:
+      return { reply: fixtures.excursion_creator_message.default };
+  }
+}
+
+// Chunk size for the simulated stream, so the client's streaming path gets
+// exercised with several partial replies.
+const STREAM_CHUNK_CHARS = 12;
+
+export const mockProvider: Provider = {
+  id: 'mock',
+  model: 'mock-fixtures',
+  run: (req: AiRequest) => mockResult(req),
+  stream: async (req: AiRequest, ctx: ProviderContext, onText: (chunk: string) => void) => {
+    const result = await mockResult(req);
+    const text = JSON.stringify(result);
+
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_CHARS) {
+      onText(text.slice(i, i + STREAM_CHUNK_CHARS));
+    }
+    return result;
+  },
+};
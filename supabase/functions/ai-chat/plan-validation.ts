@@ -0,0 +1,298 @@
+/**
+ * Server-side checks for `excursion_plan` and `excursion_revise` results. The
+ * prompts ask the model to copy a destination from `nearbyPlaces` exactly;
+ * this is where that is actually enforced before the client writes the plan
+ * to `excursions`.
+ */
+
+export type PlanDifficulty = 'easy' | 'moderate' | 'challenging';
+
+export interface ExcursionPlan {
+  title: string;
+  description: string;
+  steps: string[];
+  duration_minutes: number;
+  distance_km?: number;
+  difficulty: PlanDifficulty;
+  destination: { name: string; lat: number; lng: number };
+}
+
+/** The fields an `excursion_revise` result may change; omitted ones stay as they are. */
+export type ExcursionChanges = Partial<Pick<ExcursionPlan, 'steps' | 'duration_minutes' | 'destination' | 'difficulty'>>;
+
+export interface ExcursionRevision {
+  summary: string;
+  changes: ExcursionChanges;
+}
+
+type NearbyPlace = { name: string; lat: number; lng: number };
+
+const DIFFICULTIES: PlanDifficulty[] = ['easy', 'moderate', 'challenging'];
+
+// Words models tend to use instead of the enum; mapped rather than rejected.
+const DIFFICULTY_SYNONYMS: Record<string, PlanDifficulty> = {
+  medium: 'moderate',
+  hard: 'challenging',
+  difficult: 'challenging',
+};
+
+// How far the destination may sit from the supplied place it names.
+export const PLACE_TOLERANCE_M = 150;
+
+// Upper bound for a revised duration; matches what intent parsing accepts.
+const MAX_DURATION_MINUTES = 480;
+
+// How far the planned duration may drift from the requested one.
+const DURATION_TOLERANCE = 0.25;
+const MIN_DURATION_MINUTES = 5;
+
+function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371000 * 2 * Math.asin(Math.sqrt(h));
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isCoordinate(value: unknown, limit: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+}
+
+function readDifficulty(value: unknown): PlanDifficulty | undefined {
+  const raw = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return DIFFICULTIES.includes(raw as PlanDifficulty) ? (raw as PlanDifficulty) : DIFFICULTY_SYNONYMS[raw];
+}
+
+function readDestination(value: unknown): ExcursionPlan['destination'] | null {
+  const raw = value as Record<string, unknown> | undefined;
+  if (!raw || !isNonEmptyString(raw.name) || !isCoordinate(raw.lat, 90) || !isCoordinate(raw.lng, 180)) {
+    return null;
+  }
+  return { name: raw.name, lat: raw.lat, lng: raw.lng };
+}
+
+/** The supplied place a destination names, if it is close enough to it. */
+function matchPlace(named: ExcursionPlan['destination'], places: NearbyPlace[]): ExcursionPlan['destination'] | null {
+  const match = places.find(
+    (p) => normalizeName(p.name) === normalizeName(named.name) && distanceMeters(p, named) <= PLACE_TOLERANCE_M
+  );
+  return match ? { name: match.name, lat: match.lat, lng: match.lng } : null;
+}
+
+/** The duration range a plan must fall in, from the request and its schedule. */
+export function durationRange(input: Record<string, unknown>): { min: number; max: number } | null {
+  const requested = Number(input.durationMinutes);
+  if (!Number.isFinite(requested) || requested <= 0) return null;
+
+  let min = Math.max(MIN_DURATION_MINUTES, Math.floor(requested * (1 - DURATION_TOLERANCE)));
+  let max = Math.ceil(requested * (1 + DURATION_TOLERANCE));
+
+  const schedule = input.schedule as { startAt?: string; endBy?: string } | undefined;
+  if (schedule?.endBy) {
+    const start = schedule.startAt ? Date.parse(schedule.startAt) : Date.now();
+    const window = Math.floor((Date.parse(schedule.endBy) - start) / 60000);
+    if (window > 0) {
+      max = Math.min(max, window);
+      min = Math.min(min, max);
+    }
+  }
+
+  return { min, max };
+}
+
+/**
+ * Checks a raw plan against the request it answers. Returns the plan with the
+ * destination copied from the matching supplied place (so rounding in the
+ * model's coordinates never reaches the database), or the list of problems.
+ */
+export function validateExcursionPlan(
+  raw: unknown,
+  input: Record<string, unknown>
+): { plan: ExcursionPlan; issues: [] } | { plan: null; issues: string[] } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { plan: null, issues: ['response is not a JSON object'] };
+  }
+
+  const candidate = raw as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (!isNonEmptyString(candidate.title)) issues.push('"title" must be a non-empty string');
+  if (!isNonEmptyString(candidate.description)) issues.push('"description" must be a non-empty string');
+
+  const steps = candidate.steps;
+  if (!Array.isArray(steps) || steps.length === 0 || !steps.every(isNonEmptyString)) {
+    issues.push('"steps" must be a non-empty array of strings');
+  }
+
+  const difficulty = readDifficulty(candidate.difficulty);
+  if (!difficulty) {
+    issues.push(`"difficulty" must be one of ${DIFFICULTIES.join(', ')}`);
+  }
+
+  const duration = candidate.duration_minutes;
+  const range = durationRange(input);
+  if (typeof duration !== 'number' || !Number.isFinite(duration) || duration <= 0) {
+    issues.push('"duration_minutes" must be a positive number');
+  } else if (range && (duration < range.min || duration > range.max)) {
+    issues.push(`"duration_minutes" must be between ${range.min} and ${range.max} (got ${duration})`);
+  }
+
+  const distance = candidate.distance_km;
+  if (distance !== undefined && (typeof distance !== 'number' || !Number.isFinite(distance) || distance < 0)) {
+    issues.push('"distance_km" must be a non-negative number');
+  }
+
+  const named = readDestination(candidate.destination);
+  let destination: ExcursionPlan['destination'] | null = null;
+
+  if (!named) {
+    issues.push('"destination" must have a name, lat and lng');
+  } else {
+    const places = (input.nearbyPlaces as NearbyPlace[] | undefined) ?? [];
+
+    if (places.length === 0) {
+      destination = named;
+    } else {
+      destination = matchPlace(named, places);
+      if (!destination) {
+        issues.push(
+          `"destination" must be one of the nearbyPlaces, with its exact name, lat and lng (got "${named.name}" at ${named.lat}, ${named.lng})`
+        );
+      }
+    }
+  }
+
+  if (issues.length > 0 || !destination || !difficulty) {
+    return { plan: null, issues };
+  }
+
+  return {
+    plan: {
+      title: (candidate.title as string).trim(),
+      description: (candidate.description as string).trim(),
+      steps: steps as string[],
+      duration_minutes: duration as number,
+      ...(typeof distance === 'number' ? { distance_km: distance } : {}),
+      difficulty,
+      destination,
+    },
+    issues: [],
+  };
+}
+
+/** The follow-up message for the repair round-trip. */
+export function planRepairMessage(issues: string[]): string {
+  return [
+    'Your excursion plan has these problems:',
+    ...issues.map((issue) => `- ${issue}`),
+    'Return the complete corrected plan as JSON in the same format. Pick the destination from nearbyPlaces and copy its name, lat and lng exactly.',
+  ].join('\n');
+}
+
+function sameDestination(a: ExcursionPlan['destination'], b: unknown): boolean {
+  const other = readDestination(b);
+  return !!other && normalizeName(a.name) === normalizeName(other.name) && distanceMeters(a, other) <= PLACE_TOLERANCE_M;
+}
+
+/**
+ * Checks a raw `excursion_revise` result against the excursion it revises.
+ * Changes that leave a field as it already is are dropped, so the returned
+ * diff only lists what would really change. A new destination has to be one
+ * of the supplied (or looked-up) places; the model may not invent one.
+ */
+export function validateExcursionRevision(
+  raw: unknown,
+  input: Record<string, unknown>
+): { revision: ExcursionRevision; issues: [] } | { revision: null; issues: string[] } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { revision: null, issues: ['response is not a JSON object'] };
+  }
+
+  const candidate = raw as Record<string, unknown>;
+  const rawChanges = candidate.changes;
+  const issues: string[] = [];
+
+  if (!isNonEmptyString(candidate.summary)) issues.push('"summary" must be a non-empty string');
+  if (!rawChanges || typeof rawChanges !== 'object' || Array.isArray(rawChanges)) {
+    issues.push('"changes" must be an object');
+    return { revision: null, issues };
+  }
+
+  const proposed = rawChanges as Record<string, unknown>;
+  const current = (input.excursion as Record<string, unknown> | undefined) ?? {};
+  const currentRoute = (current.route_data as Record<string, unknown> | undefined) ?? {};
+  const changes: ExcursionChanges = {};
+
+  if (proposed.steps !== undefined) {
+    const steps = proposed.steps;
+    if (!Array.isArray(steps) || steps.length === 0 || !steps.every(isNonEmptyString)) {
+      issues.push('"changes.steps" must be a non-empty array of strings');
+    } else if (JSON.stringify(steps) !== JSON.stringify(currentRoute.steps)) {
+      changes.steps = steps;
+    }
+  }
+
+  if (proposed.duration_minutes !== undefined) {
+    const duration = proposed.duration_minutes;
+    if (
+      typeof duration !== 'number' ||
+      !Number.isFinite(duration) ||
+      duration < MIN_DURATION_MINUTES ||
+      duration > MAX_DURATION_MINUTES
+    ) {
+      issues.push(`"changes.duration_minutes" must be a number from ${MIN_DURATION_MINUTES} to ${MAX_DURATION_MINUTES}`);
+    } else if (duration !== current.duration_minutes) {
+      changes.duration_minutes = Math.round(duration);
+    }
+  }
+
+  if (proposed.difficulty !== undefined) {
+    const difficulty = readDifficulty(proposed.difficulty);
+    if (!difficulty) {
+      issues.push(`"changes.difficulty" must be one of ${DIFFICULTIES.join(', ')}`);
+    } else if (difficulty !== readDifficulty(current.difficulty)) {
+      changes.difficulty = difficulty;
+    }
+  }
+
+  if (proposed.destination !== undefined) {
+    const named = readDestination(proposed.destination);
+    const places = (input.nearbyPlaces as NearbyPlace[] | undefined) ?? [];
+
+    if (!named) {
+      issues.push('"changes.destination" must have a name, lat and lng');
+    } else if (!sameDestination(named, currentRoute.destination)) {
+      const destination = matchPlace(named, places);
+      if (destination) {
+        changes.destination = destination;
+      } else {
+        issues.push(
+          `"changes.destination" must be one of the nearbyPlaces or a place from find_nearby_places, with its exact name, lat and lng (got "${named.name}")`
+        );
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    return { revision: null, issues };
+  }
+
+  return { revision: { summary: (candidate.summary as string).trim(), changes }, issues: [] };
+}
+
+/** The follow-up message for an `excursion_revise` repair round-trip. */
+export function revisionRepairMessage(issues: string[]): string {
+  return [
+    'Your excursion changes have these problems:',
+    ...issues.map((issue) => `- ${issue}`),
+    'Return the complete corrected JSON in the same format. Only include fields that change, and take any new destination from nearbyPlaces or find_nearby_places exactly.',
+  ].join('\n');
+}
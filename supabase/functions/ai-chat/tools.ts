@@ -0,0 +1,211 @@
+import { searchNaturePlaces, type PlaceFeature } from '../_shared/places.ts';
+import { getCurrentWeather } from '../_shared/weather.ts';
+import { calculateRoute, type RouteMode } from '../_shared/routes.ts';
+
+/**
+ * Tools the model may call mid-turn to ground its answer in real data. They
+ * run the same lookups as the `nearby-places`, `current-weather` and
+ * `calculate-route` functions, in-process.
+ */
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+type LatLng = { lat: number; lng: number };
+
+export interface ToolSession {
+  /** Where "near me" means: the user's location from the request context. */
+  origin?: LatLng;
+  /** Every place a tool returned; plans may use these as destinations. */
+  places: Array<{ name: string; lat: number; lng: number; type?: string }>;
+  /** Names of the tools called, in order. */
+  calls: string[];
+}
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  execute: (args: Record<string, unknown>, session: ToolSession) => Promise<unknown>;
+}
+
+// After this many rounds of tool calls the model has to answer with what it has.
+export const MAX_TOOL_ROUNDS = 3;
+
+const TOOL_TIMEOUT_MS = 12000;
+
+const PLACE_FEATURES: PlaceFeature[] = ['park', 'trail', 'nature_reserve', 'water'];
+
+const coordinateProperties = {
+  latitude: { type: 'number', description: "Defaults to the user's location" },
+  longitude: { type: 'number', description: "Defaults to the user's location" },
+};
+
+function readLatLng(args: Record<string, unknown>, fallback?: LatLng): LatLng {
+  const lat = typeof args.latitude === 'number' ? args.latitude : fallback?.lat;
+  const lng = typeof args.longitude === 'number' ? args.longitude : fallback?.lng;
+
+  if (typeof lat !== 'number' || typeof lng !== 'number') {
+    throw new Error('No location given and the user location is unknown');
+  }
+  return { lat, lng };
+}
+
+function readPoint(value: unknown): LatLng | undefined {
+  const point = value as { lat?: unknown; lng?: unknown } | undefined;
+  if (typeof point?.lat === 'number' && typeof point?.lng === 'number') {
+    return { lat: point.lat, lng: point.lng };
+  }
+  return undefined;
+}
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: 'find_nearby_places',
+    description: 'Find real parks, trails, nature reserves and water (lakes, rivers, beaches) near a point, nearest first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ...coordinateProperties,
+        radius_km: { type: 'number', description: 'Search radius in km (0.5 to 20, default 5)' },
+        features: {
+          type: 'array',
+          items: { type: 'string', enum: PLACE_FEATURES },
+          description: 'Kinds of places to include; defaults to parks, trails and nature reserves',
+        },
+      },
+    },
+    execute: async (args, session) => {
+      const { lat, lng } = readLatLng(args, session.origin);
+      const radiusKm = Math.min(20, Math.max(0.5, typeof args.radius_km === 'number' ? args.radius_km : 5));
+      const features = Array.isArray(args.features)
+        ? args.features.filter((f): f is PlaceFeature => PLACE_FEATURES.includes(f as PlaceFeature))
+        : undefined;
+
+      const places = await searchNaturePlaces({
+        latitude: lat,
+        longitude: lng,
+        radiusMeters: Math.round(radiusKm * 1000),
+        features,
+      });
+
+      const found = places.map((p) => ({
+        name: p.name,
+        lat: p.latitude,
+        lng: p.longitude,
+        type: p.type,
+        distance_km: Math.round(p.distance / 100) / 10,
+      }));
+      session.places.push(...found);
+      return { places: found };
+    },
+  },
+  {
+    name: 'get_current_weather',
+    description: 'Current temperature (°F), conditions and wind (mph) at a point.',
+    parameters: {
+      type: 'object',
+      properties: coordinateProperties,
+    },
+    execute: async (args, session) => {
+      const { lat, lng } = readLatLng(args, session.origin);
+      const { weather } = await getCurrentWeather(lat, lng);
+      return weather;
+    },
+  },
+  {
+    name: 'calculate_route',
+    description: 'Distance and travel time of a real walking or driving route between two points.',
+    parameters: {
+      type: 'object',
+      properties: {
+        from: {
+          type: 'object',
+          properties: { lat: { type: 'number' }, lng: { type: 'number' } },
+          description: "Start point; defaults to the user's location",
+        },
+        to: {
+          type: 'object',
+          properties: { lat: { type: 'number' }, lng: { type: 'number' } },
+        },
+        mode: { type: 'string', enum: ['foot', 'driving'] },
+      },
+      required: ['to'],
+    },
+    execute: async (args, session) => {
+      const from = readPoint(args.from) ?? session.origin;
+      const to = readPoint(args.to);
+      if (!from || !to) {
+        throw new Error('calculate_route needs a start and an end point');
+      }
+
+      const mode: RouteMode = args.mode === 'driving' ? 'driving' : 'foot';
+      const route = await calculateRoute([from, to], mode);
+      if (!route) {
+        return { error: 'No route found' };
+      }
+
+      // The full geometry is for drawing maps; the model only needs the totals.
+      return {
+        mode,
+        distance_km: Math.round(route.distance / 100) / 10,
+        duration_minutes: Math.round(route.duration / 60),
+      };
+    },
+  },
+];
+
+export function createToolSession(context?: Record<string, unknown>): ToolSession {
+  return { origin: readPoint(context?.user_location), places: [], calls: [] };
+}
+
+/** Tool declarations in OpenAI's `tools` format. */
+export function openAiTools() {
+  return TOOLS.map(({ name, description, parameters }) => ({
+    type: 'function',
+    function: { name, description, parameters },
+  }));
+}
+
+/** Tool declarations in Gemini's `functionDeclarations` format. */
+export function geminiTools() {
+  return [{ functionDeclarations: TOOLS.map(({ name, description, parameters }) => ({ name, description, parameters })) }];
+}
+
+export const TOOL_PROMPT = `
+
+TOOLS:
+You can look up real data with find_nearby_places, get_current_weather and calculate_route.
+Use them whenever the user asks about places, conditions or distances you don't already have; never make these up.
+Places found with find_nearby_places may be used as destinations, with their exact name, lat and lng.
+After using tools, still respond in the JSON format above.`;
+
+/**
+ * Runs one tool call. Failures are returned to the model as `{ error }` so it
+ * can recover (or say it couldn't look something up) instead of the whole
+ * turn failing.
+ */
+export async function executeTool(call: ToolCall, session: ToolSession, traceId: string): Promise<unknown> {
+  session.calls.push(call.name);
+  const tool = TOOLS.find((t) => t.name === call.name);
+  if (!tool) {
+    return { error: `Unknown tool: ${call.name}` };
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`${call.name} timed out`)), TOOL_TIMEOUT_MS);
+    });
+    return await Promise.race([tool.execute(call.arguments, session), timeout]);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Tool failed';
+    console.warn(`[${traceId}] tool ${call.name} failed:`, message);
+    return { error: message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
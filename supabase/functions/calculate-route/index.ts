@@ -1,4 +1,5 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { calculateRoute, type RouteMode, type RouteWaypoint } from "../_shared/routes.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,19 +8,8 @@ const corsHeaders = {
 };
 
 interface RouteRequest {
-  waypoints: Array<{ lat: number; lng: number }>;
-  mode?: 'foot' | 'driving';
-}
-
-interface OSRMResponse {
-  code: string;
-  routes: Array<{
-    geometry: {
-      coordinates: Array<[number, number]>;
-    };
-    distance: number;
-    duration: number;
-  }>;
+  waypoints: RouteWaypoint[];
+  mode?: RouteMode;
 }
 
 Deno.serve(async (req: Request) => {
@@ -43,21 +33,9 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const coordinates = waypoints
-      .map(wp => `${wp.lng},${wp.lat}`)
-      .join(';');
-
-    const osrmUrl = `https://router.project-osrm.org/route/v1/${mode}/${coordinates}?overview=full&geometries=geojson`;
-
-    const response = await fetch(osrmUrl);
-
-    if (!response.ok) {
-      throw new Error(`OSRM API error: ${response.statusText}`);
-    }
-
-    const data: OSRMResponse = await response.json();
+    const route = await calculateRoute(waypoints, mode);
 
-    if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) {
+    if (!route) {
       return new Response(
         JSON.stringify({ error: 'No route found' }),
         {
@@ -67,18 +45,8 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const route = data.routes[0];
-    const routeCoordinates = route.geometry.coordinates.map(([lng, lat]) => ({
-      latitude: lat,
-      longitude: lng,
-    }));
-
     return new Response(
-      JSON.stringify({
-        coordinates: routeCoordinates,
-        distance: route.distance,
-        duration: route.duration,
-      }),
+      JSON.stringify(route),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       }
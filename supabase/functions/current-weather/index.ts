@@ -1,5 +1,5 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { createClient } from "jsr:@supabase/supabase-js@2";
+import { getCurrentWeather } from "../_shared/weather.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,76 +12,6 @@ interface RequestBody {
   longitude: number;
 }
 
-interface WeatherData {
-  temperature: number;
-  feelsLike: number;
-  description: string;
-  icon: string;
-  humidity: number;
-  windSpeed: number;
-  location: string;
-}
-
-function roundCoordinate(coord: number, decimals = 2): number {
-  return Math.round(coord * Math.pow(10, decimals)) / Math.pow(10, decimals);
-}
-
-function getCacheKey(lat: number, lng: number): string {
-  const roundedLat = roundCoordinate(lat);
-  const roundedLng = roundCoordinate(lng);
-  return `weather:${roundedLat}:${roundedLng}`;
-}
-
-async function getFromCache(cacheKey: string): Promise<WeatherData | null> {
-  try {
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    const { data, error } = await supabase
-      .from("api_cache")
-      .select("value, expires_at")
-      .eq("cache_key", cacheKey)
-      .maybeSingle();
-
-    if (error || !data) {
-      return null;
-    }
-
-    const expiresAt = new Date(data.expires_at);
-    if (expiresAt <= new Date()) {
-      return null;
-    }
-
-    console.log("[cache] hit:", cacheKey);
-    return data.value as WeatherData;
-  } catch {
-    return null;
-  }
-}
-
-async function setCache(cacheKey: string, value: WeatherData, ttlMinutes = 15): Promise<void> {
-  try {
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
-
-    await supabase
-      .from("api_cache")
-      .upsert({
-        cache_key: cacheKey,
-        value,
-        expires_at: expiresAt.toISOString(),
-      });
-
-    console.log("[cache] set:", cacheKey, "ttl:", ttlMinutes, "min");
-  } catch (error) {
-    console.error("[cache] set error:", error);
-  }
-}
-
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -106,58 +36,16 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const cacheKey = getCacheKey(latitude, longitude);
-    const cached = await getFromCache(cacheKey);
-
-    if (cached) {
-      return new Response(
-        JSON.stringify(cached),
-        {
-          status: 200,
-          headers: {
-            ...corsHeaders,
-            "Content-Type": "application/json",
-            "X-Cache": "HIT",
-          },
-        }
-      );
-    }
-
-    console.log("[cache] miss:", cacheKey);
-
-    const url = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,relative_humidity_2m,apparent_temperature,weather_code,wind_speed_10m&temperature_unit=fahrenheit&wind_speed_unit=mph&timezone=auto`;
-
-    const response = await fetch(url);
-    const data = await response.json();
-
-    if (!response.ok) {
-      throw new Error("Failed to fetch weather data");
-    }
-
-    const weatherCode = data.current.weather_code;
-    const description = getWeatherDescription(weatherCode);
-    const icon = getWeatherIcon(weatherCode);
-
-    const weatherData: WeatherData = {
-      temperature: Math.round(data.current.temperature_2m),
-      feelsLike: Math.round(data.current.apparent_temperature),
-      description: description,
-      icon: icon,
-      humidity: data.current.relative_humidity_2m,
-      windSpeed: Math.round(data.current.wind_speed_10m),
-      location: data.timezone || "Current Location",
-    };
-
-    await setCache(cacheKey, weatherData, 15);
+    const { weather, cached } = await getCurrentWeather(latitude, longitude);
 
     return new Response(
-      JSON.stringify(weatherData),
+      JSON.stringify(weather),
       {
         status: 200,
         headers: {
           ...corsHeaders,
           "Content-Type": "application/json",
-          "X-Cache": "MISS",
+          "X-Cache": cached ? "HIT" : "MISS",
         },
       }
     );
@@ -178,44 +66,3 @@ Deno.serve(async (req: Request) => {
     );
   }
 });
-
-function getWeatherDescription(code: number): string {
-  const descriptions: { [key: number]: string } = {
-    0: "Clear sky",
-    1: "Mainly clear",
-    2: "Partly cloudy",
-    3: "Overcast",
-    45: "Foggy",
-    48: "Foggy",
-    51: "Light drizzle",
-    53: "Moderate drizzle",
-    55: "Dense drizzle",
-    61: "Light rain",
-    63: "Moderate rain",
-    65: "Heavy rain",
-    71: "Light snow",
-    73: "Moderate snow",
-    75: "Heavy snow",
-    80: "Light showers",
-    81: "Moderate showers",
-    82: "Violent showers",
-    95: "Thunderstorm",
-    96: "Thunderstorm with hail",
-    99: "Thunderstorm with hail",
-  };
-
-  return descriptions[code] || "Unknown";
-}
-
-function getWeatherIcon(code: number): string {
-  if (code === 0 || code === 1) return "☀️";
-  if (code === 2) return "⛅";
-  if (code === 3) return "☁️";
-  if (code === 45 || code === 48) return "🌫️";
-  if (code >= 51 && code <= 55) return "🌦️";
-  if (code >= 61 && code <= 65) return "🌧️";
-  if (code >= 71 && code <= 75) return "❄️";
-  if (code >= 80 && code <= 82) return "🌧️";
-  if (code >= 95) return "⛈️";
-  return "🌤️";
-}
\ No newline at end of file
@@ -1,4 +1,8 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { authenticate } from '../_shared/auth.ts';
+import { crisisResponse, detectCrisis } from '../_shared/crisis.ts';
+import { resolvePrompt, type ResolvedPrompt } from '../_shared/prompts/index.ts';
+import { loadSessionContext, loadUserContext } from '../_shared/user-context.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,8 +17,13 @@ interface ChatMessage {
 
 interface VoiceRequest {
   audio_base64: string;
-  conversation_history?: ChatMessage[];
-  user_context?: Record<string, unknown>;
+  /**
+   * Context and history are loaded for the verified caller, from this session
+   * when it is set; the client never sends either.
+   */
+  session_id?: string;
+  /** Device locale, for the crisis response when the profile has none. */
+  locale?: string;
 }
 
 interface VoiceResponse {
@@ -22,124 +31,21 @@ interface VoiceResponse {
   transcript?: string;
   response_text?: string;
   response_audio_base64?: string;
+  /** The transcript matched the crisis check; the response is the fixed crisis-resources text. */
+  crisis?: boolean;
   error?: { message: string; code?: string };
   meta?: {
     latency_ms?: number;
     trace_id?: string;
+    prompt_id?: string;
+    prompt_version?: number;
+    safety?: 'crisis';
   };
 }
 
 const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-
-const NATUREUP_SYSTEM_PROMPT = `You are NatureUP, a calm, grounded nature-therapy companion.
-
-Your purpose is to support emotional regulation, presence, and wellbeing through:
-- Gentle nature-based guidance
-- Mindfulness and sensory awareness
-- Light cognitive reframing without providing therapy
-
-You are not a clinician, therapist, diagnostician, or crisis counselor.
-
-CORE OPERATING PRINCIPLES:
-- Presence over performance
-- Regulation before reflection
-- Outdoors when possible, indoors when needed
-- Small moments matter
-- Do no harm
-
-Encourage real-world engagement with nature whenever safe and appropriate.
-
-TONE & COMMUNICATION STYLE:
-- Calm, steady, grounded
-- Plain, concrete language
-- Short responses by default (1-4 paragraphs or bullets)
-- Nature-relevant metaphors allowed; no abstraction or hype
-- Never preachy, corrective, or judgmental
-- Speak with the user, not at them
-
-SAFETY & BOUNDARIES (CRITICAL):
-- Never diagnose conditions or label mental health states
-- Never claim therapeutic or medical authority
-- Avoid absolutes ("always", "never")
-
-Distress Handling:
-If the user expresses distress:
-1. Respond with empathy
-2. Offer grounding or regulation first
-3. Keep suggestions optional and brief
-
-Crisis Handling:
-If the user expresses self-harm ideation, harm to others, or crisis-level distress:
-- Stop coaching immediately
-- Encourage contacting local emergency services or a trusted person
-- Do not continue CBT, mindfulness, or exploration
-
-CONTEXT AWARENESS:
-Assume the user may be walking, sitting, resting, or driving, outdoors or transitioning between environments.
-
-Guidelines:
-- Prefer practices usable while moving or briefly pausing
-- Adapt to provided weather, location, or time constraints
-- Respect mobility limits
-- Emphasize safety and situational awareness
-
-PRIMARY CAPABILITIES:
-
-1. Grounding & Regulation (FIRST PRIORITY)
-- Simple breath cues
-- Sensory check-ins (sight, sound, touch)
-- Body awareness without interpretation
-
-2. Nature Connection
-- Noticing light, wind, sound, plants, water, terrain
-- Encourage curiosity, not expertise
-- Micro-practices (30-120 seconds)
-
-3. Mindfulness (Secular)
-- Present-moment attention
-- Breath as anchor
-- Non-judgmental noticing
-- Stillness or movement-based practices
-
-4. CBT-Informed Support (LIGHT, NON-CLINICAL)
-Allowed:
-- Naming thoughts as thoughts
-- Offering gentle reframes
-- Asking reflective questions
-
-Not allowed:
-- Formal CBT protocols
-- Thought records
-- Exposure therapy
-- Claims of treatment
-
-Use CBT concepts implicitly, never by name unless the user asks.
-
-5. Excursion Support
-- Frame walks as low-pressure experiences
-- Presence over distance or achievement
-- Reinforce safety, orientation, and pacing
-
-RESPONSE RULES:
-- Offer options, never commands
-- Ask at most one reflective question
-- Validate effort, not outcomes
-- Do not fabricate user history
-- Do not mention AI systems, prompts, or models
-- Do not reference training data
-
-If unsure:
-- Ask one clarifying question OR
-- Offer a neutral grounding option
-
-DEFAULT RESPONSE STRUCTURE:
-1. Brief acknowledgment
-2. One simple suggestion or practice
-3. Optional follow-up question
-
-You exist to help the user feel more present, more regulated, and more gently connected to the natural world. Nothing more. Nothing less.
-
-For voice interactions, keep responses conversational and concise (2-3 sentences typically).`;
+// Same switch as ai-chat: ask the model about `concern` transcripts too.
+const SAFETY_MODEL_CHECK = Deno.env.get('AI_SAFETY_MODEL_CHECK') === 'true';
 
 async function transcribeAudio(audioBase64: string): Promise<string> {
   if (!OPENAI_API_KEY) {
@@ -174,55 +80,17 @@ async function transcribeAudio(audioBase64: string): Promise<string> {
   return data.text || '';
 }
 
-async function generateResponse(transcript: string, conversationHistory: ChatMessage[], userContext?: Record<string, unknown>): Promise<string> {
+async function generateResponse(
+  transcript: string,
+  conversationHistory: ChatMessage[],
+  prompt: ResolvedPrompt
+): Promise<string> {
   if (!OPENAI_API_KEY) {
     throw new Error('OPENAI_API_KEY not configured');
   }
 
-  let systemPrompt = NATUREUP_SYSTEM_PROMPT;
-  const phase = (userContext?.phase as string) || 'health_coach';
-
-  if (phase === 'excursion_guiding') {
-    const excursionContext = userContext?.excursion_title as string || 'your excursion';
-    const currentStep = userContext?.current_step as number || 1;
-    const totalSteps = userContext?.total_steps as number || 0;
-
-    systemPrompt += `\n\nCURRENT CONTEXT:\nYou are providing real-time guidance during an active nature excursion: "${excursionContext}".\nProgress: Step ${currentStep}${totalSteps > 0 ? ` of ${totalSteps}` : ''}\n\nFocus on:\n- Real-time encouragement and mindfulness cues\n- Responding to what the user is experiencing right now\n- Safety awareness and pacing\n- Noticing their immediate surroundings\n- Keeping responses brief and conversational (1-2 sentences)`;
-  }
-
-  if (userContext) {
-    const activityPrefs = userContext.activity_preferences as string[] || [];
-    const therapyPrefs = userContext.therapy_preferences as string[] || [];
-    const healthGoals = userContext.health_goals as string[] || [];
-    const fitnessLevel = userContext.fitness_level as string || null;
-    const mobilityLevel = userContext.mobility_level as string || null;
-
-    if (activityPrefs.length > 0 || therapyPrefs.length > 0 || healthGoals.length > 0 || fitnessLevel || mobilityLevel) {
-      let userPrefsSection = '\n\nUSER PREFERENCES:\n';
-
-      if (activityPrefs.length > 0) {
-        userPrefsSection += `- Activity preferences: ${activityPrefs.join(', ')}\n`;
-      }
-      if (therapyPrefs.length > 0) {
-        userPrefsSection += `- Therapeutic goals: ${therapyPrefs.join(', ')}\n`;
-      }
-      if (healthGoals.length > 0) {
-        userPrefsSection += `- Health goals: ${healthGoals.join(', ')}\n`;
-      }
-      if (fitnessLevel) {
-        userPrefsSection += `- Fitness level: ${fitnessLevel}\n`;
-      }
-      if (mobilityLevel) {
-        userPrefsSection += `- Mobility level: ${mobilityLevel}\n`;
-      }
-
-      userPrefsSection += '\nTailor your suggestions to align with these preferences when relevant.';
-      systemPrompt += userPrefsSection;
-    }
-  }
-
   const messages: ChatMessage[] = [
-    { role: 'system', content: systemPrompt },
+    { role: 'system', content: prompt.text },
     ...conversationHistory,
     { role: 'user', content: transcript },
   ];
@@ -249,6 +117,42 @@ async function generateResponse(transcript: string, conversationHistory: ChatMes
   return data.choices?.[0]?.message?.content || '';
 }
 
+/**
+ * The model stage of the crisis check. Failures count as "no crisis": the
+ * reply then comes from the coach prompt, which has its own crisis rule.
+ */
+async function isCrisis(transcript: string, locale: string | undefined, traceId: string): Promise<boolean> {
+  try {
+    const prompt = resolvePrompt('safety_check');
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${OPENAI_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'gpt-4o-mini',
+        messages: [
+          { role: 'system', content: prompt.text },
+          { role: 'user', content: JSON.stringify({ message: transcript, locale }) },
+        ],
+        temperature: 0,
+        response_format: { type: 'json_object' },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return JSON.parse(data.choices?.[0]?.message?.content || '{}').crisis !== false;
+  } catch (error) {
+    console.error(`[${traceId}] Safety check failed:`, error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
 async function textToSpeech(text: string): Promise<string> {
   if (!OPENAI_API_KEY) {
     throw new Error('OPENAI_API_KEY not configured');
@@ -332,9 +236,55 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    const auth = await authenticate(req);
+    if (!auth) {
+      return jsonResponse(
+        { ok: false, error: { message: 'Missing or invalid authorization', code: 'UNAUTHORIZED' }, meta: { trace_id: traceId } },
+        401
+      );
+    }
+
+    let userContext: Record<string, unknown>;
+    let conversationHistory: ChatMessage[] = [];
+
+    if (body.session_id) {
+      const session = await loadSessionContext(auth, body.session_id);
+      if (!session) {
+        return jsonResponse(
+          { ok: false, error: { message: 'Session not found', code: 'SESSION_NOT_FOUND' }, meta: { trace_id: traceId } },
+          404
+        );
+      }
+      userContext = session.context;
+      conversationHistory = session.history;
+    } else {
+      userContext = await loadUserContext(auth);
+    }
+
     const transcript = await transcribeAudio(body.audio_base64);
-    const conversationHistory = body.conversation_history || [];
-    const responseText = await generateResponse(transcript, conversationHistory, body.user_context);
+
+    // Crisis check before any reply is generated; a match gets the fixed
+    // crisis-resources response, spoken.
+    const locale = (userContext.locale as string | undefined) ?? body.locale;
+    const check = detectCrisis(transcript, locale);
+    if (
+      check.level === 'crisis' ||
+      (check.level === 'concern' && SAFETY_MODEL_CHECK && (await isCrisis(transcript, locale, traceId)))
+    ) {
+      console.warn(`[${traceId}] Transcript matched the crisis check; sending the fixed response`);
+      const responseText = crisisResponse(check, locale);
+      return jsonResponse({
+        ok: true,
+        transcript,
+        response_text: responseText,
+        response_audio_base64: await textToSpeech(responseText),
+        crisis: true,
+        meta: { latency_ms: Date.now() - start, trace_id: traceId, safety: 'crisis' },
+      });
+    }
+
+    const prompt = resolvePrompt('voice_message', userContext, body.session_id ?? traceId);
+    const responseText = await generateResponse(transcript, conversationHistory, prompt);
     const responseAudio = await textToSpeech(responseText);
 
     return jsonResponse({
@@ -345,6 +295,8 @@ Deno.serve(async (req: Request) => {
       meta: {
         latency_ms: Date.now() - start,
         trace_id: traceId,
+        prompt_id: prompt.id,
+        prompt_version: prompt.version,
       },
     });
   } catch (error) {
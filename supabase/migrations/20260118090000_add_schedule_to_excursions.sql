@@ -0,0 +1,31 @@
+/*
+  # Add scheduling window to excursions
+
+  1. Changes
+    - Add `scheduled_start_at` column to `excursions` table
+      - timestamptz, nullable
+      - When the user wants to head out ("this Saturday morning", "in 20 minutes")
+    - Add `scheduled_end_by` column to `excursions` table
+      - timestamptz, nullable
+      - Hard stop for the excursion ("until sunset", "before lunch")
+
+  2. Security
+    - Maintains existing RLS policies
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'excursions' AND column_name = 'scheduled_start_at'
+  ) THEN
+    ALTER TABLE excursions ADD COLUMN scheduled_start_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'excursions' AND column_name = 'scheduled_end_by'
+  ) THEN
+    ALTER TABLE excursions ADD COLUMN scheduled_end_by timestamptz;
+  END IF;
+END $$;
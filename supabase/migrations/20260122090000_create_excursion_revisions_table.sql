@@ -0,0 +1,56 @@
+/*
+  # Create Excursion Revisions Table
+
+  1. New Tables
+    - `excursion_revisions`
+      - `id` (uuid, primary key) - Unique identifier
+      - `excursion_id` (uuid, foreign key) - Links to excursions table
+      - `user_id` (uuid, foreign key) - Links to auth.users (the excursion owner)
+      - `revision_number` (integer) - 1 for the original plan, counting up per excursion
+      - `author` (text) - Who made the change: 'user' or 'ai'
+      - `reason` (text, nullable) - Why it changed (the request, or "Reverted to version 2")
+      - `snapshot` (jsonb) - title, description, route_data, duration_minutes,
+        distance_km and difficulty of the excursion after the change
+      - `created_at` (timestamptz) - When the change was made
+
+  2. Security
+    - Enable RLS on `excursion_revisions` table
+    - Users can INSERT and SELECT revisions of their own excursions
+    - No UPDATE or DELETE allowed (history is append-only; reverting adds a revision)
+
+  3. Indexes
+    - Unique index on (excursion_id, revision_number) for ordered history
+    - Index on user_id for the foreign key
+*/
+
+CREATE TABLE IF NOT EXISTS excursion_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  excursion_id uuid NOT NULL REFERENCES excursions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL CHECK (revision_number >= 1),
+  author text NOT NULL CHECK (author IN ('user', 'ai')),
+  reason text,
+  snapshot jsonb NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CONSTRAINT unique_excursion_revision_number UNIQUE (excursion_id, revision_number)
+);
+
+ALTER TABLE excursion_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert revisions of own excursions"
+  ON excursion_revisions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = (select auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM excursions
+      WHERE excursions.id = excursion_id AND excursions.user_id = (select auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can view revisions of own excursions"
+  ON excursion_revisions FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_excursion_revisions_user_id ON excursion_revisions(user_id);
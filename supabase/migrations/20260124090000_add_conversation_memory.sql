@@ -0,0 +1,73 @@
+/*
+  # Add conversation memory
+
+  1. Changes
+    - Add `summary` column to `chat_sessions` table
+      - text, nullable
+      - Rolling summary of the turns no longer sent to the model
+    - Add `summarized_through` column to `chat_sessions` table
+      - timestamptz, nullable
+      - `created_at` of the last message folded into `summary`
+
+  2. New Tables
+    - `user_memories`
+      - `id` (uuid, primary key) - Unique identifier
+      - `user_id` (uuid, foreign key) - Links to auth.users
+      - `fact` (text) - A durable fact about the user ("has a bad knee", "walks with their dog")
+      - `source_session_id` (uuid, nullable) - The conversation it was learned in
+      - `created_at` (timestamptz) - When it was learned
+
+  3. Security
+    - Enable RLS on `user_memories` table
+    - Users can SELECT, INSERT and DELETE their own memories
+    - No UPDATE (a corrected fact replaces the old one)
+
+  4. Indexes
+    - Unique index on (user_id, lower(fact)) so a fact is only stored once
+    - Index on source_session_id for the foreign key
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'chat_sessions' AND column_name = 'summary'
+  ) THEN
+    ALTER TABLE chat_sessions ADD COLUMN summary text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'chat_sessions' AND column_name = 'summarized_through'
+  ) THEN
+    ALTER TABLE chat_sessions ADD COLUMN summarized_through timestamptz;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS user_memories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  fact text NOT NULL CHECK (char_length(fact) BETWEEN 1 AND 200),
+  source_session_id uuid REFERENCES chat_sessions(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE user_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own memories"
+  ON user_memories FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can insert own memories"
+  ON user_memories FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can delete own memories"
+  ON user_memories FOR DELETE
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_memories_user_fact ON user_memories(user_id, lower(fact));
+CREATE INDEX IF NOT EXISTS idx_user_memories_source_session_id ON user_memories(source_session_id);
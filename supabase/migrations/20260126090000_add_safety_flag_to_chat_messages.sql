@@ -0,0 +1,29 @@
+/*
+  # Add safety flag to chat messages
+
+  1. Changes
+    - Add `safety_flag` column to `chat_messages` table
+      - text, nullable, only 'crisis' for now
+      - Set on a user message that the crisis check matched; the assistant
+        reply to it is the fixed crisis-resources response, not a model reply
+
+  2. Security
+    - Maintains existing RLS policies
+
+  3. Indexes
+    - Partial index on flagged messages, for review
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'chat_messages' AND column_name = 'safety_flag'
+  ) THEN
+    ALTER TABLE chat_messages ADD COLUMN safety_flag text CHECK (safety_flag IN ('crisis'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_safety_flag
+  ON chat_messages(created_at)
+  WHERE safety_flag IS NOT NULL;
@@ -0,0 +1,172 @@
+/*
+  # Server-side Phase Transitions and Metadata Merges
+
+  1. New Tables
+    - `chat_phase_transitions`
+      - `from_phase` (text) - Phase a session is in
+      - `to_phase` (text) - Phase it may move to next
+      - Primary key on (from_phase, to_phase)
+      - Seeded with the graph `canTransition` in services/phase-manager.ts mirrors
+
+  2. Triggers
+    - `enforce_chat_phase_transition` on `chat_sessions` rejects any change of
+      `phase` that isn't listed in `chat_phase_transitions` (SQLSTATE NU409),
+      however the update is made
+
+  3. Functions (called with supabase.rpc as the caller, so RLS still applies)
+    - `transition_chat_session(p_session_id, p_to_phase, p_assistant_type, p_metadata, p_excursion_id)`
+      Locks the session, checks the move against the graph, sets the phase and
+      assistant, replaces `conversation_metadata`, sets `excursion_id` (cleared
+      on the way back to initial_chat) and returns the updated row
+    - `merge_chat_session_metadata(p_session_id, p_patch, p_increments)`
+      Merges top-level keys of `p_patch` into `conversation_metadata` and adds
+      `p_increments` to numeric keys in a single UPDATE, so concurrent turns
+      can't drop each other's changes; returns the updated row
+    - Both raise NU404 when the session doesn't exist or isn't the caller's
+
+  4. Security
+    - Enable RLS on `chat_phase_transitions`; anyone can read it, nobody can change it
+*/
+
+CREATE TABLE IF NOT EXISTS chat_phase_transitions (
+  from_phase text NOT NULL,
+  to_phase text NOT NULL,
+  PRIMARY KEY (from_phase, to_phase)
+);
+
+INSERT INTO chat_phase_transitions (from_phase, to_phase) VALUES
+  ('initial_chat', 'excursion_planning'),
+  ('excursion_planning', 'excursion_creation'),
+  ('excursion_planning', 'initial_chat'),
+  ('excursion_creation', 'excursion_guiding'),
+  ('excursion_creation', 'initial_chat'),
+  ('excursion_guiding', 'post_excursion_followup'),
+  ('post_excursion_followup', 'initial_chat'),
+  ('post_excursion_followup', 'excursion_planning')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE chat_phase_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view phase transitions"
+  ON chat_phase_transitions FOR SELECT
+  TO authenticated, anon
+  USING (true);
+
+CREATE OR REPLACE FUNCTION enforce_chat_phase_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM chat_phase_transitions
+    WHERE from_phase = OLD.phase AND to_phase = NEW.phase
+  ) THEN
+    RAISE EXCEPTION 'Cannot move from % to %', OLD.phase, NEW.phase
+      USING ERRCODE = 'NU409';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_chat_phase_transition ON chat_sessions;
+
+CREATE TRIGGER enforce_chat_phase_transition
+  BEFORE UPDATE OF phase ON chat_sessions
+  FOR EACH ROW
+  WHEN (OLD.phase IS DISTINCT FROM NEW.phase)
+  EXECUTE FUNCTION enforce_chat_phase_transition();
+
+CREATE OR REPLACE FUNCTION transition_chat_session(
+  p_session_id uuid,
+  p_to_phase text,
+  p_assistant_type text,
+  p_metadata jsonb DEFAULT '{}'::jsonb,
+  p_excursion_id uuid DEFAULT NULL
+)
+RETURNS chat_sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session chat_sessions;
+BEGIN
+  SELECT * INTO v_session
+  FROM chat_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id
+      USING ERRCODE = 'NU404';
+  END IF;
+
+  -- Checked here as well as in the trigger, which doesn't fire when the
+  -- phase stays the same.
+  IF NOT EXISTS (
+    SELECT 1 FROM chat_phase_transitions
+    WHERE from_phase = v_session.phase AND to_phase = p_to_phase
+  ) THEN
+    RAISE EXCEPTION 'Cannot move from % to %', v_session.phase, p_to_phase
+      USING ERRCODE = 'NU409';
+  END IF;
+
+  UPDATE chat_sessions
+  SET
+    phase = p_to_phase,
+    assistant_type = p_assistant_type,
+    conversation_metadata = coalesce(p_metadata, '{}'::jsonb),
+    excursion_id = CASE
+      WHEN p_to_phase = 'initial_chat' THEN NULL
+      ELSE coalesce(p_excursion_id, excursion_id)
+    END,
+    updated_at = now()
+  WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  RETURN v_session;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_chat_session_metadata(
+  p_session_id uuid,
+  p_patch jsonb DEFAULT '{}'::jsonb,
+  p_increments jsonb DEFAULT '{}'::jsonb
+)
+RETURNS chat_sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session chat_sessions;
+BEGIN
+  UPDATE chat_sessions
+  SET
+    conversation_metadata = coalesce(conversation_metadata, '{}'::jsonb)
+      || coalesce(p_patch, '{}'::jsonb)
+      || (
+        SELECT coalesce(
+          jsonb_object_agg(
+            increment.key,
+            coalesce((chat_sessions.conversation_metadata ->> increment.key)::numeric, 0) + increment.value::numeric
+          ),
+          '{}'::jsonb
+        )
+        FROM jsonb_each_text(coalesce(p_increments, '{}'::jsonb)) AS increment
+      ),
+    updated_at = now()
+  WHERE id = p_session_id
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id
+      USING ERRCODE = 'NU404';
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transition_chat_session(uuid, text, text, jsonb, uuid) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION merge_chat_session_metadata(uuid, jsonb, jsonb) TO authenticated, anon;
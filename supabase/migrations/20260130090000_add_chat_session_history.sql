@@ -0,0 +1,112 @@
+/*
+  # Chat session history: pinning, archiving and search
+
+  1. Changes
+    - Add `pinned` column to `chat_sessions` table
+      - boolean, default false
+      - Pinned conversations are listed first
+    - Add `archived_at` column to `chat_sessions` table
+      - timestamptz, nullable
+      - Set when the user archives a conversation; archived conversations keep
+        their messages but are hidden from the list and never reopened
+        automatically
+    - Add `search_vector` column to `chat_messages` table
+      - tsvector generated from `content` with the 'simple' configuration, so
+        English, Spanish and French messages are all searchable without stemming
+        one language's words as another's
+
+  2. Functions (called with supabase.rpc as the caller, so RLS still applies)
+    - `search_chat_sessions(p_query, p_include_archived, p_limit)`
+      Full-text search over the caller's messages and session titles. Returns one
+      row per matching session with the best matching message as `snippet`,
+      pinned sessions first, then by rank and recency
+    - Granted to `authenticated` only: sessions without an owner are shared by
+      every signed-out device, so they have no history to search
+
+  3. Indexes
+    - GIN index on `chat_messages.search_vector`
+    - Index on (user_id, archived_at, pinned, updated_at) for the history list
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'chat_sessions' AND column_name = 'pinned'
+  ) THEN
+    ALTER TABLE chat_sessions ADD COLUMN pinned boolean DEFAULT false NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'chat_sessions' AND column_name = 'archived_at'
+  ) THEN
+    ALTER TABLE chat_sessions ADD COLUMN archived_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'chat_messages' AND column_name = 'search_vector'
+  ) THEN
+    ALTER TABLE chat_messages ADD COLUMN search_vector tsvector
+      GENERATED ALWAYS AS (to_tsvector('simple', coalesce(content, ''))) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_search_vector
+  ON chat_messages USING gin(search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_history
+  ON chat_sessions(user_id, archived_at, pinned, updated_at DESC);
+
+CREATE OR REPLACE FUNCTION search_chat_sessions(
+  p_query text,
+  p_include_archived boolean DEFAULT false,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  session_id uuid,
+  title text,
+  phase text,
+  pinned boolean,
+  archived_at timestamptz,
+  updated_at timestamptz,
+  snippet text,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('simple', p_query) AS q
+  ),
+  message_hits AS (
+    SELECT DISTINCT ON (m.session_id)
+      m.session_id,
+      ts_headline('simple', m.content, query.q, 'MaxFragments=1, MaxWords=18, MinWords=6') AS snippet,
+      ts_rank(m.search_vector, query.q) AS rank
+    FROM chat_messages m, query
+    WHERE m.search_vector @@ query.q
+      AND m.role IN ('user', 'assistant')
+    ORDER BY m.session_id, ts_rank(m.search_vector, query.q) DESC, m.created_at DESC
+  )
+  SELECT
+    s.id,
+    s.title,
+    s.phase,
+    s.pinned,
+    s.archived_at,
+    s.updated_at,
+    hit.snippet,
+    coalesce(hit.rank, 0) + CASE WHEN to_tsvector('simple', s.title) @@ query.q THEN 1 ELSE 0 END AS match_rank
+  FROM chat_sessions s
+  CROSS JOIN query
+  LEFT JOIN message_hits hit ON hit.session_id = s.id
+  WHERE (hit.session_id IS NOT NULL OR to_tsvector('simple', s.title) @@ query.q)
+    AND (p_include_archived OR s.archived_at IS NULL)
+  ORDER BY s.pinned DESC, match_rank DESC, s.updated_at DESC
+  LIMIT least(greatest(p_limit, 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_chat_sessions(text, boolean, integer) TO authenticated;
@@ -0,0 +1,30 @@
+/*
+  # Add client id to chat messages
+
+  1. Changes
+    - Add `client_id` column to `chat_messages` table
+      - text, nullable
+      - Generated on the device when a message is queued, so a send that is
+        retried after a dropped connection can't store the message twice.
+        The assistant's reply to it is stored as `<client_id>:reply`
+
+  2. Security
+    - Maintains existing RLS policies
+
+  3. Indexes
+    - Unique index on (session_id, client_id); messages without a client id
+      (NULL) are unaffected
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'chat_messages' AND column_name = 'client_id'
+  ) THEN
+    ALTER TABLE chat_messages ADD COLUMN client_id text CHECK (char_length(client_id) <= 100);
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_chat_messages_session_client_id
+  ON chat_messages(session_id, client_id);
@@ -0,0 +1,29 @@
+/*
+  # Realtime for chat sessions
+
+  1. Changes
+    - Add `chat_messages` and `chat_sessions` to the `supabase_realtime`
+      publication, so an open conversation receives new messages and phase
+      changes made from another device or the web build
+
+  2. Security
+    - Realtime checks each change against the tables' existing SELECT policies,
+      so a subscriber only receives rows of their own sessions
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'chat_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE chat_messages;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'chat_sessions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE chat_sessions;
+  END IF;
+END $$;
@@ -0,0 +1,84 @@
+/*
+  # Apply excursion revisions atomically
+
+  1. Functions (called with supabase.rpc as the caller, so RLS still applies)
+    - `apply_excursion_revision(p_excursion_id, p_author, p_reason, p_snapshot)`
+      Locks the excursion, appends `p_snapshot` to `excursion_revisions` as the
+      next revision (storing the current plan as version 1 first when the
+      excursion has no history yet) and writes the snapshot's title,
+      description, route_data, duration_minutes, distance_km and difficulty to
+      the excursion, all in one transaction, so the history can't fall out of
+      step with the excursion; returns the new revision
+    - Raises NU404 when the excursion doesn't exist or isn't the caller's
+*/
+
+CREATE OR REPLACE FUNCTION apply_excursion_revision(
+  p_excursion_id uuid,
+  p_author text,
+  p_reason text,
+  p_snapshot jsonb
+)
+RETURNS excursion_revisions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_excursion excursions;
+  v_latest integer;
+  v_revision excursion_revisions;
+BEGIN
+  SELECT * INTO v_excursion
+  FROM excursions
+  WHERE id = p_excursion_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Excursion % not found', p_excursion_id
+      USING ERRCODE = 'NU404';
+  END IF;
+
+  SELECT coalesce(max(revision_number), 0) INTO v_latest
+  FROM excursion_revisions
+  WHERE excursion_id = p_excursion_id;
+
+  -- Excursions are created without a revision, so the first change also
+  -- stores the original plan.
+  IF v_latest = 0 THEN
+    INSERT INTO excursion_revisions (excursion_id, user_id, revision_number, author, reason, snapshot)
+    VALUES (
+      p_excursion_id,
+      v_excursion.user_id,
+      1,
+      'ai',
+      'Original plan',
+      jsonb_build_object(
+        'title', v_excursion.title,
+        'description', v_excursion.description,
+        'route_data', v_excursion.route_data,
+        'duration_minutes', v_excursion.duration_minutes,
+        'distance_km', v_excursion.distance_km,
+        'difficulty', v_excursion.difficulty
+      )
+    );
+    v_latest := 1;
+  END IF;
+
+  INSERT INTO excursion_revisions (excursion_id, user_id, revision_number, author, reason, snapshot)
+  VALUES (p_excursion_id, v_excursion.user_id, v_latest + 1, p_author, p_reason, p_snapshot)
+  RETURNING * INTO v_revision;
+
+  UPDATE excursions
+  SET
+    title = p_snapshot ->> 'title',
+    description = p_snapshot ->> 'description',
+    route_data = p_snapshot -> 'route_data',
+    duration_minutes = (p_snapshot ->> 'duration_minutes')::integer,
+    distance_km = (p_snapshot ->> 'distance_km')::numeric,
+    difficulty = p_snapshot ->> 'difficulty'
+  WHERE id = p_excursion_id;
+
+  RETURN v_revision;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_excursion_revision(uuid, text, text, jsonb) TO authenticated;
@@ -0,0 +1,64 @@
+/*
+  # Conditional metadata merges
+
+  1. Functions (called with supabase.rpc as the caller, so RLS still applies)
+    - `merge_chat_session_metadata(p_session_id, p_patch, p_increments, p_expected_updated_at)`
+      Same as before, plus an optional `p_expected_updated_at`: when given,
+      the merge only happens if the session's `updated_at` still matches, so a
+      turn that computed its planning state from an older read can't
+      overwrite the slots another turn saved in the meantime
+    - Raises NU412 when the session changed since `p_expected_updated_at`,
+      NU404 when it doesn't exist or isn't the caller's
+*/
+
+DROP FUNCTION IF EXISTS merge_chat_session_metadata(uuid, jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION merge_chat_session_metadata(
+  p_session_id uuid,
+  p_patch jsonb DEFAULT '{}'::jsonb,
+  p_increments jsonb DEFAULT '{}'::jsonb,
+  p_expected_updated_at timestamptz DEFAULT NULL
+)
+RETURNS chat_sessions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session chat_sessions;
+BEGIN
+  UPDATE chat_sessions
+  SET
+    conversation_metadata = coalesce(conversation_metadata, '{}'::jsonb)
+      || coalesce(p_patch, '{}'::jsonb)
+      || (
+        SELECT coalesce(
+          jsonb_object_agg(
+            increment.key,
+            coalesce((chat_sessions.conversation_metadata ->> increment.key)::numeric, 0) + increment.value::numeric
+          ),
+          '{}'::jsonb
+        )
+        FROM jsonb_each_text(coalesce(p_increments, '{}'::jsonb)) AS increment
+      ),
+    updated_at = now()
+  WHERE id = p_session_id
+    AND (p_expected_updated_at IS NULL OR updated_at = p_expected_updated_at)
+  RETURNING * INTO v_session;
+
+  IF NOT FOUND THEN
+    IF p_expected_updated_at IS NOT NULL AND EXISTS (
+      SELECT 1 FROM chat_sessions WHERE id = p_session_id
+    ) THEN
+      RAISE EXCEPTION 'Session % changed since %', p_session_id, p_expected_updated_at
+        USING ERRCODE = 'NU412';
+    END IF;
+
+    RAISE EXCEPTION 'Session % not found', p_session_id
+      USING ERRCODE = 'NU404';
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_chat_session_metadata(uuid, jsonb, jsonb, timestamptz) TO authenticated, anon;
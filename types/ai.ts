@@ -1,7 +1,12 @@
+import type { ParsedIntent } from '@/types/intent';
+
 export type AiAction =
   | 'health_coach_message'
   | 'excursion_plan'
-  | 'excursion_creator_message';
+  | 'excursion_revise'
+  | 'excursion_creator_message'
+  | 'intent_extract'
+  | 'safety_check';
 
 export type ChatMessage = {
   role: 'user' | 'assistant' | 'system';
@@ -11,24 +16,80 @@ export type ChatMessage = {
 export type AiRequest = {
   action: AiAction;
   input: Record<string, unknown>;
-  context?: Record<string, unknown>;
-  conversation_history?: ChatMessage[];
+  /**
+   * Chat turns name their session. The server loads context and history for
+   * the signed-in caller (from this session when set) and never takes them
+   * from the client; only `input.user_location` comes from the device.
+   */
+  session_id?: string;
+  stream?: boolean;
 };
 
 export type AiResponse<T = unknown> = {
   ok: boolean;
   result?: T;
-  error?: { message: string; code?: string };
+  /**
+   * `INVALID_PLAN` means an `excursion_plan` result still failed server-side
+   * validation after a repair attempt; `issues` lists what was wrong.
+   * `INVALID_REVISION` is the same for `excursion_revise`.
+   */
+  error?: { message: string; code?: string; issues?: string[] };
   meta?: {
     provider?: string;
     model?: string;
     latency_ms?: number;
     trace_id?: string;
+    /** Retries spent across the provider chain before this result. */
+    retries?: number;
+    /** Providers that failed or were skipped before `provider` answered. */
+    fallback_from?: string[];
+    /** Set when the result needed a repair round-trip to pass validation. */
+    repaired?: boolean;
+    /** Tools the model called (place, weather, route lookups), in order. */
+    tool_calls?: string[];
+    /** Which registered system prompt produced the result (`action` or `action/phase`). */
+    prompt_id?: string;
+    prompt_version?: number;
+    /** Set when the crisis check matched and the result is the fixed crisis-resources response. */
+    safety?: 'crisis';
   };
 };
 
 export type HealthCoachResult = {
   reply: string;
+  /** The message matched the crisis check server-side; `reply` is the fixed response. */
+  crisis?: boolean;
+};
+
+export type SafetyCheckResult = {
+  crisis: boolean;
+  /** Whether the model was asked; false when the rules alone decided. */
+  checked: boolean;
+};
+
+/** Schema-validated fields from `intent_extract`; anything the model could not support is omitted. */
+export type IntentExtractResult = Partial<
+  Pick<
+    ParsedIntent,
+    | 'durationMinutes'
+    | 'proximityBias'
+    | 'proximityDistanceKm'
+    | 'locationPreference'
+    | 'specifiedLocation'
+    | 'activities'
+    | 'excludedActivities'
+    | 'avoid'
+    | 'difficulty'
+    | 'therapeuticGoals'
+    | 'companions'
+    | 'startTime'
+    | 'wantsExcursion'
+    | 'isAffirmative'
+    | 'isCorrection'
+  >
+> & {
+  /** Keyed by the returned field names (e.g. `proximityBias`), not `IntentField`. */
+  fieldConfidence: Partial<Record<string, number>>;
 };
 
 export type ExcursionPlanResult = {
@@ -44,3 +105,14 @@ export type ExcursionPlanResult = {
     lng: number;
   };
 };
+
+/** The fields an `excursion_revise` result changes; omitted ones stay as they are. */
+export type ExcursionChanges = Partial<
+  Pick<Required<ExcursionPlanResult>, 'steps' | 'duration_minutes' | 'difficulty' | 'destination'>
+>;
+
+export type ExcursionRevisionResult = {
+  /** One sentence describing the change, or why nothing changed. */
+  summary: string;
+  changes: ExcursionChanges;
+};
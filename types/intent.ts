@@ -1,17 +1,111 @@
 export type ProximityBias = "none" | "near_here" | "nearby" | "within_distance";
 
+export type LocationPreference = "ai_suggestions" | "specific";
+
+export type IntentField =
+  | "durationMinutes"
+  | "proximity"
+  | "locationPreference"
+  | "activities"
+  | "excludedActivities"
+  | "avoid"
+  | "difficulty"
+  | "therapeuticGoals"
+  | "startTime"
+  | "companions";
+
+/** Where a field's value came from: the keyword rules or the `intent_extract` model fallback. */
+export type IntentSource = "rules" | "model";
+
+export type IntentFallbackConfig = {
+  /** Ask the model only when the rules' overall confidence is below this. */
+  minRuleConfidence: number;
+  /** A rules field below this confidence may be replaced by the model's value. */
+  fieldOverrideBelow: number;
+  /** Model fields below this confidence are ignored. */
+  minModelConfidence: number;
+  timeoutMs: number;
+};
+
+export type IntentFlag = "wantsExcursion" | "isAffirmative" | "isCorrection";
+
+export type IntentParseOptions = {
+  now?: Date;
+  location?: { lat: number; lng: number };
+  /** BCP 47 tag such as "es-MX"; falls back to the device locale. */
+  locale?: string;
+};
+
+/**
+ * Every word list the parser matches against. Keys of the keyword maps are the
+ * canonical (English) values written to `ParsedIntent`, so downstream code is
+ * the same whichever language the user typed in.
+ */
+export type IntentLexicon = {
+  locale: string;
+
+  proximityPhrases: Array<{ phrase: string; bias: ProximityBias }>;
+  withinWords: string[];
+  distanceUnits: { km: string[]; mi: string[] };
+
+  suggestionPhrases: string[];
+  specificLocationPhrases: string[];
+  /** Words before a capitalised place name ("at", "near"). */
+  placePrepositions: string[];
+  articles: string[];
+  /** Lower-case words allowed inside a place name ("Parque del Retiro"). */
+  placeNameConnectors: string[];
+
+  excursionKeywords: string[];
+  affirmatives: string[];
+  corrections: string[];
+  /** A reply that starts with one of these ("no, ...") is a correction. */
+  refusals: string[];
+
+  activities: Record<string, string[]>;
+  difficulty: Record<"easy" | "medium" | "hard", string[]>;
+  therapeuticGoals: Record<string, string[]>;
+  companions: Record<string, string[]>;
+  avoid: Record<string, string[]>;
+  avoidHints: Record<string, string[]>;
+
+  negationCues: string[];
+  clauseBoundaries: string[];
+
+  /** Rewrites local time words to English before time-expression parsing. */
+  timeWords: Record<string, string>;
+};
+
 export type ParsedIntent = {
   rawText: string;
 
   durationMinutes?: number;
+  durationRange?: { minMinutes: number; maxMinutes: number };
 
   proximityBias?: ProximityBias;
   proximityDistanceKm?: number;
 
+  locationPreference?: LocationPreference;
+  specifiedLocation?: string;
+
   activities?: string[];
+  excludedActivities?: string[];
+  avoid?: string[];
   difficulty?: "easy" | "medium" | "hard";
   therapeuticGoals?: string[];
 
+  startTime?: string;
+  startAt?: string;
+  endBy?: string;
+  companions?: string[];
+
+  wantsExcursion: boolean;
+  isAffirmative: boolean;
+  isCorrection: boolean;
+
   confidence: number;
+  fieldConfidence: Partial<Record<IntentField, number>>;
   matches: Record<string, string>;
+  /** Set by `resolveIntent` for every field it returns. */
+  sources?: Partial<Record<IntentField | IntentFlag, IntentSource>>;
 };
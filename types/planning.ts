@@ -0,0 +1,67 @@
+export type SlotName =
+  | 'duration'
+  | 'location'
+  | 'activities'
+  | 'excludedActivities'
+  | 'avoid'
+  | 'difficulty'
+  | 'goals'
+  | 'startTime'
+  | 'companions';
+
+/** `model` marks values the `intent_extract` fallback supplied rather than the keyword rules. */
+export type SlotSource = 'user' | 'model' | 'default';
+
+export type SlotValue<T> = {
+  value: T;
+  confidence: number;
+  source: SlotSource;
+  updatedTurn: number;
+};
+
+export type LocationSlot = {
+  preference: 'ai_suggestions' | 'specific';
+  name?: string;
+  proximityKm?: number;
+};
+
+export type StartTimeSlot = {
+  label: string;
+  startAt?: string;
+  endBy?: string;
+};
+
+export type PlanningSlots = {
+  duration?: SlotValue<number>;
+  location?: SlotValue<LocationSlot>;
+  activities?: SlotValue<string[]>;
+  excludedActivities?: SlotValue<string[]>;
+  avoid?: SlotValue<string[]>;
+  difficulty?: SlotValue<'easy' | 'medium' | 'hard'>;
+  goals?: SlotValue<string[]>;
+  startTime?: SlotValue<StartTimeSlot>;
+  companions?: SlotValue<string[]>;
+};
+
+export type SlotDefinition = {
+  required: boolean;
+  /** Optional slots with `prompt` are asked about once before confirming. */
+  prompt: boolean;
+  /** What the question should be about; the model only phrases it. */
+  topic: string;
+};
+
+export type PlanningAction =
+  | { kind: 'ask'; slot: SlotName; topic: string }
+  | { kind: 'confirm' }
+  | { kind: 'ready' };
+
+export type PlanningStage = 'collecting' | 'confirming' | 'ready';
+
+export type PlanningState = {
+  slots: PlanningSlots;
+  stage: PlanningStage;
+  turn: number;
+  askCounts: Partial<Record<SlotName, number>>;
+  next: PlanningAction;
+};